@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   LayoutDashboard, 
   Users, 
@@ -12,65 +12,163 @@ import {
   Search,
   Save,
   CheckCircle,
-  Upload,
-  Loader2
+  X
 } from 'lucide-react';
-import { ClientData, ViewState, AccountLine } from './types';
-import { classifyAccounts, parseFinancialDocument, fetchRegulatoryUpdates, extractStructureFromExcel } from './services/geminiService';
+import { ClientData, ViewState, MappingRule, ModelLibrary, PriceIndexTable, ExchangeRateTable } from './types';
+import { loadClients, saveClient, saveSetting, describeStorageError } from './services/storage';
+import { AI_PROVIDERS, DEFAULT_AI_SETTINGS, configureAI, getProviderOption } from './services/providers';
+import { AISettings } from './services/providers/types';
+import { normalizeModel, parseModelText } from './services/balanceModel';
+import { createModelLibrary, normalizeLibrary } from './services/modelLibrary';
 
 // Components (Inline for single file structure requirement, effectively separated logic)
 import ClientList from './components/ClientList';
 import FinancialWorkspace from './components/FinancialWorkspace';
 import RegulatoryFeed from './components/RegulatoryFeed';
+import MappingRulesEditor from './components/MappingRulesEditor';
+import ModelLibraryPanel from './components/ModelLibraryPanel';
+import PriceIndexPanel from './components/PriceIndexPanel';
+import ExchangeRatePanel from './components/ExchangeRatePanel';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState | 'SETTINGS'>('DASHBOARD');
   const [clients, setClients] = useState<ClientData[]>([]);
   const [activeClient, setActiveClient] = useState<ClientData | null>(null);
-  const [globalModel, setGlobalModel] = useState<string>('');
-  const [isSaved, setIsSaved] = useState(false);
-  const [isImportingModel, setIsImportingModel] = useState(false);
-  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [modelLibrary, setModelLibrary] = useState<ModelLibrary>(createModelLibrary());
+  const [priceIndices, setPriceIndices] = useState<PriceIndexTable | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable | null>(null);
+  const [globalMappingRules, setGlobalMappingRules] = useState<MappingRule[]>([]);
+  const [isRulesSaved, setIsRulesSaved] = useState(false);
+  const [aiSettings, setAISettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  const [isAISaved, setIsAISaved] = useState(false);
+  const [userName, setUserName] = useState('');
+  const [storageError, setStorageError] = useState<string | null>(null);
   
-  // Load mock data or local storage on mount
+  const persistClient = (client: ClientData) => {
+    saveClient(client)
+      .then(() => setStorageError(null))
+      .catch(error => {
+        console.error("Error saving client:", error);
+        setStorageError(describeStorageError(error));
+      });
+  };
+
+  // The setting stays in memory for the session even if it could not be stored
+  const persistSetting = (key: string, value: unknown) => {
+    try {
+      saveSetting(key, value);
+      setStorageError(null);
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setStorageError(describeStorageError(error));
+    }
+  };
+
+  // Load clients from storage (or seed demo data) and settings from localStorage on mount
   useEffect(() => {
-    const storedClients = localStorage.getItem('auditai_clients');
-    const storedModel = localStorage.getItem('auditai_global_model');
+    loadClients()
+      .then(storedClients => {
+        if (storedClients.length > 0) {
+          setClients(storedClients);
+          return;
+        }
+        // Seed with a demo client
+        const demoClient: ClientData = {
+          id: '1',
+          name: 'Empresa Demo S.A.',
+          cuit: '30-12345678-9',
+          industry: 'Retail',
+          lastUpdated: new Date().toISOString(),
+          periods: [],
+          files: []
+        };
+        setClients([demoClient]);
+        persistClient(demoClient);
+      })
+      .catch(error => {
+        console.error("Error loading clients:", error);
+        setStorageError(describeStorageError(error));
+      });
+
+    const storedLibrary = localStorage.getItem('auditai_model_library');
+    const storedPriceIndices = localStorage.getItem('auditai_price_indices');
+    const storedExchangeRates = localStorage.getItem('auditai_exchange_rates');
+    const storedMappingRules = localStorage.getItem('auditai_mapping_rules');
+    const storedAISettings = localStorage.getItem('auditai_ai_settings');
+    setUserName(localStorage.getItem('auditai_user_name') || '');
 
-    if (storedClients) {
-      setClients(JSON.parse(storedClients));
+    if (storedLibrary) {
+      setModelLibrary(normalizeLibrary(JSON.parse(storedLibrary)));
     } else {
-      // Seed with a demo client
-      const demoClient: ClientData = {
-        id: '1',
-        name: 'Empresa Demo S.A.',
-        cuit: '30-12345678-9',
-        industry: 'Retail',
-        lastUpdated: new Date().toISOString(),
-        accounts: [],
-        files: [],
-        notes: []
-      };
-      setClients([demoClient]);
-      localStorage.setItem('auditai_clients', JSON.stringify([demoClient]));
+      // First start with the library: the single model of earlier versions becomes "Tu Estándar"
+      const structuredModel = localStorage.getItem('auditai_balance_model');
+      const textModel = localStorage.getItem('auditai_global_model');
+      const legacyModel = structuredModel
+        ? normalizeModel(JSON.parse(structuredModel))
+        : textModel ? parseModelText(textModel) : undefined;
+      handleLibraryChange(createModelLibrary(legacyModel));
+      localStorage.removeItem('auditai_balance_model');
+      localStorage.removeItem('auditai_global_model');
     }
 
-    if (storedModel) {
-      setGlobalModel(storedModel);
+    if (storedPriceIndices) {
+      setPriceIndices(JSON.parse(storedPriceIndices));
+    }
+
+    if (storedExchangeRates) {
+      setExchangeRates(JSON.parse(storedExchangeRates));
+    }
+
+    if (storedMappingRules) {
+      setGlobalMappingRules(JSON.parse(storedMappingRules));
+    }
+
+    if (storedAISettings) {
+      const settings = JSON.parse(storedAISettings);
+      setAISettings(settings);
+      configureAI(settings);
     }
   }, []);
 
   const saveClientData = (updatedClient: ClientData) => {
     const updatedClients = clients.map(c => c.id === updatedClient.id ? updatedClient : c);
     setClients(updatedClients);
-    localStorage.setItem('auditai_clients', JSON.stringify(updatedClients));
+    persistClient(updatedClient);
     setActiveClient(updatedClient);
   };
 
-  const saveGlobalModel = () => {
-    localStorage.setItem('auditai_global_model', globalModel);
-    setIsSaved(true);
-    setTimeout(() => setIsSaved(false), 2000);
+  // Library edits are saved as they happen; model changes only through new versions
+  const handleLibraryChange = (library: ModelLibrary) => {
+    setModelLibrary(library);
+    persistSetting('auditai_model_library', library);
+  };
+
+  const handlePriceIndicesChange = (table: PriceIndexTable | null) => {
+    setPriceIndices(table);
+    persistSetting('auditai_price_indices', table);
+  };
+
+  const handleExchangeRatesChange = (table: ExchangeRateTable | null) => {
+    setExchangeRates(table);
+    persistSetting('auditai_exchange_rates', table);
+  };
+
+  const saveAISettings = () => {
+    localStorage.setItem('auditai_ai_settings', JSON.stringify(aiSettings));
+    configureAI(aiSettings);
+    setIsAISaved(true);
+    setTimeout(() => setIsAISaved(false), 2000);
+  };
+
+  const handleUserNameChange = (name: string) => {
+    setUserName(name);
+    localStorage.setItem('auditai_user_name', name);
+  };
+
+  const saveGlobalMappingRules = () => {
+    localStorage.setItem('auditai_mapping_rules', JSON.stringify(globalMappingRules));
+    setIsRulesSaved(true);
+    setTimeout(() => setIsRulesSaved(false), 2000);
   };
 
   const handleCreateClient = (name: string, cuit: string, industry: string) => {
@@ -80,40 +178,16 @@ const App: React.FC = () => {
       cuit,
       industry,
       lastUpdated: new Date().toISOString(),
-      accounts: [],
-      files: [],
-      notes: []
+      periods: [],
+      files: []
     };
     const updated = [...clients, newClient];
     setClients(updated);
-    localStorage.setItem('auditai_clients', JSON.stringify(updated));
+    persistClient(newClient);
     setActiveClient(newClient);
     setView('CLIENT_WORKBENCH');
   };
 
-  const handleImportModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files?.length) return;
-    const file = e.target.files[0];
-    
-    setIsImportingModel(true);
-    try {
-        const reader = new FileReader();
-        reader.onload = async () => {
-            const base64 = (reader.result as string).split(',')[1];
-            // Call the specialized service function
-            const extractedModel = await extractStructureFromExcel(base64);
-            setGlobalModel(extractedModel);
-            setIsImportingModel(false);
-            if (modelInputRef.current) modelInputRef.current.value = '';
-        };
-        reader.readAsDataURL(file);
-    } catch (error) {
-        console.error(error);
-        alert("Error al importar el modelo.");
-        setIsImportingModel(false);
-    }
-  };
-
   return (
     <div className="min-h-screen flex bg-gray-50 font-sans text-slate-800">
       {/* Sidebar Navigation */}
@@ -168,12 +242,25 @@ const App: React.FC = () => {
         </nav>
 
         <div className="p-4 border-t border-slate-800 text-xs text-slate-500 text-center">
-          v1.1.0 • Powered by Gemini 2.5
+          v1.1.0 • {getProviderOption(aiSettings.providerId).label} ({aiSettings.model})
         </div>
       </aside>
 
       {/* Main Content */}
       <main className="flex-1 ml-64 p-8 overflow-y-auto h-screen">
+        {storageError && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-xl p-4 flex items-start gap-3 shadow-sm">
+            <AlertTriangle className="shrink-0 text-red-600" size={20} />
+            <div className="flex-1 text-sm">
+              <p className="font-bold">Problema con el almacenamiento de datos</p>
+              <p>{storageError}</p>
+            </div>
+            <button onClick={() => setStorageError(null)} className="p-1 text-red-400 hover:text-red-700 rounded" title="Cerrar">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {view === 'DASHBOARD' && (
           <ClientList clients={clients} onCreateClient={handleCreateClient} onSelectClient={(c) => { setActiveClient(c); setView('CLIENT_WORKBENCH'); }} />
         )}
@@ -181,7 +268,11 @@ const App: React.FC = () => {
         {view === 'CLIENT_WORKBENCH' && activeClient && (
           <FinancialWorkspace 
             client={activeClient} 
-            globalModel={globalModel}
+            modelLibrary={modelLibrary}
+            priceIndices={priceIndices}
+            exchangeRates={exchangeRates}
+            globalMappingRules={globalMappingRules}
+            currentUser={userName}
             onSave={saveClientData} 
             onBack={() => { setView('DASHBOARD'); setActiveClient(null); }} 
           />
@@ -200,62 +291,133 @@ const App: React.FC = () => {
                <p className="text-slate-500 mt-2">Define los parámetros que se aplicarán a todos los clientes por defecto.</p>
              </header>
 
-             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-                <div className="p-6 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Usuario</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Nombre con el que se firman los cambios manuales en el registro de auditoría de cada cliente.
+                   </p>
+                </div>
+                <div className="p-6">
+                   <label className="block text-sm font-medium text-slate-700 mb-1">Nombre del auditor</label>
+                   <input
+                     value={userName}
+                     onChange={(e) => handleUserNameChange(e.target.value)}
+                     placeholder="Ej: C.P. María Gómez"
+                     className="w-full md:w-1/2 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                   />
+                </div>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Motor de IA</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Proveedor y modelo usados para leer documentos, clasificar cuentas y buscar normativa.
+                   </p>
+                </div>
+                <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
                    <div>
-                       <h2 className="text-lg font-bold text-slate-800">Modelo de Balance Estándar ("Tu Estándar")</h2>
-                       <p className="text-sm text-slate-500 mt-1">
-                         Define aquí los Rubros (Categorías) para la clasificación automática.
-                       </p>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Proveedor</label>
+                      <select
+                        value={aiSettings.providerId}
+                        onChange={(e) => {
+                          const option = getProviderOption(e.target.value as AISettings['providerId']);
+                          setAISettings({ providerId: option.id, model: option.models[0] });
+                        }}
+                        className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                      >
+                        {AI_PROVIDERS.map(p => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-slate-400 mt-2">{getProviderOption(aiSettings.providerId).description}</p>
                    </div>
-                   
                    <div>
-                       <input 
-                         type="file" 
-                         ref={modelInputRef} 
-                         className="hidden" 
-                         accept=".xlsx,.xls,.csv" 
-                         onChange={handleImportModel}
-                       />
-                       <button 
-                         onClick={() => modelInputRef.current?.click()}
-                         disabled={isImportingModel}
-                         className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
-                       >
-                         {isImportingModel ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
-                         {isImportingModel ? 'Analizando Modelo...' : 'Importar desde Excel'}
-                       </button>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Modelo</label>
+                      <select
+                        value={aiSettings.model}
+                        onChange={(e) => setAISettings({ ...aiSettings, model: e.target.value })}
+                        className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none font-mono text-sm"
+                      >
+                        {getProviderOption(aiSettings.providerId).models.map(m => (
+                          <option key={m} value={m}>{m}</option>
+                        ))}
+                      </select>
                    </div>
                 </div>
-                
+                <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end">
+                   <button 
+                     onClick={saveAISettings}
+                     className={`flex items-center gap-2 px-6 py-3 rounded-lg font-bold text-white transition-all
+                        ${isAISaved ? 'bg-green-600' : 'bg-sky-600 hover:bg-sky-700'}
+                     `}
+                   >
+                     {isAISaved ? <CheckCircle size={20} /> : <Save size={20} />}
+                     {isAISaved ? 'Guardado Exitosamente' : 'Guardar Motor de IA'}
+                   </button>
+                </div>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Biblioteca de Modelos de Balance</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Un modelo por tipo de entidad, con los rubros de cada capítulo en el orden de presentación,
+                     sus subrubros y su saldo normal. Arrastre para reordenar. Cada cliente o ejercicio usa el modelo
+                     asignado en su espacio de trabajo; los demás, el predeterminado.
+                   </p>
+                </div>
                 <div className="p-6">
-                   <textarea 
-                      value={globalModel}
-                      onChange={(e) => setGlobalModel(e.target.value)}
-                      placeholder={`Ejemplo:
-ACTIVO:
-- Disponibilidades
-- Inversiones Transitorias
-- Créditos por Ventas
-- Otros Créditos
-- Bienes de Cambio
-...
-
-PASIVO:
-- Deudas Comerciales
-...`}
-                      className="w-full h-96 p-4 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-sky-500 outline-none resize-none"
-                   />
+                   <ModelLibraryPanel library={modelLibrary} currentUser={userName} onChange={handleLibraryChange} />
+                </div>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mt-8">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Índices de Precios (Ajuste por Inflación)</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Serie mensual del IPC publicada por la FACPCE para la reexpresión en moneda de cierre (RT 6).
+                     Se usa en todos los clientes.
+                   </p>
+                </div>
+                <div className="p-6">
+                   <PriceIndexPanel table={priceIndices} onChange={handlePriceIndicesChange} />
+                </div>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mt-8">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Tipos de Cambio</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Cotizaciones para convertir a pesos las cuentas en moneda extranjera, al tipo de cambio vigente al cierre
+                     (el último publicado hasta esa fecha). Se usan en todos los clientes.
+                   </p>
+                </div>
+                <div className="p-6">
+                   <ExchangeRatePanel table={exchangeRates} onChange={handleExchangeRatesChange} />
+                </div>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mt-8">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                   <h2 className="text-lg font-bold text-slate-800">Reglas de Mapeo del Plan de Cuentas</h2>
+                   <p className="text-sm text-slate-500 mt-1">
+                     Las cuentas que coincidan se clasifican localmente, sin IA. Las reglas del cliente tienen prioridad sobre estas.
+                   </p>
+                </div>
+                <div className="p-6">
+                   <MappingRulesEditor rules={globalMappingRules} onChange={setGlobalMappingRules} />
                 </div>
                 <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end">
                    <button 
-                     onClick={saveGlobalModel}
+                     onClick={saveGlobalMappingRules}
                      className={`flex items-center gap-2 px-6 py-3 rounded-lg font-bold text-white transition-all
-                        ${isSaved ? 'bg-green-600' : 'bg-sky-600 hover:bg-sky-700'}
+                        ${isRulesSaved ? 'bg-green-600' : 'bg-sky-600 hover:bg-sky-700'}
                      `}
                    >
-                     {isSaved ? <CheckCircle size={20} /> : <Save size={20} />}
-                     {isSaved ? 'Guardado Exitosamente' : 'Guardar Modelo Estándar'}
+                     {isRulesSaved ? <CheckCircle size={20} /> : <Save size={20} />}
+                     {isRulesSaved ? 'Guardado Exitosamente' : 'Guardar Reglas de Mapeo'}
                    </button>
                 </div>
              </div>
@@ -0,0 +1,311 @@
+import React, { useState, useMemo } from 'react';
+import { AccountLine, AdjustingEntry, JournalLine } from '../types';
+import { EMPTY_JOURNAL_LINE, buildWorksheet, entryTotals, filledLines, findUnmatchedEntries, nextEntryNumber, validateEntry, worksheetTotals } from '../services/adjustments';
+import { getDetailLines } from '../services/accountTree';
+import { formatAmount, lineKey } from '../services/financialStatements';
+import { formatClosingDate } from '../services/periods';
+import { accountLabel } from '../services/changeLog';
+import { Plus, Trash2, Edit3, Save, AlertTriangle, NotebookPen } from 'lucide-react';
+
+interface Props {
+  accounts: AccountLine[]; // Lines of the period as imported, before any entry
+  entries: AdjustingEntry[];
+  closingDate?: string;
+  defaultUser: string;
+  onChange: (entries: AdjustingEntry[]) => void;
+}
+
+const newEntry = (entries: AdjustingEntry[], date: string): AdjustingEntry => ({
+  id: crypto.randomUUID(),
+  number: nextEntryNumber(entries),
+  date,
+  description: '',
+  reference: '',
+  lines: [{ ...EMPTY_JOURNAL_LINE }, { ...EMPTY_JOURNAL_LINE }],
+  createdAt: new Date().toISOString()
+});
+
+const amountOrBlank = (value: number) => value ? formatAmount(value) : '';
+
+/**
+ * Journal of adjusting entries of the period and the worksheet they lead to: balance as imported,
+ * adjustments and adjusted balance. The statements are built from the adjusted balance.
+ */
+const AdjustingEntriesPanel: React.FC<Props> = ({ accounts, entries, closingDate, defaultUser, onChange }) => {
+  const [editing, setEditing] = useState<AdjustingEntry | null>(null);
+
+  const details = useMemo(() => getDetailLines(accounts), [accounts]);
+  const labelByKey = useMemo(() => new Map<string, string>(details.map(acc => [lineKey(acc), accountLabel(acc)])), [details]);
+  const unmatchedIds = useMemo(() => new Set(findUnmatchedEntries(entries, accounts).map(e => e.id)), [entries, accounts]);
+  const worksheet = useMemo(() => buildWorksheet(accounts, entries), [accounts, entries]);
+  const totals = worksheetTotals(worksheet);
+  const sortedEntries = [...entries].sort((a, b) => a.number - b.number);
+
+  const setLine = (index: number, changes: Partial<JournalLine>) => setEditing(prev => prev && ({
+    ...prev,
+    lines: prev.lines.map((l, i) => i === index ? { ...l, ...changes } : l)
+  }));
+
+  const handleSave = () => {
+    if (!editing) return;
+    const errors = validateEntry(editing, accounts);
+    if (errors.length > 0) {
+      alert(`No se puede registrar el asiento:\n\n${errors.join('\n')}`);
+      return;
+    }
+    const entry = { ...editing, lines: filledLines(editing.lines), createdBy: editing.createdBy || defaultUser || undefined };
+    onChange(entries.some(e => e.id === entry.id) ? entries.map(e => e.id === entry.id ? entry : e) : [...entries, entry]);
+    setEditing(null);
+  };
+
+  const handleDelete = (entry: AdjustingEntry) => {
+    if (!window.confirm(`¿Eliminar el asiento N° ${entry.number} "${entry.description}"? Los saldos ajustados se recalculan.`)) return;
+    onChange(entries.filter(e => e.id !== entry.id));
+  };
+
+  const renderEditor = (entry: AdjustingEntry) => {
+    const entryTotal = entryTotals({ lines: filledLines(entry.lines) });
+    const difference = Math.round((entryTotal.debit - entryTotal.credit) * 100) / 100;
+    const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded text-sm outline-none focus:ring-2 focus:ring-corporate-500";
+    return (
+      <div className="border border-corporate-200 bg-corporate-50/30 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-12 gap-3">
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Asiento N°</label>
+            <div className="px-2 py-1.5 font-mono text-sm text-slate-700">{entry.number}</div>
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Fecha</label>
+            <input type="date" value={entry.date} onChange={(e) => setEditing({ ...entry, date: e.target.value })} className={inputClass} />
+          </div>
+          <div className="col-span-5">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descripción</label>
+            <input value={entry.description} onChange={(e) => setEditing({ ...entry, description: e.target.value })} placeholder="Ej: Previsión para deudores incobrables" className={inputClass} />
+          </div>
+          <div className="col-span-3">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Referencia</label>
+            <input value={entry.reference} onChange={(e) => setEditing({ ...entry, reference: e.target.value })} placeholder="Ej: PT C-3" className={inputClass} />
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="text-xs uppercase text-slate-500">
+            <tr>
+              <th className="text-left p-1">Cuenta</th>
+              <th className="text-right p-1 w-40">Debe</th>
+              <th className="text-right p-1 w-40">Haber</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.lines.map((line, i) => (
+              <tr key={i}>
+                <td className="p-1">
+                  <select value={line.accountKey} onChange={(e) => setLine(i, { accountKey: e.target.value })} className={`${inputClass} bg-white`}>
+                    <option value="">Seleccione una cuenta...</option>
+                    {line.accountKey && !labelByKey.has(line.accountKey) && (
+                      <option value={line.accountKey}>{line.accountKey} (no está en el balance)</option>
+                    )}
+                    {details.map(acc => <option key={acc.id} value={lineKey(acc)}>{accountLabel(acc)}</option>)}
+                  </select>
+                </td>
+                <td className="p-1">
+                  <input
+                    type="number"
+                    value={line.debit || ''}
+                    onChange={(e) => setLine(i, { debit: parseFloat(e.target.value) || 0 })}
+                    className={`${inputClass} text-right font-mono`}
+                    placeholder="0.00"
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="number"
+                    value={line.credit || ''}
+                    onChange={(e) => setLine(i, { credit: parseFloat(e.target.value) || 0 })}
+                    className={`${inputClass} text-right font-mono`}
+                    placeholder="0.00"
+                  />
+                </td>
+                <td className="p-1 text-center">
+                  <button
+                    onClick={() => setEditing({ ...entry, lines: entry.lines.filter((_, j) => j !== i) })}
+                    disabled={entry.lines.length <= 2}
+                    className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold border-t border-slate-300">
+              <td className="p-1">
+                <button
+                  onClick={() => setEditing({ ...entry, lines: [...entry.lines, { ...EMPTY_JOURNAL_LINE }] })}
+                  className="flex items-center gap-1 text-xs font-medium text-corporate-700 hover:underline"
+                >
+                  <Plus size={14} /> Agregar línea
+                </button>
+              </td>
+              <td className="p-1 text-right font-mono">{formatAmount(entryTotal.debit)}</td>
+              <td className="p-1 text-right font-mono">{formatAmount(entryTotal.credit)}</td>
+              <td></td>
+            </tr>
+            {difference !== 0 && (
+              <tr>
+                <td colSpan={4} className="p-1 text-right text-xs text-red-600">Diferencia: {formatAmount(difference)}</td>
+              </tr>
+            )}
+          </tfoot>
+        </table>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setEditing(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">
+            Cancelar
+          </button>
+          <button onClick={handleSave} className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700 text-sm">
+            <Save size={16} /> Registrar asiento
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const worksheetCell = (value: number, bold = false) => (
+    <td className={`p-2 text-right font-mono ${bold ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>{amountOrBlank(value)}</td>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto p-6 space-y-8">
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <NotebookPen size={20} className="text-corporate-600" /> Asientos de Ajuste
+            </h3>
+            <p className="text-sm text-slate-500">
+              Se aplican sobre los saldos importados, que no se modifican. Los estados contables usan el balance ajustado.
+            </p>
+          </div>
+          <button
+            onClick={() => setEditing(newEntry(entries, closingDate || new Date().toISOString().split('T')[0]))}
+            disabled={!!editing}
+            className="flex items-center gap-2 text-sm font-medium text-white bg-corporate-600 hover:bg-corporate-700 px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            <Plus size={16} /> Nuevo Asiento
+          </button>
+        </div>
+
+        {editing && !entries.some(e => e.id === editing.id) && renderEditor(editing)}
+
+        {sortedEntries.length === 0 && !editing && (
+          <p className="text-sm text-slate-400 text-center py-6 border border-dashed border-slate-200 rounded-lg">
+            Sin asientos de ajuste en este ejercicio.
+          </p>
+        )}
+
+        {sortedEntries.map(entry => editing?.id === entry.id ? (
+          <React.Fragment key={entry.id}>{renderEditor(editing)}</React.Fragment>
+        ) : (
+          <div key={entry.id} className="border border-slate-200 rounded-lg">
+            <div className="flex items-center gap-4 px-4 py-2 bg-slate-50 border-b border-slate-200 text-sm">
+              <span className="font-mono font-bold text-slate-700">N° {entry.number}</span>
+              <span className="text-slate-500">{formatClosingDate(entry.date)}</span>
+              <span className="flex-1 text-slate-800 font-medium">{entry.description}</span>
+              <span className="text-xs text-slate-500">Ref.: {entry.reference}</span>
+              {entry.createdBy && <span className="text-xs text-slate-400">{entry.createdBy}</span>}
+              {unmatchedIds.has(entry.id) && (
+                <span className="flex items-center gap-1 text-xs text-amber-700" title="Alguna cuenta del asiento ya no está en el balance; esa línea no se aplica">
+                  <AlertTriangle size={14} /> Cuenta inexistente
+                </span>
+              )}
+              <button onClick={() => setEditing(entry)} disabled={!!editing} className="text-slate-400 hover:text-corporate-600 disabled:opacity-30" title="Editar">
+                <Edit3 size={16} />
+              </button>
+              <button onClick={() => handleDelete(entry)} disabled={!!editing} className="text-slate-400 hover:text-red-500 disabled:opacity-30" title="Eliminar">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <table className="w-full text-sm">
+              <tbody>
+                {entry.lines.map((line, i) => (
+                  <tr key={i}>
+                    <td className={`px-4 py-1 ${line.credit ? 'pl-12' : ''} ${labelByKey.has(line.accountKey) ? 'text-slate-700' : 'text-amber-700'}`}>
+                      {line.credit ? 'a ' : ''}{labelByKey.get(line.accountKey) || line.accountKey}
+                    </td>
+                    <td className="px-4 py-1 text-right font-mono w-40 text-slate-700">{amountOrBlank(line.debit)}</td>
+                    <td className="px-4 py-1 text-right font-mono w-40 text-slate-700">{amountOrBlank(line.credit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-bold text-slate-800 mb-3">Hoja de Trabajo</h3>
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold">
+              <tr className="border-b border-slate-200">
+                <th className="p-2" rowSpan={2}>Código</th>
+                <th className="p-2" rowSpan={2}>Cuenta</th>
+                <th className="p-2 text-center border-l border-slate-200" colSpan={2}>Saldos según balance</th>
+                <th className="p-2 text-center border-l border-slate-200" colSpan={2}>Ajustes</th>
+                <th className="p-2 text-center border-l border-slate-200" colSpan={2}>Saldos ajustados</th>
+              </tr>
+              <tr>
+                <th className="p-2 text-right border-l border-slate-200">Deudor</th>
+                <th className="p-2 text-right">Acreedor</th>
+                <th className="p-2 text-right border-l border-slate-200">Debe</th>
+                <th className="p-2 text-right">Haber</th>
+                <th className="p-2 text-right border-l border-slate-200">Deudor</th>
+                <th className="p-2 text-right">Acreedor</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {worksheet.map(row => (
+                <tr key={row.account.id} className={row.entryNumbers.length > 0 ? 'bg-amber-50/40' : ''}>
+                  <td className="p-2 font-mono text-xs text-slate-500">{row.account.code}</td>
+                  <td className="p-2 text-slate-700">
+                    {row.account.name}
+                    {row.entryNumbers.length > 0 && (
+                      <span className="ml-2 text-[11px] text-slate-400">(As. {row.entryNumbers.join(', ')})</span>
+                    )}
+                  </td>
+                  {worksheetCell(Math.max(row.balance, 0))}
+                  {worksheetCell(Math.max(-row.balance, 0))}
+                  {worksheetCell(row.adjustmentDebit)}
+                  {worksheetCell(row.adjustmentCredit)}
+                  {worksheetCell(Math.max(row.adjusted, 0), true)}
+                  {worksheetCell(Math.max(-row.adjusted, 0), true)}
+                </tr>
+              ))}
+              {worksheet.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="p-8 text-center text-slate-400">Sin cuentas en el balance.</td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot className="bg-slate-100 font-bold border-t-2 border-slate-300">
+              <tr>
+                <td className="p-2" colSpan={2}>TOTALES</td>
+                {worksheetCell(totals.debitBefore, true)}
+                {worksheetCell(totals.creditBefore, true)}
+                {worksheetCell(totals.adjustmentDebit, true)}
+                {worksheetCell(totals.adjustmentCredit, true)}
+                {worksheetCell(totals.debitAfter, true)}
+                {worksheetCell(totals.creditAfter, true)}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default AdjustingEntriesPanel;
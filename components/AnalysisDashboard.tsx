@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  ResponsiveContainer, PieChart, Pie, Cell, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid, LineChart, Line
+} from 'recharts';
+import { AccountType } from '../types';
+import { GroupedFinancials, RubroGroup, formatAmount, rubroAmount } from '../services/financialStatements';
+import { BalanceFigures, RATIO_DEFINITIONS, RATIO_GROUP_LABELS, RatioGroup, RatioValue, formatRatio } from '../services/ratios';
+import { TrendingUp, TrendingDown, Minus, ChartPie, ChartLine } from 'lucide-react';
+
+export interface TrendPoint {
+  label: string; // Period label
+  ratios: RatioValue[];
+}
+
+interface Props {
+  financials: GroupedFinancials;
+  figures: BalanceFigures;
+  ratios: RatioValue[];
+  trend: TrendPoint[]; // Oldest period first
+  currentLabel: string;
+  priorLabel?: string; // Only with a prior period
+}
+
+const CHART_COLORS = ['#0f4c81', '#0ea5e9', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6', '#64748b', '#ec4899', '#84cc16'];
+
+// Slices with the presented amount; regularizadoras and empty rubros have no place in a pie
+const toSlices = (type: AccountType, groups: RubroGroup[]) => groups
+  .map(g => ({ name: g.name, value: rubroAmount(type, g) }))
+  .filter(s => s.value > 0);
+
+const Variation: React.FC<{ current: number | null; prior: number | null }> = ({ current, prior }) => {
+  if (current === null || prior === null || Math.abs(current - prior) < 0.0005) return <Minus size={14} className="text-slate-300" />;
+  return current > prior
+    ? <TrendingUp size={14} className="text-slate-500" />
+    : <TrendingDown size={14} className="text-slate-500" />;
+};
+
+const AnalysisDashboard: React.FC<Props> = ({ financials, figures, ratios, trend, currentLabel, priorLabel }) => {
+  const [trendKey, setTrendKey] = useState(RATIO_DEFINITIONS[0].key);
+  const trendDefinition = RATIO_DEFINITIONS.find(d => d.key === trendKey)!;
+
+  const assetSlices = toSlices(AccountType.ASSET, financials.assets);
+  const fundingSlices = [
+    ...toSlices(AccountType.LIABILITY, financials.liabilities),
+    ...(figures.equity > 0 ? [{ name: 'Patrimonio Neto', value: figures.equity }] : [])
+  ];
+
+  const structure = [
+    { name: 'Activo', Corriente: figures.currentAssets, 'No Corriente': figures.nonCurrentAssets },
+    { name: 'Pasivo + PN', Corriente: figures.currentLiabilities, 'No Corriente': figures.nonCurrentLiabilities, 'Patrimonio Neto': figures.equity }
+  ];
+
+  const trendData = trend.map(point => {
+    const value = point.ratios.find(r => r.definition.key === trendKey)?.current ?? null;
+    return {
+      name: point.label,
+      value: value === null ? null : trendDefinition.format === 'PERCENT' ? value * 100 : value
+    };
+  });
+
+  const renderPie = (title: string, slices: { name: string; value: number }[]) => (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm">
+      <h4 className="font-semibold text-slate-700 mb-2">{title}</h4>
+      {slices.length === 0 ? (
+        <p className="text-sm text-slate-400 py-16 text-center">Sin saldos.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={260}>
+          <PieChart>
+            <Pie data={slices} dataKey="value" nameKey="name" innerRadius={50} outerRadius={90} paddingAngle={1}>
+              {slices.map((_, i) => <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />)}
+            </Pie>
+            <Tooltip formatter={(value: number) => `$ ${formatAmount(value)}`} />
+            <Legend layout="vertical" align="right" verticalAlign="middle" wrapperStyle={{ fontSize: 12 }} />
+          </PieChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto bg-slate-50 p-8 space-y-8">
+      {/* Ratio cards, one per group */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {(Object.keys(RATIO_GROUP_LABELS) as RatioGroup[]).map(group => (
+          <div key={group} className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+            <div className="px-4 py-3 bg-slate-50 border-b border-slate-200 font-bold text-slate-800">{RATIO_GROUP_LABELS[group]}</div>
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase text-slate-400">
+                <tr>
+                  <th className="text-left font-semibold px-4 pt-2">Indicador</th>
+                  <th className="text-right font-semibold px-2 pt-2">{currentLabel}</th>
+                  {priorLabel && <th className="text-right font-semibold px-2 pt-2">{priorLabel}</th>}
+                  {priorLabel && <th className="w-6"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {ratios.filter(r => r.definition.group === group).map(r => (
+                  <tr key={r.definition.key} className="border-t border-slate-100" title={r.definition.formula}>
+                    <td className="px-4 py-2 text-slate-700">{r.definition.label}</td>
+                    <td className="px-2 py-2 text-right font-mono font-semibold">{formatRatio(r.current, r.definition.format)}</td>
+                    {priorLabel && <td className="px-2 py-2 text-right font-mono text-slate-400">{formatRatio(r.prior, r.definition.format)}</td>}
+                    {priorLabel && <td className="pr-3"><Variation current={r.current} prior={r.prior} /></td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {/* Composition */}
+      <div>
+        <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 mb-4">
+          <ChartPie size={20} className="text-corporate-600" /> Composición Patrimonial
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {renderPie('Activo', assetSlices)}
+          {renderPie('Pasivo y Patrimonio Neto', fundingSlices)}
+          <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm">
+            <h4 className="font-semibold text-slate-700 mb-2">Estructura</h4>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={structure}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toLocaleString('es-AR', { notation: 'compact' })} />
+                <Tooltip formatter={(value: number) => `$ ${formatAmount(value)}`} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="Corriente" stackId="a" fill={CHART_COLORS[1]} />
+                <Bar dataKey="No Corriente" stackId="a" fill={CHART_COLORS[0]} />
+                <Bar dataKey="Patrimonio Neto" stackId="a" fill={CHART_COLORS[2]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {/* Trend across periods */}
+      <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800">
+            <ChartLine size={20} className="text-corporate-600" /> Evolución entre Ejercicios
+          </h3>
+          <select
+            value={trendKey}
+            onChange={(e) => setTrendKey(e.target.value)}
+            className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-corporate-500 bg-white"
+          >
+            {RATIO_DEFINITIONS.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+          </select>
+        </div>
+        {trend.length < 2 ? (
+          <p className="text-sm text-slate-400 py-12 text-center">Se necesitan al menos dos ejercicios con cuentas cargadas.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={trendData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 11 }} unit={trendDefinition.format === 'PERCENT' ? ' %' : ''} />
+              <Tooltip formatter={(value: number) => formatRatio(trendDefinition.format === 'PERCENT' ? value / 100 : value, trendDefinition.format)} />
+              <Line type="monotone" dataKey="value" name={trendDefinition.label} stroke={CHART_COLORS[0]} strokeWidth={2} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisDashboard;
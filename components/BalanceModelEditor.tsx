@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { AccountType, BalanceModel, ModelRubro, SignConvention } from '../types';
+import {
+  CHAPTER_LABELS, SIGN_LABELS, NATURAL_SIGN, createRubro, createSubrubro,
+  updateRubro, removeRubro, moveRubro, moveSubrubro
+} from '../services/balanceModel';
+import { Plus, Trash2, GripVertical, ChevronRight, ChevronDown } from 'lucide-react';
+
+// What is being dragged: a rubro (between chapters too) or a subrubro (between rubros too)
+type DragItem = { kind: 'RUBRO'; id: string } | { kind: 'SUBRUBRO'; id: string };
+
+interface Props {
+  model: BalanceModel;
+  onChange: (model: BalanceModel) => void;
+}
+
+const BalanceModelEditor: React.FC<Props> = ({ model, onChange }) => {
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (id: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const handleAddRubro = (type: AccountType) => {
+    onChange({
+      chapters: model.chapters.map(c => c.type === type ? { ...c, rubros: [...c.rubros, createRubro('', type)] } : c)
+    });
+  };
+
+  const handleAddSubrubro = (rubro: ModelRubro) => {
+    onChange(updateRubro(model, rubro.id, { subrubros: [...rubro.subrubros, createSubrubro('')] }));
+    setExpanded(prev => new Set(prev).add(rubro.id));
+  };
+
+  const handleSubrubroName = (rubro: ModelRubro, subrubroId: string, name: string) => {
+    onChange(updateRubro(model, rubro.id, { subrubros: rubro.subrubros.map(s => s.id === subrubroId ? { ...s, name } : s) }));
+  };
+
+  const handleRemoveSubrubro = (rubro: ModelRubro, subrubroId: string) => {
+    onChange(updateRubro(model, rubro.id, { subrubros: rubro.subrubros.filter(s => s.id !== subrubroId) }));
+  };
+
+  // Drop targets: a rubro row (insert before it), a chapter's end, a subrubro row, a rubro's subrubro list end
+  const dropOnRubro = (type: AccountType, beforeId?: string) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragging?.kind === 'RUBRO') onChange(moveRubro(model, dragging.id, type, beforeId));
+    setDragging(null);
+  };
+
+  const dropOnSubrubro = (rubroId: string, beforeId?: string) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragging?.kind === 'SUBRUBRO') onChange(moveSubrubro(model, dragging.id, rubroId, beforeId));
+    setDragging(null);
+  };
+
+  const allowDrop = (kind: DragItem['kind']) => (e: React.DragEvent) => {
+    if (dragging?.kind === kind) e.preventDefault();
+  };
+
+  const startDrag = (item: DragItem) => (e: React.DragEvent) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    setDragging(item);
+  };
+
+  const inputClass = "flex-1 px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-corporate-200 text-sm";
+
+  return (
+    <div className="space-y-4">
+      {model.chapters.map(chapter => (
+        <div
+          key={chapter.type}
+          onDragOver={allowDrop('RUBRO')}
+          onDrop={dropOnRubro(chapter.type)}
+          className={`border rounded-lg ${dragging?.kind === 'RUBRO' ? 'border-dashed border-corporate-300' : 'border-slate-200'}`}
+        >
+          <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+            <span className="font-bold text-slate-700 uppercase text-sm">{CHAPTER_LABELS[chapter.type]}</span>
+            <span className="text-xs text-slate-400">Saldo natural: {SIGN_LABELS[NATURAL_SIGN[chapter.type]].toLowerCase()}</span>
+          </div>
+
+          <ul className="divide-y divide-slate-100">
+            {chapter.rubros.map((rubro, index) => (
+              <li
+                key={rubro.id}
+                draggable
+                onDragStart={startDrag({ kind: 'RUBRO', id: rubro.id })}
+                onDragEnd={() => setDragging(null)}
+                onDragOver={allowDrop('RUBRO')}
+                onDrop={dropOnRubro(chapter.type, rubro.id)}
+                className={`group ${dragging?.kind === 'RUBRO' && dragging.id === rubro.id ? 'opacity-40' : ''}`}
+              >
+                <div className="flex items-center gap-2 px-2 py-1.5">
+                  <GripVertical size={14} className="text-slate-300 cursor-grab shrink-0" />
+                  <span className="text-xs text-slate-400 w-5 text-right shrink-0">{index + 1}</span>
+                  <button
+                    onClick={() => toggleExpanded(rubro.id)}
+                    className="p-0.5 text-slate-400 hover:text-slate-700 shrink-0"
+                    title="Subrubros"
+                  >
+                    {expanded.has(rubro.id) ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  </button>
+                  <input
+                    value={rubro.name}
+                    onChange={(e) => onChange(updateRubro(model, rubro.id, { name: e.target.value }))}
+                    placeholder="Nombre del rubro"
+                    className={inputClass}
+                  />
+                  {rubro.subrubros.length > 0 && (
+                    <span className="text-xs text-slate-400 shrink-0">{rubro.subrubros.length} subrubros</span>
+                  )}
+                  <select
+                    value={rubro.sign}
+                    onChange={(e) => onChange(updateRubro(model, rubro.id, { sign: e.target.value as SignConvention }))}
+                    className={`text-xs px-2 py-1.5 rounded border outline-none bg-white shrink-0 ${rubro.sign !== NATURAL_SIGN[chapter.type] ? 'border-amber-300 text-amber-700' : 'border-slate-200'}`}
+                    title="Saldo normal del rubro. El opuesto al del capítulo lo presenta como regularizadora (se resta)."
+                  >
+                    {(Object.keys(SIGN_LABELS) as SignConvention[]).map(s => (
+                      <option key={s} value={s}>
+                        {SIGN_LABELS[s]}{s !== NATURAL_SIGN[chapter.type] ? ' (regularizadora)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => onChange(removeRubro(model, rubro.id))}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded opacity-0 group-hover:opacity-100 shrink-0"
+                    title="Eliminar rubro"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {expanded.has(rubro.id) && (
+                  <ul
+                    className="pl-16 pr-2 pb-2 space-y-1"
+                    onDragOver={allowDrop('SUBRUBRO')}
+                    onDrop={dropOnSubrubro(rubro.id)}
+                  >
+                    {rubro.subrubros.map(sub => (
+                      <li
+                        key={sub.id}
+                        draggable
+                        onDragStart={startDrag({ kind: 'SUBRUBRO', id: sub.id })}
+                        onDragEnd={() => setDragging(null)}
+                        onDragOver={allowDrop('SUBRUBRO')}
+                        onDrop={dropOnSubrubro(rubro.id, sub.id)}
+                        className={`flex items-center gap-2 group/sub ${dragging?.kind === 'SUBRUBRO' && dragging.id === sub.id ? 'opacity-40' : ''}`}
+                      >
+                        <GripVertical size={12} className="text-slate-300 cursor-grab shrink-0" />
+                        <input
+                          value={sub.name}
+                          onChange={(e) => handleSubrubroName(rubro, sub.id, e.target.value)}
+                          placeholder="Nombre del subrubro"
+                          className={`${inputClass} text-xs`}
+                        />
+                        <button
+                          onClick={() => handleRemoveSubrubro(rubro, sub.id)}
+                          className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded opacity-0 group-hover/sub:opacity-100"
+                          title="Eliminar subrubro"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </li>
+                    ))}
+                    <li>
+                      <button
+                        onClick={() => handleAddSubrubro(rubro)}
+                        className="flex items-center gap-1 text-xs font-medium text-corporate-700 hover:bg-corporate-50 px-2 py-1 rounded"
+                      >
+                        <Plus size={12} /> Agregar Subrubro
+                      </button>
+                    </li>
+                  </ul>
+                )}
+              </li>
+            ))}
+            {chapter.rubros.length === 0 && (
+              <li className="px-3 py-3 text-xs text-slate-400">Sin rubros. Arrastre uno aquí o agréguelo.</li>
+            )}
+          </ul>
+
+          <div className="px-2 py-1.5 border-t border-slate-100">
+            <button
+              onClick={() => handleAddRubro(chapter.type)}
+              className="flex items-center gap-1 text-xs font-medium text-corporate-700 hover:bg-corporate-50 px-2 py-1 rounded"
+            >
+              <Plus size={14} /> Agregar Rubro
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BalanceModelEditor;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { CashFlowActivity } from '../types';
+import { CASH_FLOW_ACTIVITIES, CASH_FLOW_ACTIVITY_LABELS, CashFlowRubro, defaultCashFlowActivity } from '../services/cashFlow';
+import { Waves } from 'lucide-react';
+
+interface Props {
+  rubros: CashFlowRubro[];
+  mapping: Record<string, CashFlowActivity>;
+  onSave: (mapping: Record<string, CashFlowActivity>) => void;
+  onClose: () => void;
+}
+
+/**
+ * Activity of each balance sheet rubro in the Estado de Flujo de Efectivo. The mapping belongs to
+ * the client, so every period is presented alike; rubros left on "Auto" follow their name.
+ */
+const CashFlowMappingDialog: React.FC<Props> = ({ rubros, mapping, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Record<string, CashFlowActivity>>(mapping);
+
+  const handleChange = (key: string, activity: string) => setDraft(prev => {
+    const next = { ...prev };
+    if (activity) next[key] = activity as CashFlowActivity;
+    else delete next[key];
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Waves className="text-corporate-600" /> Actividades del Flujo de Efectivo
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Los rubros de Efectivo forman el saldo inicial y final; la variación de los demás se informa en la actividad asignada.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+              <tr>
+                <th className="p-2 w-40">Capítulo</th>
+                <th className="p-2">Rubro</th>
+                <th className="p-2 w-64">Actividad</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rubros.map(rubro => (
+                <tr key={rubro.key}>
+                  <td className="p-2 text-xs text-slate-400">{rubro.type}</td>
+                  <td className="p-2 text-slate-700">{rubro.name}</td>
+                  <td className="p-1">
+                    <select
+                      value={draft[rubro.key] || ''}
+                      onChange={(e) => handleChange(rubro.key, e.target.value)}
+                      className={`w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white ${draft[rubro.key] ? 'text-slate-700' : 'text-slate-400'}`}
+                    >
+                      <option value="">Auto: {CASH_FLOW_ACTIVITY_LABELS[defaultCashFlowActivity(rubro.type, rubro.name)]}</option>
+                      {CASH_FLOW_ACTIVITIES.map(activity => (
+                        <option key={activity} value={activity}>{CASH_FLOW_ACTIVITY_LABELS[activity]}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+              {rubros.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="p-8 text-center text-slate-400">Sin rubros de Activo, Pasivo o Patrimonio Neto.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700"
+          >
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowMappingDialog;
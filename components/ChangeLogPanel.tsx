@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { ChangeAction, ChangeLogEntry, FiscalPeriod, TrackedField } from '../types';
+import {
+  CHANGE_ACTION_LABELS, TRACKED_FIELD_LABELS, EMPTY_CHANGE_FILTERS, ChangeLogFilters,
+  filterChangeLog, listChangeUsers, formatChangeValue
+} from '../services/changeLog';
+import { ClipboardList, Search, X } from 'lucide-react';
+
+const ACTION_STYLES: Record<ChangeAction, string> = {
+  ADD: 'bg-green-50 text-green-700 border-green-200',
+  EDIT: 'bg-amber-50 text-amber-700 border-amber-200',
+  DELETE: 'bg-red-50 text-red-700 border-red-200'
+};
+
+interface Props {
+  entries: ChangeLogEntry[];
+  periods: FiscalPeriod[];
+  activePeriodId: string | null;
+}
+
+const ChangeLogPanel: React.FC<Props> = ({ entries, periods, activePeriodId }) => {
+  const [filters, setFilters] = useState<ChangeLogFilters>({ ...EMPTY_CHANGE_FILTERS, periodId: activePeriodId || '' });
+
+  const visible = useMemo(() => filterChangeLog(entries, filters), [entries, filters]);
+  const users = useMemo(() => listChangeUsers(entries), [entries]);
+  const periodLabel = (periodId: string) => periods.find(p => p.id === periodId)?.label || '-';
+  const setFilter = <K extends keyof ChangeLogFilters>(key: K, value: ChangeLogFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  const inputClass = "border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-corporate-500 outline-none";
+
+  return (
+    <div className="flex-1 p-8 bg-slate-50 overflow-y-auto">
+      <div className="max-w-6xl mx-auto bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ClipboardList size={20} className="text-corporate-600" /> Registro de Cambios
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Altas, bajas y modificaciones manuales de cuentas, con responsable y justificación.
+            Se registran al guardar y no se pueden modificar.
+          </p>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-2.5 text-slate-400" />
+            <input
+              value={filters.query}
+              onChange={e => setFilter('query', e.target.value)}
+              placeholder="Código o cuenta"
+              className={`${inputClass} pl-8 w-48`}
+            />
+          </div>
+          <select value={filters.periodId} onChange={e => setFilter('periodId', e.target.value)} className={inputClass}>
+            <option value="">Todos los ejercicios</option>
+            {periods.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <select value={filters.action} onChange={e => setFilter('action', e.target.value as ChangeAction | '')} className={inputClass}>
+            <option value="">Toda acción</option>
+            {(Object.keys(CHANGE_ACTION_LABELS) as ChangeAction[]).map(a => <option key={a} value={a}>{CHANGE_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select value={filters.field} onChange={e => setFilter('field', e.target.value as TrackedField | '')} className={inputClass}>
+            <option value="">Todo campo</option>
+            {(Object.keys(TRACKED_FIELD_LABELS) as TrackedField[]).map(f => <option key={f} value={f}>{TRACKED_FIELD_LABELS[f]}</option>)}
+          </select>
+          <select value={filters.user} onChange={e => setFilter('user', e.target.value)} className={inputClass}>
+            <option value="">Todos los usuarios</option>
+            {users.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <input type="date" value={filters.from} onChange={e => setFilter('from', e.target.value)} className={inputClass} title="Desde" />
+          <input type="date" value={filters.to} onChange={e => setFilter('to', e.target.value)} className={inputClass} title="Hasta" />
+          <button
+            onClick={() => setFilters(EMPTY_CHANGE_FILTERS)}
+            className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:bg-slate-100 px-2 py-1.5 rounded"
+          >
+            <X size={14} /> Limpiar
+          </button>
+          <span className="text-xs text-slate-400 ml-auto">{visible.length} de {entries.length} cambios</span>
+        </div>
+
+        <table className="w-full text-xs text-left border-collapse">
+          <thead className="bg-slate-50 uppercase text-slate-500 font-semibold">
+            <tr>
+              <th className="p-2 border-b border-slate-200 w-36">Fecha</th>
+              <th className="p-2 border-b border-slate-200 w-32">Usuario</th>
+              <th className="p-2 border-b border-slate-200">Cuenta</th>
+              <th className="p-2 border-b border-slate-200 w-32">Cambio</th>
+              <th className="p-2 border-b border-slate-200">Anterior</th>
+              <th className="p-2 border-b border-slate-200">Nuevo</th>
+              <th className="p-2 border-b border-slate-200">Justificación</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.map(entry => (
+              <tr key={entry.id} className="hover:bg-slate-50 align-top">
+                <td className="p-2 text-slate-500">
+                  {new Date(entry.timestamp).toLocaleString('es-AR')}
+                  {!filters.periodId && <div className="text-slate-400">{periodLabel(entry.periodId)}</div>}
+                </td>
+                <td className="p-2 text-slate-700">{entry.user}</td>
+                <td className="p-2 text-slate-700">{entry.accountLabel || '(sin nombre)'}</td>
+                <td className="p-2">
+                  <span className={`px-1.5 py-0.5 rounded border ${ACTION_STYLES[entry.action]}`}>{CHANGE_ACTION_LABELS[entry.action]}</span>
+                  {entry.field && <span className="ml-1 text-slate-500">{TRACKED_FIELD_LABELS[entry.field]}</span>}
+                </td>
+                <td className="p-2 text-slate-500">{formatChangeValue(entry.oldValue, entry.field)}</td>
+                <td className="p-2 text-slate-800 font-medium">{formatChangeValue(entry.newValue, entry.field)}</td>
+                <td className="p-2 text-slate-500 italic">{entry.note}</td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={7} className="p-8 text-center text-slate-400">
+                  {entries.length === 0
+                    ? 'Sin cambios manuales registrados. Las ediciones se registran al presionar "Guardar Cambios".'
+                    : 'Ningún cambio coincide con los filtros.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeLogPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { CHANGE_ACTION_LABELS, PendingChange, TRACKED_FIELD_LABELS, formatChangeValue } from '../services/changeLog';
+import { ClipboardList } from 'lucide-react';
+
+interface Props {
+  changes: PendingChange[];
+  defaultUser: string;
+  onConfirm: (user: string, note: string) => void;
+  onCancel: () => void;
+}
+
+// Shown on "Guardar Cambios" when lines were edited by hand: the changes go to the client's change log
+const ChangeReviewDialog: React.FC<Props> = ({ changes, defaultUser, onConfirm, onCancel }) => {
+  const [user, setUser] = useState(defaultUser);
+  const [note, setNote] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(user.trim(), note.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <ClipboardList className="text-corporate-600" /> Registrar Cambios Manuales
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Estos {changes.length} cambios quedarán en el registro de auditoría del cliente y no podrán borrarse.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto mx-6 my-4 border border-slate-200 rounded-lg">
+          <table className="w-full text-xs text-left border-collapse">
+            <thead className="bg-slate-50 uppercase text-slate-500 font-semibold sticky top-0">
+              <tr>
+                <th className="p-2 border-b border-slate-200">Cuenta</th>
+                <th className="p-2 border-b border-slate-200 w-28">Acción</th>
+                <th className="p-2 border-b border-slate-200">Anterior</th>
+                <th className="p-2 border-b border-slate-200">Nuevo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {changes.map((change, i) => (
+                <tr key={i} className="align-top">
+                  <td className="p-2 text-slate-700">{change.accountLabel || '(sin nombre)'}</td>
+                  <td className="p-2 text-slate-500">
+                    {CHANGE_ACTION_LABELS[change.action]}{change.field ? ` · ${TRACKED_FIELD_LABELS[change.field]}` : ''}
+                  </td>
+                  <td className="p-2 text-slate-500">{formatChangeValue(change.oldValue, change.field)}</td>
+                  <td className="p-2 text-slate-800 font-medium">{formatChangeValue(change.newValue, change.field)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Responsable</label>
+            <input
+              required
+              value={user}
+              onChange={e => setUser(e.target.value)}
+              placeholder="Nombre del auditor"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Justificación (opcional)</label>
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={2}
+              placeholder="Ej: Reclasificación según papel de trabajo B-3"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="p-6 flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cancelar
+          </button>
+          <button type="submit" className="px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700">
+            Guardar y Registrar
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangeReviewDialog;
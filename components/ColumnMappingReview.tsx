@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { AmountFormat, ColumnMapping } from '../types';
+import { validateColumnMapping } from '../services/schemas';
+import { SAMPLE_ROW_COUNT, getColumnCount, parseRowsWithMapping } from '../services/spreadsheetImport';
+import { AMOUNT_FIELDS, AMOUNT_FORMAT_LABELS, AmountField } from '../services/amountParser';
+import { FileSpreadsheet, AlertCircle, AlertTriangle, CheckCircle, History, Sparkles, Edit3 } from 'lucide-react';
+
+export type MappingSource = 'SAVED' | 'AI' | 'MANUAL';
+
+type ColumnField = keyof Omit<ColumnMapping, 'startRow' | 'amountFormats'>;
+
+const COLUMN_ROLES: { field: ColumnField; label: string }[] = [
+  { field: 'codeIndex', label: 'Código' },
+  { field: 'nameIndex', label: 'Cuenta' },
+  { field: 'debitIndex', label: 'Debe' },
+  { field: 'creditIndex', label: 'Haber' },
+  { field: 'balanceIndex', label: 'Saldo' }
+];
+
+const SOURCE_LABELS: Record<MappingSource, { text: string; icon: React.ReactNode; className: string }> = {
+  SAVED: { text: 'Formato guardado del cliente', icon: <History size={14} />, className: 'bg-sky-50 text-sky-700 border-sky-200' },
+  AI: { text: 'Columnas detectadas por IA', icon: <Sparkles size={14} />, className: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  MANUAL: { text: 'Asignación manual', icon: <Edit3 size={14} />, className: 'bg-slate-50 text-slate-600 border-slate-200' }
+};
+
+interface Props {
+  fileName: string;
+  sheetNames: string[];
+  sheetName: string;
+  rows: any[][];
+  mapping: ColumnMapping;
+  source: MappingSource;
+  detectionError?: string;
+  onSheetChange: (sheetName: string) => void;
+  onChange: (mapping: ColumnMapping) => void;
+  onConfirm: (remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingReview: React.FC<Props> = ({
+  fileName, sheetNames, sheetName, rows, mapping, source, detectionError,
+  onSheetChange, onChange, onConfirm, onCancel
+}) => {
+  const [remember, setRemember] = useState(true);
+
+  const columnCount = getColumnCount(rows);
+  const previewRows = rows.slice(0, Math.max(SAMPLE_ROW_COUNT, mapping.startRow + 5));
+  const issues = useMemo(() => validateColumnMapping(mapping, columnCount).issues, [mapping, columnCount]);
+  const parsed = useMemo(
+    () => issues.length === 0 ? parseRowsWithMapping(rows, mapping) : null,
+    [rows, mapping, issues]
+  );
+  const lineCount = parsed?.lines.length || 0;
+
+  const roleOf = (col: number): ColumnField | '' =>
+    COLUMN_ROLES.find(r => mapping[r.field] === col)?.field || '';
+
+  // A role belongs to one column only: assigning it elsewhere frees the previous column
+  const handleRoleChange = (col: number, field: ColumnField | '') => {
+    const next = { ...mapping };
+    COLUMN_ROLES.forEach(r => {
+      if (next[r.field] === col) next[r.field] = -1;
+    });
+    if (field) next[field] = col;
+    onChange(next);
+  };
+
+  // Empty value = back to automatic detection
+  const handleFormatChange = (field: AmountField, format: AmountFormat | '') => {
+    const amountFormats = { ...mapping.amountFormats };
+    if (format) amountFormats[field] = format;
+    else delete amountFormats[field];
+    onChange({ ...mapping, amountFormats });
+  };
+
+  // Number format picker under the role selector of Debe/Haber/Saldo columns
+  const renderFormatSelect = (col: number) => {
+    const field = roleOf(col);
+    if (!AMOUNT_FIELDS.includes(field as AmountField)) return null;
+    const amountField = field as AmountField;
+    const chosen = mapping.amountFormats?.[amountField];
+    return (
+      <select
+        value={chosen || ''}
+        onChange={e => handleFormatChange(amountField, e.target.value as AmountFormat | '')}
+        className="w-full mt-1 px-2 py-1 rounded border border-slate-200 outline-none bg-white text-[11px] font-normal text-slate-500"
+        title="Formato de los importes de esta columna"
+      >
+        <option value="">Auto{parsed && !chosen ? ` (${AMOUNT_FORMAT_LABELS[parsed.formats[amountField]]})` : ''}</option>
+        {(Object.keys(AMOUNT_FORMAT_LABELS) as AmountFormat[]).map(f => (
+          <option key={f} value={f}>{AMOUNT_FORMAT_LABELS[f]}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <FileSpreadsheet className="text-corporate-600" /> Revisar Columnas
+            </h2>
+            <p className="text-sm text-slate-500 mt-1">
+              {fileName}: indique qué columna contiene cada dato y en qué fila empiezan las cuentas.
+            </p>
+          </div>
+          <span className={`flex items-center gap-1.5 text-xs font-medium px-3 py-1 rounded-full border shrink-0 ${SOURCE_LABELS[source].className}`}>
+            {SOURCE_LABELS[source].icon} {SOURCE_LABELS[source].text}
+          </span>
+        </div>
+
+        <div className="px-6 py-4 flex flex-wrap items-end gap-6 border-b border-slate-100">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Hoja</label>
+            <select
+              value={sheetName}
+              onChange={e => onSheetChange(e.target.value)}
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            >
+              {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Primera fila de cuentas</label>
+            <input
+              type="number"
+              min={1}
+              max={rows.length}
+              value={mapping.startRow + 1}
+              onChange={e => onChange({ ...mapping, startRow: Math.max(0, (parseInt(e.target.value, 10) || 1) - 1) })}
+              className="w-28 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            />
+          </div>
+          <p className="text-xs text-slate-400 pb-2">También puede hacer clic en el número de una fila para marcarla como inicio.</p>
+        </div>
+
+        {detectionError && (
+          <div className="mx-6 mt-4 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg p-3 whitespace-pre-line">
+            {detectionError}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto mx-6 my-4 border border-slate-200 rounded-lg">
+          <table className="text-xs text-left border-collapse">
+            <thead className="bg-slate-50 sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className="p-2 border-b border-r border-slate-200 w-12"></th>
+                {Array.from({ length: columnCount }, (_, col) => (
+                  <th key={col} className="p-1 border-b border-r border-slate-200 min-w-[120px]">
+                    <select
+                      value={roleOf(col)}
+                      onChange={e => handleRoleChange(col, e.target.value as ColumnField | '')}
+                      className={`w-full px-2 py-1.5 rounded border outline-none font-semibold ${roleOf(col) ? 'bg-corporate-50 border-corporate-300 text-corporate-800' : 'bg-white border-slate-200 text-slate-400'}`}
+                    >
+                      <option value="">— Ignorar —</option>
+                      {COLUMN_ROLES.map(r => <option key={r.field} value={r.field}>{r.label}</option>)}
+                    </select>
+                    {renderFormatSelect(col)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {previewRows.map((row, rowIndex) => {
+                const skipped = rowIndex < mapping.startRow;
+                return (
+                  <tr key={rowIndex} className={skipped ? 'bg-slate-50 text-slate-400' : 'text-slate-700'}>
+                    <td className="p-0 border-r border-slate-200 text-center">
+                      <button
+                        onClick={() => onChange({ ...mapping, startRow: rowIndex })}
+                        className={`w-full px-2 py-1.5 font-mono ${rowIndex === mapping.startRow ? 'bg-corporate-600 text-white font-bold' : 'hover:bg-corporate-50'}`}
+                        title="Empezar la importación en esta fila"
+                      >
+                        {rowIndex + 1}
+                      </button>
+                    </td>
+                    {Array.from({ length: columnCount }, (_, col) => (
+                      <td
+                        key={col}
+                        className={`px-2 py-1.5 border-r border-slate-100 whitespace-nowrap max-w-[240px] truncate ${!skipped && roleOf(col) ? 'bg-corporate-50/40' : ''}`}
+                      >
+                        {row?.[col] === undefined || row?.[col] === null ? '' : String(row[col])}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length > previewRows.length && (
+            <p className="text-xs text-slate-400 p-2">… y {rows.length - previewRows.length} filas más.</p>
+          )}
+        </div>
+
+        <div className="px-6 pb-6 flex items-center justify-between gap-4">
+          <div className="text-xs">
+            {issues.length > 0 ? (
+              <ul className="text-red-600 space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li key={i} className="flex items-center gap-1.5"><AlertCircle size={12} /> {issue.message}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-green-700 flex items-center gap-1.5">
+                <CheckCircle size={14} /> Se importarán {lineCount} cuentas desde la fila {mapping.startRow + 1}.
+              </p>
+            )}
+            {parsed && parsed.warnings.length > 0 && (
+              <div className="mt-2 text-amber-700">
+                <p className="font-semibold flex items-center gap-1.5">
+                  <AlertTriangle size={12} /> {parsed.warnings.length} importes dudosos, revíselos antes de importar:
+                </p>
+                <ul className="max-h-24 overflow-y-auto pl-5 list-disc">
+                  {parsed.warnings.slice(0, 50).map((w, i) => (
+                    <li key={i}>Fila {w.row} ({w.account}): {w.message}</li>
+                  ))}
+                  {parsed.warnings.length > 50 && <li>… y {parsed.warnings.length - 50} más.</li>}
+                </ul>
+              </div>
+            )}
+            <label className="flex items-center gap-2 mt-2 text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+              Recordar este formato para el cliente (los próximos archivos iguales se importan sin IA)
+            </label>
+          </div>
+          <div className="flex gap-3 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(remember)}
+              disabled={issues.length > 0 || lineCount === 0}
+              className="px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Importar y Clasificar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingReview;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { FiscalPeriod, SourceDocument } from '../types';
+import { formatFileSize, sortDocuments } from '../services/documents';
+import { Download, RefreshCw, FileText, FileSpreadsheet } from 'lucide-react';
+
+interface Props {
+  documents: SourceDocument[];
+  periods: FiscalPeriod[];
+  onDownload: (doc: SourceDocument) => void;
+  onReprocess: (doc: SourceDocument) => void;
+}
+
+const DocumentsPanel: React.FC<Props> = ({ documents, periods, onDownload, onReprocess }) => {
+  const periodLabel = (periodId?: string) => periods.find(p => p.id === periodId)?.label || '-';
+
+  return (
+    <div className="flex-1 p-8 bg-slate-50 overflow-y-auto">
+      <div className="max-w-6xl mx-auto bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800">Documentos Fuente</h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Originales de cada importación. Puede descargarlos o volver a procesarlos con las reglas,
+            la memoria y la normativa vigentes.
+          </p>
+        </div>
+
+        <table className="w-full text-sm text-left border-collapse">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold">
+            <tr>
+              <th className="p-3 border-b border-slate-200">Archivo</th>
+              <th className="p-3 border-b border-slate-200 w-40">Fecha</th>
+              <th className="p-3 border-b border-slate-200 w-40">Ejercicio</th>
+              <th className="p-3 border-b border-slate-200 w-24 text-right">Tamaño</th>
+              <th className="p-3 border-b border-slate-200 w-32">Huella</th>
+              <th className="p-3 border-b border-slate-200 w-48"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sortDocuments(documents).map(doc => (
+              <tr key={doc.id} className="hover:bg-slate-50">
+                <td className="p-3 font-medium text-slate-700">
+                  <span className="flex items-center gap-2">
+                    {/sheet|excel|csv/.test(doc.type) ? <FileSpreadsheet size={16} className="text-green-600" /> : <FileText size={16} className="text-red-500" />}
+                    {doc.name}
+                  </span>
+                </td>
+                <td className="p-3 text-slate-500">{new Date(doc.date).toLocaleString('es-AR')}</td>
+                <td className="p-3 text-slate-500">{periodLabel(doc.periodId)}</td>
+                <td className="p-3 text-slate-500 text-right">{formatFileSize(doc.size)}</td>
+                <td className="p-3 font-mono text-xs text-slate-400" title={doc.hash}>
+                  {doc.hash ? doc.hash.substring(0, 12) : 'sin original'}
+                </td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => onDownload(doc)}
+                      disabled={!doc.hash}
+                      className="flex items-center gap-1 text-xs font-medium text-corporate-700 hover:bg-corporate-50 px-2 py-1 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                      <Download size={14} /> Descargar
+                    </button>
+                    <button
+                      onClick={() => onReprocess(doc)}
+                      disabled={!doc.hash}
+                      className="flex items-center gap-1 text-xs font-medium text-indigo-700 hover:bg-indigo-50 px-2 py-1 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                      <RefreshCw size={14} /> Reprocesar
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {documents.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-8 text-center text-slate-400">
+                  Todavía no se importaron documentos para este cliente.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentsPanel;
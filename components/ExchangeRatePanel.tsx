@@ -0,0 +1,160 @@
+import React, { useState, useRef } from 'react';
+import { ExchangeRateTable } from '../types';
+import { CURRENCY_LABELS, currencyLabel, listCurrencies, mergeExchangeRates, parseExchangeRateRows } from '../services/currency';
+import { formatClosingDate } from '../services/periods';
+import { getSheetRows, readWorkbook } from '../services/spreadsheetImport';
+import { Upload, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  table: ExchangeRateTable | null;
+  onChange: (table: ExchangeRateTable | null) => void;
+}
+
+const formatRate = (rate: number) => rate.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+const ExchangeRatePanel: React.FC<Props> = ({ table, onChange }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [importCurrency, setImportCurrency] = useState('USD');
+  const [currency, setCurrency] = useState('USD');
+  const [date, setDate] = useState('');
+  const [rate, setRate] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currencies = listCurrencies(table);
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files?.length) return;
+    const file = e.target.files[0];
+    setIsImporting(true);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const workbook = readWorkbook((reader.result as string).split(',')[1]);
+        const parsed = workbook.SheetNames
+          .map(name => parseExchangeRateRows(getSheetRows(workbook, name), importCurrency))
+          .find(rows => rows.length > 0) || [];
+        if (parsed.length === 0) {
+          alert("No se encontraron cotizaciones en el archivo. Se espera una fila por día con la fecha y el tipo de cambio.");
+          return;
+        }
+        onChange(mergeExchangeRates(table, parsed, file.name));
+        alert(`Se importaron ${parsed.length} cotizaciones de ${importCurrency} (${formatClosingDate(parsed[0].date)} a ${formatClosingDate(parsed[parsed.length - 1].date)}).`);
+      } catch (error: any) {
+        console.error(error);
+        alert(error.message || "Error al leer el archivo de cotizaciones.");
+      } finally {
+        setIsImporting(false);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleAdd = () => {
+    const parsed = Number(rate.replace(',', '.'));
+    if (!date || !(parsed > 0)) {
+      alert("Ingrese la fecha y un tipo de cambio mayor a cero.");
+      return;
+    }
+    onChange(mergeExchangeRates(table, [{ currency, date, rate: parsed }]));
+    setDate('');
+    setRate('');
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('¿Eliminar todas las cotizaciones? Las cuentas en moneda extranjera dejarán de convertirse.')) return;
+    onChange(null);
+  };
+
+  const inputClass = "border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-sky-500 outline-none";
+  const currencyOptions = Object.keys(CURRENCY_LABELS).map(code => (
+    <option key={code} value={code}>{code} - {CURRENCY_LABELS[code]}</option>
+  ));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={importCurrency} onChange={(e) => setImportCurrency(e.target.value)} className={inputClass}>
+          {currencyOptions}
+        </select>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx,.xls,.csv" onChange={handleImport} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center gap-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg disabled:opacity-50"
+          title="Archivo de la Comunicación A 3500 del BCRA u otra planilla con fecha y cotización"
+        >
+          {isImporting ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+          Importar Cotizaciones (A 3500)
+        </button>
+        {currencies.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="ml-auto flex items-center gap-1 text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 px-3 py-1.5 rounded-lg"
+          >
+            <Trash2 size={14} /> Eliminar cotizaciones
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-end gap-3 bg-slate-50 border border-slate-200 rounded-lg p-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Moneda</label>
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+            {currencyOptions}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Fecha</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Pesos por unidad</label>
+          <input value={rate} onChange={(e) => setRate(e.target.value)} placeholder="1032,50" className={`${inputClass} font-mono w-36`} />
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 text-sm font-medium text-sky-700 border border-sky-200 hover:bg-sky-100 px-3 py-2 rounded-lg"
+        >
+          <Plus size={16} /> Agregar
+        </button>
+      </div>
+
+      {currencies.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">
+          Sin cotizaciones cargadas. Las cuentas en moneda extranjera se informan al saldo registrado.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-xs uppercase text-slate-400">
+            <tr>
+              <th className="text-left font-semibold py-1">Moneda</th>
+              <th className="text-right font-semibold py-1">Cotizaciones</th>
+              <th className="text-right font-semibold py-1">Desde</th>
+              <th className="text-right font-semibold py-1">Última</th>
+              <th className="text-right font-semibold py-1">Tipo de cambio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {currencies.map(code => {
+              const rates = table!.rates.filter(r => r.currency === code);
+              const last = rates[rates.length - 1];
+              return (
+                <tr key={code} className="border-t border-slate-100">
+                  <td className="py-1 text-slate-700">{code} <span className="text-slate-400">{currencyLabel(code)}</span></td>
+                  <td className="py-1 text-right text-slate-500">{rates.length}</td>
+                  <td className="py-1 text-right text-slate-500">{formatClosingDate(rates[0].date)}</td>
+                  <td className="py-1 text-right text-slate-500">{formatClosingDate(last.date)}</td>
+                  <td className="py-1 text-right font-mono text-slate-700">{formatRate(last.rate)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatePanel;
@@ -1,181 +1,477 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { ClientData, AccountLine, AccountType, WorkbenchTab, Inconsistency } from '../types';
-import { parseFinancialDocument, classifyAccounts, extractRegulatoryRules } from '../services/geminiService';
-import { ArrowLeft, UploadCloud, FileSpreadsheet, Loader2, AlertCircle, Save, FileText, Printer, Plus, Trash2, Edit3, Folder, FileMinus, BookOpen, CheckCircle, Upload } from 'lucide-react';
+import { ClientData, AccountLine, AccountType, ModelLibrary, WorkbenchTab, Inconsistency, PeriodStatus, MappingRule, ClassificationMemoryEntry, ClassificationReport, ColumnMapping, SourceDocument, LedgerEntry, SnapshotKind, ReviewRecord, Term, PriceIndexTable, ExchangeRateTable, AnnexInputs, CashFlowActivity, AdjustingEntry } from '../types';
+import { parseFinancialDocument, classifyAccounts, extractRegulatoryRules, detectColumnMapping } from '../services/aiService';
+import { groupFinancials, buildComparativeRubros, buildComparativeTerms, buildIncomeStatement, buildEquityChanges, equityWithResult, liabilitiesAndEquity, naturalAmount, formatAmount, lineKey, ComparativeRubro, ComparativeTermSection } from '../services/financialStatements';
+import { createPeriod, createDefaultPeriod, getLatestPeriod, getPriorPeriod, sortPeriods, updatePeriod, formatClosingDate } from '../services/periods';
+import { runInconsistencyRules } from '../services/inconsistencyRules';
+import { computeBalanceFigures, computeRatios, formatRatio, RATIO_GROUP_LABELS } from '../services/ratios';
+import { applyClassificationMemory, mergeWithMemory, rememberOverrides, forgetEntry } from '../services/classificationMemory';
+import { EMPTY_COLUMN_MAPPING, findSavedMapping, getSheetRows, isSpreadsheetFile, parseRowsWithMapping, readWorkbook, saveImportMapping } from '../services/spreadsheetImport';
+import { blobToBase64, downloadBlob } from '../services/documents';
+import { storeDocument, loadDocument, loadSnapshot, describeStorageError } from '../services/storage';
+import { recordSnapshot, getPeriodLedger, SNAPSHOT_KIND_LABELS } from '../services/importLedger';
+import { diffManualChanges, appendChanges, changeLogRows, filterChangeLog, accountLabel, CHANGE_LOG_COLUMNS, EMPTY_CHANGE_FILTERS, PendingChange } from '../services/changeLog';
+import { AccountNode, buildAccountTree, flattenTree, hasHierarchy, ancestorIds, getDetailLines } from '../services/accountTree';
+import { ResolvedModel, describeModel, hasNewerVersion, latestVersion, resolveClientModel } from '../services/modelLibrary';
+import { REVIEW_STATUS_LABELS, PENDING_REVIEW, computeReviewProgress, listRubros, formatSignOff, RubroEntry } from '../services/review';
+import { TERM_LABELS, defaultTerm, hasTerm } from '../services/terms';
+import { NATURE_LABELS, carryForward, formatMonth, restateAccounts, summarizeRestatement, toMonth } from '../services/inflation';
+import { buildAnnexG, buildExchangeDifferenceEntry, convertForeignCurrency, findExchangeDifferenceLine } from '../services/currency';
+import { EXPENSE_FUNCTIONS, EXPENSE_FUNCTION_LABELS, buildStatutoryAnnexes, hasExpensesAnnex } from '../services/annexes';
+import { CASH_FLOW_ACTIVITY_LABELS, buildCashFlow, listCashFlowRubros } from '../services/cashFlow';
+import { applyAdjustments, buildWorksheet, entryTotals, worksheetTotals } from '../services/adjustments';
+import PeriodSelector from './PeriodSelector';
+import MappingRulesEditor from './MappingRulesEditor';
+import ColumnMappingReview, { MappingSource } from './ColumnMappingReview';
+import DocumentsPanel from './DocumentsPanel';
+import ImportHistory from './ImportHistory';
+import ChangeReviewDialog from './ChangeReviewDialog';
+import ChangeLogPanel from './ChangeLogPanel';
+import ReviewDialog, { REVIEW_STATUS_STYLES } from './ReviewDialog';
+import ModelComparison from './ModelComparison';
+import AnalysisDashboard, { TrendPoint } from './AnalysisDashboard';
+import InflationAdjustment from './InflationAdjustment';
+import ForeignCurrencyPanel from './ForeignCurrencyPanel';
+import StatutoryAnnexes from './StatutoryAnnexes';
+import CashFlowMappingDialog from './CashFlowMappingDialog';
+import AdjustingEntriesPanel from './AdjustingEntriesPanel';
+import { ArrowLeft, UploadCloud, FileSpreadsheet, Loader2, AlertCircle, Save, FileText, Printer, Plus, Trash2, Edit3, Folder, FileMinus, BookOpen, CheckCircle, Upload, History, ListTree, X, ClipboardCheck, MessageSquare, ChevronRight, ChevronDown, List, GitCompare, TrendingUp, DollarSign, Table, Waves } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
+// A spreadsheet waiting for the auditor to confirm its column mapping
+interface PendingImport {
+  sourceDocument: SourceDocument;
+  workbook: XLSX.WorkBook;
+  sheetName: string;
+  rows: any[][];
+  mapping: ColumnMapping;
+  source: MappingSource;
+  detectionError?: string;
+}
+
+// The account line or rubro whose review dialog is open
+interface ReviewTarget {
+  scope: 'LINE' | 'RUBRO';
+  key: string;
+  title: string;
+  subtitle: string;
+}
+
 interface Props {
   client: ClientData;
-  globalModel?: string;
+  modelLibrary: ModelLibrary;
+  priceIndices?: PriceIndexTable | null; // FACPCE index table for the RT 6 restatement
+  exchangeRates?: ExchangeRateTable | null; // Closing rates for the foreign currency lines
+  globalMappingRules?: MappingRule[];
+  currentUser?: string; // Signs the manual changes in the change log
   onSave: (client: ClientData) => void;
   onBack: () => void;
 }
 
-const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBack }) => {
+const FinancialWorkspace: React.FC<Props> = ({ client, modelLibrary, priceIndices = null, exchangeRates = null, globalMappingRules = [], currentUser = '', onSave, onBack }) => {
   const [tab, setTab] = useState<WorkbenchTab>('UPLOAD');
   const [loading, setLoading] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState('');
-  const [accounts, setAccounts] = useState<AccountLine[]>(client.accounts);
+  const [activePeriodId, setActivePeriodId] = useState<string | null>(getLatestPeriod(client.periods)?.id || null);
+  const [accounts, setAccounts] = useState<AccountLine[]>(getLatestPeriod(client.periods)?.accounts || []);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  const [classificationReport, setClassificationReport] = useState<ClassificationReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[] | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [showRubroReview, setShowRubroReview] = useState(false);
+  const [showModelComparison, setShowModelComparison] = useState(false);
+  const [showInflationAdjustment, setShowInflationAdjustment] = useState(false);
+  const [showRestated, setShowRestated] = useState(false);
+  const [showForeignCurrency, setShowForeignCurrency] = useState(false);
+  const [showAnnexes, setShowAnnexes] = useState(false);
+  const [showCashFlowMapping, setShowCashFlowMapping] = useState(false);
+  const [treeView, setTreeView] = useState(true);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [mappingRules, setMappingRules] = useState<MappingRule[]>(client.mappingRules || []);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const normInputRef = useRef<HTMLInputElement>(null);
 
+  const activePeriod = client.periods.find(p => p.id === activePeriodId);
+  const memoryEntries = Object.values<ClassificationMemoryEntry>(client.classificationMemory || {}).sort((a, b) => a.label.localeCompare(b.label));
+  const priorPeriod = activePeriod ? getPriorPeriod(client.periods, activePeriod) : undefined;
+  // Classification and statements follow the model of the period, else the client's, else the default
+  const activeModel = resolveClientModel(modelLibrary, client, activePeriod);
+  const reportModel = activeModel?.version.model;
+
+  // --- Adjusting entries: the statements start from the adjusted trial balance ---
+  const adjustingEntries = activePeriod?.adjustingEntries || [];
+  const adjustedAccounts = useMemo(
+    () => applyAdjustments(accounts, activePeriod?.adjustingEntries),
+    [accounts, activePeriod]
+  );
+  const priorAccounts = useMemo(
+    () => priorPeriod ? applyAdjustments(priorPeriod.accounts, priorPeriod.adjustingEntries) : [],
+    [priorPeriod]
+  );
+  // Hoja de trabajo for the exports: imported balance, adjustments and adjusted balance
+  const worksheet = useMemo(
+    () => buildWorksheet(accounts, activePeriod?.adjustingEntries),
+    [accounts, activePeriod]
+  );
+
+  // --- Inflation adjustment (RT 6) ---
+  const restatement = useMemo(
+    () => activePeriod && priceIndices ? restateAccounts(adjustedAccounts, activePeriod.closingDate, priceIndices) : null,
+    [adjustedAccounts, activePeriod, priceIndices]
+  );
+  const canRestate = !!restatement && restatement.closingIndex !== null;
+  const isRestated = showRestated && canRestate;
+
+  // The prior period restated at its own closing, then carried to the current closing currency
+  const priorRestated = useMemo(() => {
+    if (!isRestated || !priorPeriod || !activePeriod) return null;
+    const atPriorClosing = restateAccounts(priorAccounts, priorPeriod.closingDate, priceIndices);
+    return carryForward(atPriorClosing.accounts, priorPeriod.closingDate, activePeriod.closingDate, priceIndices);
+  }, [isRestated, priorPeriod, priorAccounts, activePeriod, priceIndices]);
+
+  // --- Foreign currency: booked pesos next to the original amount at the closing rate ---
+  const conversions = useMemo(
+    () => activePeriod ? convertForeignCurrency(adjustedAccounts, activePeriod.closingDate, exchangeRates) : [],
+    [adjustedAccounts, activePeriod, exchangeRates]
+  );
+  
   // --- Financial Calculations & Grouping ---
-  const groupedFinancials = useMemo(() => {
-    
-    const groupByTypeAndCategory = (type: AccountType) => {
-        const filtered = accounts.filter(a => a.type === type && !a.isGroup);
-        
-        const groups: Record<string, AccountLine[]> = {};
-        filtered.forEach(acc => {
-            const cat = acc.category || 'Otros';
-            if (!groups[cat]) groups[cat] = [];
-            groups[cat].push(acc);
-        });
+  // Adjusted, and restated when shown so; the rules check balances on these and structure on the imported lines
+  const statementAccounts = isRestated ? restatement!.accounts : adjustedAccounts;
+  const groupedFinancials = useMemo(
+    () => groupFinancials(statementAccounts, reportModel),
+    [statementAccounts, reportModel]
+  );
 
-        // Default order map (CNV) - used only if no custom model is present or as fallback
-        const defaultOrderMap: Record<string, number> = {
-            // Activo
-            'Caja y Bancos': 1, 'Inversiones': 2, 'Créditos por Ventas': 3, 'Otros Créditos': 4,
-            'Bienes de Cambio': 5, 'Bienes de Uso': 6, 'Activos Intangibles': 7,
-            // Pasivo
-            'Deudas Comerciales': 1, 'Deudas Bancarias': 2, 'Deudas Sociales y Fiscales': 3,
-            'Otras Deudas': 4, 'Previsiones': 5,
-            // PN
-            'Capital Social': 1, 'Reservas': 2, 'Resultados Acumulados': 3
-        };
-
-        const sortedCategories = Object.keys(groups).sort((a, b) => {
-             // If we have a custom regulation or global model, we prefer the AI's classification order
-             // Since we can't easily know the user's intended order without parsing the text,
-             // we will try to stick to default if matches, otherwise alphabetical/dynamic
-             if (client.customRegulations || (globalModel && globalModel.length > 0)) {
-                 // Check if both are in default map
-                 const orderA = defaultOrderMap[a];
-                 const orderB = defaultOrderMap[b];
-                 if (orderA && orderB) return orderA - orderB;
-                 if (orderA) return -1; // Standard items first
-                 if (orderB) return 1;
-                 return a.localeCompare(b); // Fallback to alphabetical for custom categories
-             } else {
-                 const orderA = defaultOrderMap[a] || 99;
-                 const orderB = defaultOrderMap[b] || 99;
-                 return orderA - orderB;
-             }
-        });
+  // Monetary lines: only the comparative column changes when restated
+  const annexG = useMemo(
+    () => buildAnnexG(conversions, priorRestated || (priorPeriod ? priorAccounts : undefined)),
+    [conversions, priorRestated, priorPeriod, priorAccounts]
+  );
 
-        return sortedCategories.map(cat => ({
-            name: cat,
-            accounts: groups[cat],
-            total: groups[cat].reduce((sum, a) => sum + a.balance, 0)
-        }));
-    };
+  const priorFinancials = useMemo(
+    () => priorPeriod ? groupFinancials(priorRestated || priorAccounts, reportModel) : null,
+    [priorPeriod, priorRestated, priorAccounts, reportModel]
+  );
 
-    const assets = groupByTypeAndCategory(AccountType.ASSET);
-    const liabilities = groupByTypeAndCategory(AccountType.LIABILITY);
-    const equity = groupByTypeAndCategory(AccountType.EQUITY);
-    const revenue = groupByTypeAndCategory(AccountType.REVENUE);
-    const expenses = groupByTypeAndCategory(AccountType.EXPENSE);
-
-    const assetsTotal = assets.reduce((s, g) => s + g.total, 0);
-    const liabilitiesTotal = liabilities.reduce((s, g) => s + g.total, 0);
-    const equityTotal = equity.reduce((s, g) => s + g.total, 0);
-    const revenueTotal = revenue.reduce((s, g) => s + g.total, 0);
-    const expenseTotal = expenses.reduce((s, g) => s + g.total, 0);
-
-    const netResult = Math.abs(revenueTotal) - Math.abs(expenseTotal);
-
-    return {
-        assets, assetsTotal,
-        liabilities, liabilitiesTotal,
-        equity, equityTotal,
-        revenue, revenueTotal,
-        expenses, expenseTotal,
-        netResult
-    };
-  }, [accounts, client.customRegulations, globalModel]);
+  // Rubros merged with the prior period for the "Ejercicio actual / Ejercicio anterior" columns
+  const comparative = useMemo(() => ({
+    assets: buildComparativeTerms('ACTIVO', groupedFinancials.assetTerms, priorFinancials?.assetTerms),
+    liabilities: buildComparativeTerms('PASIVO', groupedFinancials.liabilityTerms, priorFinancials?.liabilityTerms),
+    equity: buildComparativeRubros(groupedFinancials.equity, priorFinancials?.equity)
+  }), [groupedFinancials, priorFinancials]);
+
+  // Anexos A, E, F and H, with the figures typed for the period
+  const annexes = useMemo(
+    () => buildStatutoryAnnexes(groupedFinancials, priorFinancials, activePeriod?.annexInputs),
+    [groupedFinancials, priorFinancials, activePeriod]
+  );
+
+  // Indirect method: needs the prior period for the variations
+  const cashFlow = useMemo(
+    () => priorFinancials ? buildCashFlow(groupedFinancials, priorFinancials, client.cashFlowMapping, annexes.fixedAssets) : null,
+    [groupedFinancials, priorFinancials, client.cashFlowMapping, annexes]
+  );
+
+  const incomeStatement = useMemo(
+    () => buildIncomeStatement(groupedFinancials, priorFinancials),
+    [groupedFinancials, priorFinancials]
+  );
+
+  const equityChanges = useMemo(
+    () => buildEquityChanges(groupedFinancials, priorFinancials),
+    [groupedFinancials, priorFinancials]
+  );
+
+  const ratios = useMemo(
+    () => computeRatios(groupedFinancials, priorFinancials),
+    [groupedFinancials, priorFinancials]
+  );
+
+  // Every period with accounts, oldest first, each under its own model; the active one as edited
+  const ratioTrend = useMemo<TrendPoint[]>(() => sortPeriods(client.periods)
+    .reverse()
+    .filter(p => p.id === activePeriodId ? accounts.length > 0 : p.accounts.length > 0)
+    .map(p => ({
+      label: p.label,
+      ratios: computeRatios(p.id === activePeriodId
+        ? groupedFinancials
+        : groupFinancials(applyAdjustments(p.accounts, p.adjustingEntries), resolveClientModel(modelLibrary, client, p)?.version.model))
+    })),
+    [client, modelLibrary, activePeriodId, accounts, groupedFinancials]
+  );
+
+  const currentColumnLabel = activePeriod ? `Ejercicio actual ${formatClosingDate(activePeriod.closingDate)}` : 'Ejercicio actual';
+  const priorColumnLabel = priorPeriod ? `Ejercicio anterior ${formatClosingDate(priorPeriod.closingDate)}` : 'Ejercicio anterior';
+  const reportDate = activePeriod ? formatClosingDate(activePeriod.closingDate) : new Date().toLocaleDateString('es-AR');
+  const valuationLabel = isRestated ? 'Reexpresados en moneda de cierre (RT 6)' : 'En valores históricos';
+  // Without the index of the prior closing the comparative column cannot be restated
+  const priorNotRestated = isRestated && !!priorPeriod && !priorRestated;
+  const periodChanges = activePeriod
+    ? filterChangeLog(client.changeLog || [], { ...EMPTY_CHANGE_FILTERS, periodId: activePeriod.id })
+    : [];
+
+  const rubros = useMemo(() => listRubros(accounts), [accounts]);
+
+  // --- Account tree: parents from codes or indentation, subtotals rolled up from the details ---
+  const accountTree = useMemo(() => buildAccountTree(accounts), [accounts]);
+  const gridRows = useMemo((): AccountNode[] => {
+    if (treeView) return flattenTree(accountTree, collapsedIds);
+    const nodeById = new Map(flattenTree(accountTree, new Set()).map(node => [node.account.id, node]));
+    return accounts.map(acc => nodeById.get(acc.id)!);
+  }, [accountTree, accounts, treeView, collapsedIds]);
+  const showTree = treeView && hasHierarchy(accountTree);
+
+  const toggleCollapsed = (id: string) => setCollapsedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const collapseAll = () => setCollapsedIds(new Set(
+    flattenTree(accountTree, new Set()).filter(node => node.children.length > 0).map(node => node.account.id)
+  ));
+  const reviewProgress = useMemo(() => computeReviewProgress(accounts, activePeriod), [accounts, activePeriod]);
 
   // --- Logic for Inconsistency Detection ---
-  const inconsistencies = useMemo(() => {
-    const issues: Inconsistency[] = [];
-    const grandTotal = accounts.filter(a => !a.isGroup).reduce((s, a) => s + a.balance, 0);
+  const inconsistencies = useMemo(
+    () => runInconsistencyRules(statementAccounts, groupedFinancials, conversions, accounts),
+    [statementAccounts, groupedFinancials, conversions, accounts]
+  );
 
-    if (Math.abs(grandTotal) > 1) { 
-       issues.push({
-         id: 'diff-balance',
-         severity: 'high',
-         message: `El balance no da cero (Diferencia: ${grandTotal.toFixed(2)}). Revisar asientos.`,
-         relatedAccountIds: []
-       });
-    }
+  // Worst finding per account, used to flag rows in the CLASSIFICATION table
+  const flaggedAccounts = useMemo(() => {
+    const flags: Record<string, Inconsistency['severity']> = {};
+    inconsistencies.forEach(inc => inc.relatedAccountIds.forEach(id => {
+      if (!flags[id] || inc.severity === 'high') flags[id] = inc.severity;
+    }));
+    return flags;
+  }, [inconsistencies]);
+
+  // Collapsed headers above the target lines are opened first, so the rows exist to scroll to
+  const jumpToAccounts = (ids: string[]) => {
+    if (ids.length === 0) return;
+    setHighlightedIds(ids);
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => ancestorIds(accounts, id).forEach(ancestor => next.delete(ancestor)));
+      return next;
+    });
+    setTimeout(() => document.getElementById(`account-row-${ids[0]}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
 
-    return issues;
-  }, [accounts]);
+  const handleJumpToFinding = (inc: Inconsistency) => jumpToAccounts(inc.relatedAccountIds);
 
 
   // --- File Handling: Financial Data ---
-  const handleFinancialUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files?.length) return;
-    const file = e.target.files[0];
-    
-    setLoading(true);
-    setLoadingMsg(`Leyendo ${file.name}...`);
 
-    const reader = new FileReader();
+  // Saved client layout first, then the AI; if both fail the auditor maps the columns by hand
+  const detectSheetMapping = async (rows: any[][]): Promise<Pick<PendingImport, 'mapping' | 'source' | 'detectionError'>> => {
+    const saved = findSavedMapping(client.importMappings, rows);
+    if (saved) return { mapping: saved.mapping, source: 'SAVED' };
+    try {
+      return { mapping: await detectColumnMapping(rows), source: 'AI' };
+    } catch (error: any) {
+      return { mapping: EMPTY_COLUMN_MAPPING, source: 'MANUAL', detectionError: error.message };
+    }
+  };
+
+  // Records a version of the period in the ledger; a storage failure is reported but never blocks the save
+  const appendLedgerEntry = async (
+    periodId: string,
+    snapshotAccounts: AccountLine[],
+    kind: SnapshotKind,
+    description: string,
+    documentId?: string
+  ): Promise<{ ledger: LedgerEntry[]; entry?: LedgerEntry }> => {
+    const ledger = client.ledger || [];
+    try {
+      const entry = await recordSnapshot(client, periodId, snapshotAccounts, kind, description, documentId);
+      return { ledger: [...ledger, entry], entry };
+    } catch (error) {
+      console.error("Error recording snapshot:", error);
+      alert(`Los datos se guardaron, pero no su versión en el historial. ${describeStorageError(error)}`);
+      return { ledger };
+    }
+  };
+
+  // Classifies freshly parsed lines and stores them in the active period
+  const importAccounts = async (
+    rawAccounts: Partial<AccountLine>[],
+    sourceDocument: SourceDocument,
+    clientChanges: Partial<ClientData> = {}
+  ) => {
+    if (rawAccounts.length === 0) {
+        throw new Error("No se encontraron cuentas en el archivo. Verifique el formato.");
+    }
+
+    const loadMsg = `Clasificando según ${describeModel(activeModel)}${client.customRegulations ? ' y la normativa del cliente' : ''}...`;
+
+    setLoadingMsg(loadMsg);
+
+    // Accounts the auditor already classified by hand for this client skip the AI entirely
+    const { remembered, pending } = applyClassificationMemory(rawAccounts, client.classificationMemory);
+      
+    const outcome = pending.length > 0
+      ? await classifyAccounts(
+          pending, 
+          reportModel,
+          client.customRegulations,
+          [...(client.mappingRules || []), ...globalMappingRules],
+          (done, total) => setLoadingMsg(`${loadMsg} (lote ${done} de ${total})`)
+        )
+      : null;
+    const classifiedAccounts = mergeWithMemory(remembered, outcome?.accounts || []);
+
+    setAccounts(classifiedAccounts);
+    setHighlightedIds([]);
+    // Only worth showing when something needs the auditor's attention
+    setClassificationReport(outcome && outcome.report.failures.length > 0 ? outcome.report : null);
+
+    // The import lands in the selected period; the first import creates one.
+    // The period keeps the model version it was classified with, whatever the library does later.
+    const targetPeriod = activePeriod || createDefaultPeriod();
+    const modelRef = activeModel?.ref;
+    const periods = activePeriod
+      ? client.periods.map(p => p.id === activePeriod.id ? { ...p, accounts: classifiedAccounts, modelRef } : p)
+      : [...client.periods, { ...targetPeriod, accounts: classifiedAccounts, modelRef }];
+    setActivePeriodId(targetPeriod.id);
+
+    // A reprocessed document keeps its entry, now pointing at the latest import
+    const isReprocess = client.files.some(f => f.id === sourceDocument.id);
+    const { ledger, entry } = await appendLedgerEntry(
+      targetPeriod.id, classifiedAccounts, 'IMPORT',
+      `${isReprocess ? 'Reprocesamiento' : 'Importación'} de ${sourceDocument.name}`, sourceDocument.id
+    );
+    const importedDocument = { ...sourceDocument, periodId: targetPeriod.id, importId: entry?.id };
     
-    reader.onload = async () => {
-      try {
-          const base64 = (reader.result as string).split(',')[1];
-          
-          setLoadingMsg('Analizando estructura contable con IA...');
-          const mimeType = file.type || 'application/octet-stream';
-          const rawAccounts = await parseFinancialDocument(base64, mimeType, file.name);
-          
-          if (rawAccounts.length === 0) {
-              throw new Error("No se encontraron cuentas en el archivo. Verifique el formato.");
-          }
-
-          let loadMsg = 'Clasificando...';
-          if (client.customRegulations) loadMsg = 'Aplicando Normativa de Cliente...';
-          else if (globalModel) loadMsg = 'Aplicando Modelo Estándar Global...';
-          else loadMsg = 'Clasificando según Normas CNV Estándar...';
-          
-          setLoadingMsg(loadMsg);
-            
-          // Pass the stored custom regulations OR Global Standard
-          const classifiedAccounts = await classifyAccounts(
-              rawAccounts, 
-              client.customRegulations, 
-              globalModel
-          );
-          
-          setAccounts(classifiedAccounts);
-          
-          const updatedClient = {
-            ...client,
-            accounts: classifiedAccounts,
-            files: [...client.files, { name: file.name, date: new Date().toISOString(), type: file.type }],
-            lastUpdated: new Date().toISOString()
-          };
-          onSave(updatedClient);
-          setTab('CLASSIFICATION');
-      } catch (innerError: any) {
-           alert(`Error al procesar el archivo: ${innerError.message}`);
-           console.error(innerError);
-      } finally {
-           setLoading(false);
-           if (fileInputRef.current) fileInputRef.current.value = '';
-      }
+    const updatedClient = {
+      ...client,
+      ...clientChanges,
+      periods,
+      ledger,
+      files: isReprocess
+        ? client.files.map(f => f.id === sourceDocument.id ? importedDocument : f)
+        : [...client.files, importedDocument],
+      lastUpdated: new Date().toISOString()
     };
+    onSave(updatedClient);
+    setTab('CLASSIFICATION');
+  };
+
+  // Keeps the original next to the client; an import without it still goes ahead
+  const keepDocument = async (content: Blob, name: string, type: string): Promise<SourceDocument> => {
+    const sourceDocument: SourceDocument = { id: crypto.randomUUID(), name, type, date: new Date().toISOString(), size: content.size };
+    try {
+      return { ...sourceDocument, hash: await storeDocument(content) };
+    } catch (error) {
+      console.error("Error storing document:", error);
+      alert(`No se pudo guardar una copia de ${name}. ${describeStorageError(error)}\nLa importación continúa sin el original.`);
+      return sourceDocument;
+    }
+  };
 
-    reader.onerror = () => {
-        alert("Error crítico al leer el archivo del disco.");
+  // Reads, keeps and imports a trial balance; stored documents pass themselves and are not kept again
+  const processDocument = async (content: Blob, name: string, type: string, storedDocument?: SourceDocument) => {
+    setLoading(true);
+    setLoadingMsg(`Leyendo ${name}...`);
+
+    try {
+        const base64 = await blobToBase64(content);
+        const mimeType = type || 'application/octet-stream';
+        const sourceDocument = storedDocument || await keepDocument(content, name, type);
+
+        // Spreadsheets stop at the column review; importing continues in handleConfirmImport
+        if (isSpreadsheetFile(mimeType, name)) {
+            const workbook = readWorkbook(base64);
+            const savedSheet = (client.importMappings || [])
+              .map(m => m.sheetName)
+              .find(sheet => workbook.SheetNames.includes(sheet));
+            const sheetName = savedSheet || workbook.SheetNames[0];
+            const rows = getSheetRows(workbook, sheetName);
+
+            setLoadingMsg('Detectando columnas de la planilla...');
+            const detected = await detectSheetMapping(rows);
+            setPendingImport({ sourceDocument, workbook, sheetName, rows, ...detected });
+            return;
+        }
+        
+        setLoadingMsg('Analizando estructura contable con IA...');
+        const rawAccounts = await parseFinancialDocument(base64, mimeType, name);
+        await importAccounts(rawAccounts, sourceDocument);
+    } catch (innerError: any) {
+         alert(`Error al procesar el archivo: ${innerError.message}`);
+         console.error(innerError);
+    } finally {
+         setLoading(false);
+    }
+  };
+
+  const handleFinancialUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files?.length) return;
+    const file = e.target.files[0];
+    await processDocument(file, file.name, file.type);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const loadStoredDocument = async (doc: SourceDocument): Promise<Blob | null> => {
+    try {
+      const content = doc.hash ? await loadDocument(doc.hash) : undefined;
+      if (!content) alert(`El original de ${doc.name} no está disponible. Solo se guardan los archivos subidos desde que existe el panel de documentos.`);
+      return content || null;
+    } catch (error) {
+      alert(describeStorageError(error));
+      return null;
+    }
+  };
+
+  const handleDownloadDocument = async (doc: SourceDocument) => {
+    const content = await loadStoredDocument(doc);
+    if (content) downloadBlob(content, doc.name);
+  };
+
+  // Runs the stored original through the current mapping rules, memory and normativa
+  const handleReprocessDocument = async (doc: SourceDocument) => {
+    const target = activePeriod ? `el ejercicio "${activePeriod.label}"` : 'un ejercicio nuevo';
+    if (!window.confirm(`Se volverá a importar ${doc.name} en ${target} con la configuración actual de clasificación, reemplazando sus cuentas. ¿Continuar?`)) return;
+    const content = await loadStoredDocument(doc);
+    if (content) await processDocument(content, doc.name, doc.type, doc);
+  };
+
+  const handleImportSheetChange = async (sheetName: string) => {
+    if (!pendingImport) return;
+    const rows = getSheetRows(pendingImport.workbook, sheetName);
+    setLoading(true);
+    setLoadingMsg(`Detectando columnas de la hoja ${sheetName}...`);
+    const detected = await detectSheetMapping(rows);
+    setPendingImport({ ...pendingImport, sheetName, rows, ...detected });
+    setLoading(false);
+  };
+
+  const handleConfirmImport = async (remember: boolean) => {
+    if (!pendingImport) return;
+    const { sourceDocument, rows, sheetName, mapping } = pendingImport;
+    setPendingImport(null);
+    setLoading(true);
+    try {
+        const importMappings = remember
+          ? saveImportMapping(client.importMappings, rows, sheetName, mapping)
+          : client.importMappings;
+        await importAccounts(parseRowsWithMapping(rows, mapping).lines, sourceDocument, { importMappings });
+    } catch (error: any) {
+        alert(`Error al procesar el archivo: ${error.message}`);
+        console.error(error);
+    } finally {
         setLoading(false);
-        if (fileInputRef.current) fileInputRef.current.value = '';
-    };
+    }
+  };
 
-    reader.readAsDataURL(file);
+  const handleForgetImportMapping = (id: string) => {
+    onSave({ ...client, importMappings: (client.importMappings || []).filter(m => m.id !== id) });
   };
 
   // --- File Handling: Regulations ---
@@ -213,6 +509,86 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
     reader.readAsDataURL(file);
   };
 
+  // --- Presentation Model ---
+  // Assigning a model leaves the accounts as they are; they change rubro when classified again
+  const handleClientModelChange = (modelId: string) => {
+    onSave({ ...client, modelRef: modelId ? { modelId } : undefined });
+  };
+
+  const handlePeriodModelChange = (modelId: string) => {
+    if (!activePeriod) return;
+    const entry = modelLibrary.models.find(m => m.id === modelId);
+    onSave(updatePeriod(client, activePeriod.id, {
+      modelRef: entry ? { modelId: entry.id, version: latestVersion(entry).version } : undefined
+    }));
+  };
+
+  const openModelComparison = () => {
+    if (activePeriod && diffManualChanges(activePeriod.accounts, accounts).length > 0) {
+      alert("Guarde los cambios manuales antes de comparar modelos.");
+      return;
+    }
+    setShowModelComparison(true);
+  };
+
+  const handleAdoptModel = async (model: ResolvedModel, reclassified: AccountLine[]) => {
+    if (!activePeriod) return;
+    if (!window.confirm(`Las cuentas del ejercicio "${activePeriod.label}" se reclasificarán según ${describeModel(model)}. La versión actual queda en el historial. ¿Continuar?`)) return;
+    const { ledger } = await appendLedgerEntry(
+      activePeriod.id, reclassified, 'RECLASSIFY', `Reclasificación según ${describeModel(model)}`
+    );
+    setAccounts(reclassified);
+    setHighlightedIds([]);
+    setShowModelComparison(false);
+    onSave({
+      ...updatePeriod(client, activePeriod.id, { accounts: reclassified, modelRef: model.ref }),
+      ledger,
+      lastUpdated: new Date().toISOString()
+    });
+  };
+
+  // --- Client Mapping Rules ---
+  const handleSaveMappingRules = () => {
+    onSave({ ...client, mappingRules });
+    alert("Reglas de mapeo del cliente guardadas. Se aplicarán en la próxima importación.");
+  };
+
+  const handleForgetMemoryEntry = (key: string) => {
+    onSave({ ...client, classificationMemory: forgetEntry(client.classificationMemory || {}, key) });
+  };
+
+  // --- Review and Sign-off ---
+  // Reviews are stored on the period right away, apart from the unsaved edits of the grid
+  const openLineReview = (acc: AccountLine) => setReviewTarget({
+    scope: 'LINE',
+    key: lineKey(acc),
+    title: [acc.code, acc.name].filter(Boolean).join(' '),
+    subtitle: `Cuenta · ${acc.type} · ${acc.category}`
+  });
+
+  const openRubroReview = (rubro: RubroEntry) => setReviewTarget({
+    scope: 'RUBRO',
+    key: rubro.key,
+    title: rubro.category,
+    subtitle: `Rubro · ${rubro.type} · ${rubro.lineCount} cuentas`
+  });
+
+  const reviewOf = (target: ReviewTarget): ReviewRecord | undefined =>
+    (target.scope === 'LINE' ? activePeriod?.lineReviews : activePeriod?.rubroReviews)?.[target.key];
+
+  const handleSaveReview = (review: ReviewRecord) => {
+    if (!reviewTarget) return;
+    if (!activePeriod) {
+      alert("Guarde primero el balance en un ejercicio para registrar la revisión.");
+      return;
+    }
+    const changes = reviewTarget.scope === 'LINE'
+      ? { lineReviews: { ...activePeriod.lineReviews, [reviewTarget.key]: review } }
+      : { rubroReviews: { ...activePeriod.rubroReviews, [reviewTarget.key]: review } };
+    onSave(updatePeriod(client, activePeriod.id, changes));
+    setReviewTarget(null);
+  };
+
   // --- Manual Editing Functions ---
   const handleAddAccount = () => {
     const newAccount: AccountLine = {
@@ -245,103 +621,477 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
            const c = field === 'credit' ? (value as number) : (updated.credit || 0);
            updated.balance = d - c;
         }
+        // Outside Activo and Pasivo a term has no meaning
+        if (field === 'type' && !hasTerm(value)) updated.term = undefined;
+        // Back in pesos, the original amount goes with the currency
+        if (field === 'currency' && !value) updated.originalAmount = undefined;
         return updated;
       }
       return acc;
     }));
   };
 
+  // Origin months don't change from one year to the next; only lines still without them are filled
+  const handleCopyInflationDataFromPrior = () => {
+    if (!priorPeriod) return;
+    const priorByKey = new Map(priorPeriod.accounts.map(acc => [lineKey(acc), acc]));
+    let copied = 0;
+    const updated = accounts.map(acc => {
+      const prior = priorByKey.get(lineKey(acc));
+      const nature = acc.nature || prior?.nature;
+      const originDate = acc.originDate || prior?.originDate;
+      if (nature === acc.nature && originDate === acc.originDate) return acc;
+      copied++;
+      return { ...acc, nature, originDate, manualOverride: true };
+    });
+    setAccounts(updated);
+    alert(copied > 0
+      ? `Se completaron ${copied} cuentas con los datos de ${priorPeriod.label}.`
+      : `No hay datos de ${priorPeriod.label} para completar.`);
+  };
+
+  // The booked pesos become the conversion at the closing rate; the exchange difference is left to the user
+  // The exchange difference is booked as an adjusting entry; the imported balances stay as they are
+  const handleApplyConversion = () => {
+    if (!activePeriod) {
+      alert("Guarde primero el balance en un ejercicio para registrar la diferencia de cambio.");
+      return;
+    }
+    const counterpart = findExchangeDifferenceLine(adjustedAccounts);
+    if (!counterpart) {
+      alert("No hay una cuenta de resultados de diferencia de cambio en el balance. Agréguela para registrar el ajuste.");
+      return;
+    }
+    const entries = activePeriod.adjustingEntries || [];
+    const entry = buildExchangeDifferenceEntry(conversions, counterpart, entries, activePeriod.closingDate, currentUser);
+    if (!entry) return;
+    const { debit } = entryTotals(entry);
+    if (!window.confirm(`¿Registrar el asiento N° ${entry.number} por la diferencia de cambio de las cuentas en moneda extranjera contra "${counterpart.name}" (Debe ${formatAmount(debit)})?`)) return;
+    handleSaveAdjustingEntries([...entries, entry]);
+  };
+
+  // Annex figures are stored on the period right away, like reviews
+  const handleSaveAnnexInputs = (annexInputs: AnnexInputs) => {
+    if (!activePeriod) {
+      alert("Guarde primero el balance en un ejercicio para cargar los anexos.");
+      return;
+    }
+    onSave(updatePeriod(client, activePeriod.id, { annexInputs }));
+    setShowAnnexes(false);
+  };
+
+  // Entries are stored on the period right away; the imported lines are never rewritten
+  const handleSaveAdjustingEntries = (entries: AdjustingEntry[]) => {
+    if (!activePeriod) {
+      alert("Guarde primero el balance en un ejercicio para registrar asientos de ajuste.");
+      return;
+    }
+    onSave(updatePeriod(client, activePeriod.id, { adjustingEntries: entries }));
+  };
+
+  const handleSaveCashFlowMapping = (cashFlowMapping: Record<string, CashFlowActivity>) => {
+    onSave({ ...client, cashFlowMapping });
+    setShowCashFlowMapping(false);
+  };
+
+  // Manual edits since the last save are signed and justified before they reach the change log
   const handleSaveChanges = () => {
-    const updatedClient = {
-      ...client,
-      accounts: accounts,
+    const changes = diffManualChanges(activePeriod?.accounts || [], accounts);
+    if (changes.length > 0) {
+      setPendingChanges(changes);
+      return;
+    }
+    commitSave();
+  };
+
+  const commitSave = async (changes: PendingChange[] = [], user = '', note = '') => {
+    setPendingChanges(null);
+    const targetPeriod = activePeriod || createDefaultPeriod();
+    const updatedClient = activePeriod
+      ? updatePeriod(client, activePeriod.id, { accounts })
+      : { ...client, periods: [...client.periods, { ...targetPeriod, accounts }] };
+    setActivePeriodId(targetPeriod.id);
+    const manualCount = accounts.filter(a => a.manualOverride).length;
+    const { ledger } = await appendLedgerEntry(
+      targetPeriod.id, accounts, 'SAVE', `Guardar cambios (${manualCount} cuentas editadas a mano)`
+    );
+    onSave({
+      ...updatedClient,
+      ledger,
+      changeLog: changes.length > 0 ? appendChanges(client.changeLog, changes, targetPeriod.id, user, note) : client.changeLog,
+      classificationMemory: rememberOverrides(accounts, activePeriod?.accounts || [], client.classificationMemory),
       lastUpdated: new Date().toISOString()
-    };
-    onSave(updatedClient);
+    });
     alert("Cambios guardados correctamente.");
   };
 
+  // Brings back the accounts of a ledger version; the restore itself becomes a new version
+  const handleRestoreVersion = async (entry: LedgerEntry) => {
+    const when = new Date(entry.createdAt).toLocaleString('es-AR');
+    if (!window.confirm(`Se reemplazarán las cuentas del ejercicio por la versión del ${when}. Los cambios sin guardar se pierden. ¿Continuar?`)) return;
+    try {
+      const snapshot = await loadSnapshot(entry.id);
+      if (!snapshot) {
+        alert("La versión seleccionada ya no está en el almacenamiento.");
+        return;
+      }
+      const { ledger } = await appendLedgerEntry(
+        entry.periodId, snapshot.accounts, 'RESTORE', `Restaurado a la versión del ${when} (${SNAPSHOT_KIND_LABELS[entry.kind]})`
+      );
+      setAccounts(snapshot.accounts);
+      setHighlightedIds([]);
+      setClassificationReport(null);
+      onSave({ ...updatePeriod(client, entry.periodId, { accounts: snapshot.accounts }), ledger, lastUpdated: new Date().toISOString() });
+    } catch (error) {
+      alert(describeStorageError(error));
+    }
+  };
+
+  // --- Fiscal Periods ---
+  const confirmDiscardChanges = () =>
+    !activePeriod || accounts === activePeriod.accounts ||
+    window.confirm('Hay cambios sin guardar en el ejercicio actual. ¿Descartarlos?');
+
+  const handleSelectPeriod = (periodId: string) => {
+    if (!confirmDiscardChanges()) return;
+    setActivePeriodId(periodId);
+    setAccounts(client.periods.find(p => p.id === periodId)?.accounts || []);
+    setClassificationReport(null);
+  };
+
+  const handleCreatePeriod = (label: string, closingDate: string, status: PeriodStatus) => {
+    if (!confirmDiscardChanges()) return;
+    const period = createPeriod(label, closingDate, status);
+    onSave({ ...client, periods: [...client.periods, period], lastUpdated: new Date().toISOString() });
+    setActivePeriodId(period.id);
+    setAccounts(period.accounts);
+  };
+
+  const handlePeriodStatusChange = (periodId: string, status: PeriodStatus) => {
+    onSave(updatePeriod(client, periodId, { status }));
+  };
+
   // --- Exporting ---
   const exportToExcel = () => {
     // We create the Excel data strictly following the grouped structure used in PDF
     // This ensures Model consistency and removes unclassified or filtered accounts (like 'Overnight' if not in model)
     const wb = XLSX.utils.book_new();
     const data: (string | number)[][] = [];
+    const hasPrior = !!priorFinancials;
+    const priorCell = (type: AccountType, value: number | null) => value === null ? "" : naturalAmount(type, value);
 
     // 1. Headers
     data.push(["EMPRESA", client.name]);
     data.push(["CUIT", client.cuit]);
     data.push(["INDUSTRIA", client.industry]);
-    data.push(["FECHA", new Date().toLocaleDateString('es-AR')]);
+    data.push(["FECHA DE CIERRE", reportDate]);
+    if (canRestate) data.push(["VALUACIÓN", valuationLabel]);
     data.push([]); // Spacer
+    data.push(hasPrior ? ["", "", currentColumnLabel, priorColumnLabel] : ["", "", currentColumnLabel]);
 
     // 2. Helper to add sections (Rubros)
-    const addExcelSection = (sectionTitle: string, groups: {name: string, accounts: AccountLine[], total: number}[], sectionTotal: number) => {
+    const addExcelSection = (sectionTitle: string, type: AccountType, sections: ComparativeTermSection[], sectionTotal: number, priorTotal?: number) => {
          data.push([sectionTitle.toUpperCase(), "", ""]); // Section Header (e.g., ACTIVO)
          
-         if (groups.length === 0) {
+         const filled = sections.filter(section => section.rubros.length > 0);
+         if (filled.length === 0) {
              data.push(["Sin Movimientos", "", ""]);
          }
 
-         groups.forEach(g => {
-             // Rubro Header
-             data.push([g.name.toUpperCase(), "", ""]); 
-             
-             // Accounts
-             g.accounts.forEach(acc => {
-                 // Indent name slightly logic is visual, but here we just put in 2nd column for structure or same column
-                 // Let's use Col A for Structure, Col B for Detail Name, Col C for Amount to look professional
-                 data.push(["", acc.name, Math.abs(acc.balance)]); 
+         filled.forEach(section => {
+             data.push([section.title, "", ""]); // Corriente / No Corriente
+
+             section.rubros.forEach(g => {
+                 // Rubro Header
+                 data.push([g.name.toUpperCase(), "", ""]); 
+                 
+                 // Accounts
+                 g.lines.forEach(line => {
+                     // Col A for Structure, Col B for Detail Name, Col C/D for current/prior amounts
+                     data.push(["", line.name, naturalAmount(type, line.current), priorCell(type, line.prior)]);
+                 });
+
+                 // Subtotal Rubro
+                 data.push(["", `TOTAL ${g.name.toUpperCase()}`, naturalAmount(type, g.current), priorCell(type, g.prior)]);
+                 data.push([]); // Spacer
              });
 
-             // Subtotal Rubro
-             data.push(["", `TOTAL ${g.name.toUpperCase()}`, Math.abs(g.total)]);
-             data.push([]); // Spacer
+             data.push([`TOTAL ${section.title}`, "", naturalAmount(type, section.current), priorCell(type, section.prior)]);
+             data.push([]);
          });
 
          // Section Total
-         data.push([`TOTAL ${sectionTitle}`, "", Math.abs(sectionTotal)]);
+         data.push([`TOTAL ${sectionTitle}`, "", naturalAmount(type, sectionTotal), priorCell(type, priorTotal ?? null)]);
          data.push([]);
          data.push([]);
     };
 
     // 3. Build the content
-    addExcelSection("ACTIVO", groupedFinancials.assets, groupedFinancials.assetsTotal);
-    addExcelSection("PASIVO", groupedFinancials.liabilities, groupedFinancials.liabilitiesTotal);
+    addExcelSection("ACTIVO", AccountType.ASSET, comparative.assets, groupedFinancials.assetsTotal, priorFinancials?.assetsTotal);
+    addExcelSection("PASIVO", AccountType.LIABILITY, comparative.liabilities, groupedFinancials.liabilitiesTotal, priorFinancials?.liabilitiesTotal);
     
     // Equity needs specific handling for Result of period just like PDF
     data.push(["PATRIMONIO NETO", "", ""]);
-    groupedFinancials.equity.forEach(g => {
+    comparative.equity.forEach(g => {
          data.push([g.name.toUpperCase(), "", ""]);
-         g.accounts.forEach(acc => {
-             data.push(["", acc.name, Math.abs(acc.balance)]);
+         g.lines.forEach(line => {
+             data.push(["", line.name, naturalAmount(AccountType.EQUITY, line.current), priorCell(AccountType.EQUITY, line.prior)]);
          });
-         data.push(["", `TOTAL ${g.name.toUpperCase()}`, Math.abs(g.total)]);
+         data.push(["", `TOTAL ${g.name.toUpperCase()}`, naturalAmount(AccountType.EQUITY, g.current), priorCell(AccountType.EQUITY, g.prior)]);
          data.push([]);
     });
 
     // Add Net Result line (mimicking PDF)
     data.push(["RESULTADO DEL EJERCICIO", "", ""]);
-    data.push(["", "Ganancia/Pérdida del Periodo", groupedFinancials.netResult]);
+    data.push(["", "Ganancia/Pérdida del Periodo", groupedFinancials.netResult, priorFinancials ? priorFinancials.netResult : ""]);
     data.push([]);
 
-    const totalPN = groupedFinancials.equityTotal + groupedFinancials.netResult;
-    data.push(["TOTAL PATRIMONIO NETO", "", totalPN]);
+    data.push(["TOTAL PATRIMONIO NETO", "", equityWithResult(groupedFinancials), priorFinancials ? equityWithResult(priorFinancials) : ""]);
     data.push([]);
     data.push([]);
 
     // Final Validation Check
-    const totalPasivoPN = groupedFinancials.liabilitiesTotal + totalPN;
-    data.push(["TOTAL PASIVO + PATRIMONIO NETO", "", totalPasivoPN]);
+    data.push([
+      "TOTAL PASIVO + PATRIMONIO NETO", "",
+      liabilitiesAndEquity(groupedFinancials), priorFinancials ? liabilitiesAndEquity(priorFinancials) : ""
+    ]);
 
     // 4. Create Sheet
     const ws = XLSX.utils.aoa_to_sheet(data);
     
-    // Set Column Widths (A=30, B=50, C=20)
-    ws['!cols'] = [{ wch: 30 }, { wch: 50 }, { wch: 20 }];
+    // Set Column Widths (A=30, B=50, C=D=20)
+    ws['!cols'] = [{ wch: 30 }, { wch: 50 }, { wch: 20 }, { wch: 20 }];
 
     XLSX.utils.book_append_sheet(wb, ws, "Estados Contables");
-    XLSX.writeFile(wb, `AuditAI_${client.name}_${new Date().toISOString().split('T')[0]}.xlsx`);
+
+    // 5. Estado de Resultados
+    const incomeData: (string | number)[][] = [
+      ["ESTADO DE RESULTADOS", client.name],
+      ["FECHA DE CIERRE", reportDate],
+      [],
+      hasPrior ? ["", currentColumnLabel, priorColumnLabel] : ["", currentColumnLabel]
+    ];
+    incomeStatement.forEach(line => {
+      incomeData.push([line.isSubtotal ? line.label.toUpperCase() : line.label, line.current, line.prior ?? ""]);
+      if (line.isSubtotal) incomeData.push([]);
+    });
+    const incomeWs = XLSX.utils.aoa_to_sheet(incomeData);
+    incomeWs['!cols'] = [{ wch: 50 }, { wch: 20 }, { wch: 20 }];
+    XLSX.utils.book_append_sheet(wb, incomeWs, "Estado de Resultados");
+
+    // 6. Estado de Evolución del Patrimonio Neto
+    const equityData: (string | number)[][] = [
+      ["ESTADO DE EVOLUCIÓN DEL PATRIMONIO NETO", client.name],
+      ["FECHA DE CIERRE", reportDate],
+      [],
+      ["Concepto", ...equityChanges.columns],
+      ...equityChanges.rows.map(row => [row.label, ...row.values])
+    ];
+    if (!equityChanges.hasOpeningBalances) {
+      equityData.push([], ["Sin ejercicio anterior cargado: los saldos iniciales se informan en cero."]);
+    }
+    const equityWs = XLSX.utils.aoa_to_sheet(equityData);
+    equityWs['!cols'] = [{ wch: 45 }, ...equityChanges.columns.map(() => ({ wch: 20 }))];
+    XLSX.utils.book_append_sheet(wb, equityWs, "Evolución PN");
+
+    // 7. Estado de Flujo de Efectivo
+    if (cashFlow) {
+      const cashFlowData: (string | number)[][] = [
+        ["ESTADO DE FLUJO DE EFECTIVO (MÉTODO INDIRECTO)", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        [],
+        ["Efectivo al inicio del ejercicio", cashFlow.openingCash],
+        []
+      ];
+      cashFlow.sections.forEach(section => {
+        cashFlowData.push([CASH_FLOW_ACTIVITY_LABELS[section.activity].toUpperCase()]);
+        section.lines.forEach(line => cashFlowData.push([`  ${line.label}`, line.amount]));
+        cashFlowData.push([`Flujo neto de ${CASH_FLOW_ACTIVITY_LABELS[section.activity].toLowerCase()}`, section.total], []);
+      });
+      cashFlowData.push(
+        ["VARIACIÓN NETA DEL EFECTIVO", cashFlow.variation],
+        ["Efectivo al cierre del ejercicio", cashFlow.closingCash]
+      );
+      if (Math.abs(cashFlow.difference) >= 0.01) cashFlowData.push([], ["Diferencia no explicada", cashFlow.difference]);
+      const cashFlowWs = XLSX.utils.aoa_to_sheet(cashFlowData);
+      cashFlowWs['!cols'] = [{ wch: 50 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(wb, cashFlowWs, "Flujo de Efectivo");
+    }
+
+    // 8. Ajuste por inflación: historical and restated balance of every line, whatever the statements show
+    if (canRestate) {
+      const inflationData: (string | number)[][] = [
+        ["AJUSTE POR INFLACIÓN (RT 6)", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        ["ÍNDICE DE CIERRE", restatement!.closingIndex!],
+        [],
+        ["Código", "Cuenta", "Capítulo", "Rubro", "Naturaleza", "Mes de origen", "Coeficiente", "Histórico", "Reexpresado", "Observación"],
+        ...restatement!.lines.map(l => [
+          l.account.code, l.account.name, l.account.type, l.account.category,
+          NATURE_LABELS[l.nature], l.account.originDate ? formatMonth(l.account.originDate) : "",
+          l.coefficient ?? "", l.historical, l.restated, l.issue || ""
+        ]),
+        [],
+        ["", "RECPAM (positivo = ganancia)", "", "", "", "", "", "", restatement!.recpam]
+      ];
+      const inflationWs = XLSX.utils.aoa_to_sheet(inflationData);
+      inflationWs['!cols'] = [{ wch: 14 }, { wch: 40 }, { wch: 14 }, { wch: 28 }, { wch: 14 }, { wch: 12 }, { wch: 12 }, { wch: 18 }, { wch: 18 }, { wch: 40 }];
+      XLSX.utils.book_append_sheet(wb, inflationWs, "Ajuste por Inflación");
+    }
+
+    // 9. Anexos A, E and F, each on its own sheet
+    const annexHeader = (title: string): (string | number)[][] => [[title, client.name], ["FECHA DE CIERRE", reportDate], []];
+    if (annexes.fixedAssets.length > 0) {
+      const totals = (pick: (r: typeof annexes.fixedAssets[number]) => number) => annexes.fixedAssets.reduce((s, r) => s + pick(r), 0);
+      const fixedAssetsWs = XLSX.utils.aoa_to_sheet([
+        ...annexHeader("ANEXO A - BIENES DE USO"),
+        ["Cuenta", "Valor al inicio", "Altas", "Bajas", "Valor al cierre", "Amort. acumuladas al inicio", "Amort. de las bajas", "Amort. del ejercicio", "Amort. acumuladas al cierre", "Neto resultante", ...(hasPrior ? ["Neto ejercicio anterior"] : [])],
+        ...annexes.fixedAssets.map(r => [
+          r.name, r.opening, r.additions, r.disposals, r.closing,
+          r.depreciationOpening, r.depreciationDisposals, r.depreciationYear, r.depreciationClosing, r.net,
+          ...(hasPrior ? [r.priorNet ?? 0] : [])
+        ]),
+        [
+          "TOTAL", totals(r => r.opening), totals(r => r.additions), totals(r => r.disposals), totals(r => r.closing),
+          totals(r => r.depreciationOpening), totals(r => r.depreciationDisposals), totals(r => r.depreciationYear),
+          totals(r => r.depreciationClosing), totals(r => r.net), ...(hasPrior ? [totals(r => r.priorNet ?? 0)] : [])
+        ]
+      ]);
+      fixedAssetsWs['!cols'] = [{ wch: 40 }, ...Array.from({ length: 10 }, () => ({ wch: 18 }))];
+      XLSX.utils.book_append_sheet(wb, fixedAssetsWs, "Anexo A");
+    }
+    if (annexes.allowances.length > 0) {
+      const allowanceData = [...annexHeader("ANEXO E - PREVISIONES"), ["Rubro / Cuenta", "Saldo al inicio", "Aumentos", "Disminuciones", "Saldo al cierre"]];
+      annexes.allowances.forEach(section => {
+        allowanceData.push([section.title.toUpperCase()]);
+        section.rows.forEach(r => allowanceData.push([`  ${r.name}`, r.opening, r.additions, r.disposals, r.closing]));
+        allowanceData.push([`Total ${section.title}`, section.opening, section.additions, section.disposals, section.closing], []);
+      });
+      const allowancesWs = XLSX.utils.aoa_to_sheet(allowanceData);
+      allowancesWs['!cols'] = [{ wch: 45 }, { wch: 18 }, { wch: 18 }, { wch: 18 }, { wch: 18 }];
+      XLSX.utils.book_append_sheet(wb, allowancesWs, "Anexo E");
+    }
+    if (annexes.costOfSales) {
+      const cost = annexes.costOfSales;
+      const costWs = XLSX.utils.aoa_to_sheet([
+        ...annexHeader("ANEXO F - COSTO DE MERCADERÍAS VENDIDAS"),
+        ["Existencia al inicio", cost.openingInventory],
+        ["Compras del ejercicio", cost.purchases],
+        ["Gastos imputados al costo (Anexo H)", cost.productionCosts],
+        ["Existencia al cierre", -cost.closingInventory],
+        ["COSTO DE MERCADERÍAS VENDIDAS", cost.costOfSales],
+        [],
+        ["Costo de ventas registrado", cost.booked],
+        ...(cost.purchasesDerived ? [["Compras deducidas del costo registrado"]] : [])
+      ]);
+      costWs['!cols'] = [{ wch: 45 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(wb, costWs, "Anexo F");
+    }
+
+    // 10. Anexo G: foreign currency assets and liabilities
+    if (annexG.length > 0) {
+      const annexData: (string | number)[][] = [
+        ["ANEXO G - ACTIVOS Y PASIVOS EN MONEDA EXTRANJERA", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        [],
+        ["Rubro / Cuenta", "Moneda", "Monto en moneda extranjera", "Cambio vigente", "Monto en pesos", ...(hasPrior ? [priorColumnLabel] : [])]
+      ];
+      annexG.forEach(section => {
+        annexData.push([section.title]);
+        section.rubros.forEach(rubro => {
+          annexData.push([rubro.name]);
+          rubro.rows.forEach(row => annexData.push([
+            `  ${row.account.name}`, row.currency, row.originalAmount ?? "", row.rate ?? "", row.amount,
+            ...(hasPrior ? [row.prior ?? 0] : [])
+          ]));
+        });
+        annexData.push([`TOTAL ${section.title}`, "", "", "", section.total, ...(hasPrior ? [section.priorTotal ?? 0] : [])], []);
+      });
+      const annexWs = XLSX.utils.aoa_to_sheet(annexData);
+      annexWs['!cols'] = [{ wch: 45 }, { wch: 10 }, { wch: 22 }, { wch: 14 }, { wch: 20 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(wb, annexWs, "Anexo G");
+    }
+
+    // 11. Anexo H: expenses by function
+    if (hasExpensesAnnex(annexes.expenses)) {
+      const reported = annexes.expenses.rows.filter(r => r.fn !== 'EXCLUDED');
+      const expensesWs = XLSX.utils.aoa_to_sheet([
+        ...annexHeader("ANEXO H - GASTOS (ART. 64 INC. B LEY 19.550)"),
+        ["Rubro", "Total", ...EXPENSE_FUNCTIONS.map(fn => EXPENSE_FUNCTION_LABELS[fn]), ...(hasPrior ? [priorColumnLabel] : [])],
+        ...reported.map(r => [
+          r.name, r.amount, ...EXPENSE_FUNCTIONS.map(fn => fn === r.fn ? r.amount : ""),
+          ...(hasPrior ? [r.prior ?? 0] : [])
+        ]),
+        [
+          "TOTAL", annexes.expenses.total, ...EXPENSE_FUNCTIONS.map(fn => annexes.expenses.totals[fn]),
+          ...(hasPrior ? [annexes.expenses.priorTotal ?? 0] : [])
+        ]
+      ]);
+      expensesWs['!cols'] = [{ wch: 40 }, ...Array.from({ length: 6 }, () => ({ wch: 20 }))];
+      XLSX.utils.book_append_sheet(wb, expensesWs, "Anexo H");
+    }
+
+    // 12. Asientos de ajuste and the worksheet they lead to
+    if (adjustingEntries.length > 0) {
+      const entryData: (string | number)[][] = [
+        ["ASIENTOS DE AJUSTE", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        [],
+        ["N°", "Fecha", "Descripción", "Referencia", "Cuenta", "Debe", "Haber"]
+      ];
+      const accountByKey = new Map<string, AccountLine>(getDetailLines(accounts).map(acc => [lineKey(acc), acc]));
+      [...adjustingEntries].sort((a, b) => a.number - b.number).forEach(entry => {
+        entry.lines.forEach((line, i) => {
+          const account = accountByKey.get(line.accountKey);
+          entryData.push([
+            i === 0 ? entry.number : "", i === 0 ? formatClosingDate(entry.date) : "",
+            i === 0 ? entry.description : "", i === 0 ? entry.reference : "",
+            account ? accountLabel(account) : line.accountKey,
+            line.debit || "", line.credit || ""
+          ]);
+        });
+        const totals = entryTotals(entry);
+        entryData.push(["", "", "", "", "Total del asiento", totals.debit, totals.credit], []);
+      });
+      const entriesWs = XLSX.utils.aoa_to_sheet(entryData);
+      entriesWs['!cols'] = [{ wch: 6 }, { wch: 12 }, { wch: 40 }, { wch: 16 }, { wch: 40 }, { wch: 18 }, { wch: 18 }];
+      XLSX.utils.book_append_sheet(wb, entriesWs, "Asientos de Ajuste");
+
+      const sheetTotals = worksheetTotals(worksheet);
+      const worksheetWs = XLSX.utils.aoa_to_sheet([
+        ["HOJA DE TRABAJO", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        [],
+        ["", "", "Saldos según balance", "", "Ajustes", "", "Saldos ajustados", ""],
+        ["Código", "Cuenta", "Deudor", "Acreedor", "Debe", "Haber", "Deudor", "Acreedor"],
+        ...worksheet.map(r => [
+          r.account.code, r.account.name,
+          Math.max(r.balance, 0), Math.max(-r.balance, 0), r.adjustmentDebit, r.adjustmentCredit,
+          Math.max(r.adjusted, 0), Math.max(-r.adjusted, 0)
+        ]),
+        [
+          "", "TOTALES", sheetTotals.debitBefore, sheetTotals.creditBefore, sheetTotals.adjustmentDebit,
+          sheetTotals.adjustmentCredit, sheetTotals.debitAfter, sheetTotals.creditAfter
+        ]
+      ]);
+      worksheetWs['!cols'] = [{ wch: 14 }, { wch: 40 }, ...Array.from({ length: 6 }, () => ({ wch: 18 }))];
+      XLSX.utils.book_append_sheet(wb, worksheetWs, "Hoja de Trabajo");
+    }
+
+    // 13. Registro de cambios manuales del ejercicio
+    if (periodChanges.length > 0) {
+      const changesWs = XLSX.utils.aoa_to_sheet([
+        ["REGISTRO DE CAMBIOS MANUALES", client.name],
+        ["FECHA DE CIERRE", reportDate],
+        [],
+        CHANGE_LOG_COLUMNS,
+        ...changeLogRows(periodChanges)
+      ]);
+      changesWs['!cols'] = [{ wch: 20 }, { wch: 20 }, { wch: 40 }, { wch: 14 }, { wch: 12 }, { wch: 30 }, { wch: 30 }, { wch: 50 }];
+      XLSX.utils.book_append_sheet(wb, changesWs, "Registro de Cambios");
+    }
+
+    XLSX.writeFile(wb, `AuditAI_${client.name}_${activePeriod?.closingDate || new Date().toISOString().split('T')[0]}.xlsx`);
   };
 
   const exportToPDF = () => {
@@ -349,46 +1099,538 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
     doc.setFontSize(16);
     doc.text(`Balance General - ${client.name}`, 14, 20);
     doc.setFontSize(10);
-    doc.text(`Fecha: ${new Date().toLocaleDateString()}`, 14, 28);
+    doc.text(`Fecha de cierre: ${reportDate}${activePeriod ? ` (${activePeriod.label})` : ''}${canRestate ? ` - ${valuationLabel}` : ''}`, 14, 28);
     
     // Prepare data flat list but structured
     const body: any[] = [];
+    const colCount = priorFinancials ? 3 : 2;
+    // Stored balance sheet amounts show on the natural side of their chapter (type); other figures as they come
+    const amountCells = (current: number, prior: number | null, styles: any = {}, type?: AccountType) => {
+        const present = (value: number) => formatAmount(type ? naturalAmount(type, value) : value);
+        const cells: any[] = [{content: present(current), styles}];
+        if (priorFinancials) cells.push({content: prior === null ? '' : present(prior), styles});
+        return cells;
+    };
     
-    const addSection = (title: string, groups: {name: string, accounts: AccountLine[], total: number}[], total: number) => {
-        body.push([{content: title, colSpan: 2, styles: {fillColor: [220, 220, 220], fontStyle: 'bold'}}]);
-        groups.forEach(g => {
-             body.push([{content: g.name, colSpan: 2, styles: {fontStyle: 'bold', textColor: [0, 0, 100]}}]);
-             g.accounts.forEach(acc => {
-                 body.push([acc.name, Math.abs(acc.balance).toLocaleString('es-AR', {minimumFractionDigits: 2})]);
+    const addRubros = (rubros: ComparativeRubro[], type: AccountType) => {
+        rubros.forEach(g => {
+             body.push([{content: g.name, colSpan: colCount, styles: {fontStyle: 'bold', textColor: [0, 0, 100]}}]);
+             g.lines.forEach(line => {
+                 body.push([line.name, ...amountCells(line.current, line.prior, {}, type)]);
              });
              body.push([
                  {content: `TOTAL ${g.name.toUpperCase()}`, styles: {fontStyle: 'bold', halign: 'right'}},
-                 {content: Math.abs(g.total).toLocaleString('es-AR', {minimumFractionDigits: 2}), styles: {fontStyle: 'bold'}}
+                 ...amountCells(g.current, g.prior, {fontStyle: 'bold'}, type)
              ]);
         });
+    };
+
+    // Rubros come either straight (Patrimonio Neto) or split into Corriente / No Corriente; totals come on their natural side
+    const addSection = (
+        title: string,
+        type: AccountType,
+        content: ComparativeRubro[] | ComparativeTermSection[],
+        total: number,
+        priorTotal?: number,
+        isTermSplit = false,
+        extraRows: any[][] = []
+    ) => {
+        body.push([{content: title, colSpan: colCount, styles: {fillColor: [220, 220, 220], fontStyle: 'bold'}}]);
+        if (!isTermSplit) {
+            addRubros(content as ComparativeRubro[], type);
+        } else {
+            (content as ComparativeTermSection[]).filter(section => section.rubros.length > 0).forEach(section => {
+                body.push([{content: section.title, colSpan: colCount, styles: {fontStyle: 'bold', fillColor: [240, 240, 240]}}]);
+                addRubros(section.rubros, type);
+                const subtotalStyles = {fontStyle: 'bold', fillColor: [240, 240, 240]};
+                body.push([
+                    {content: `TOTAL ${section.title}`, styles: {...subtotalStyles, halign: 'right'}},
+                    ...amountCells(section.current, section.prior, subtotalStyles, type)
+                ]);
+            });
+        }
+        body.push(...extraRows);
+        const totalStyles = {fillColor: [50, 50, 50], textColor: [255,255,255], fontStyle: 'bold'};
         body.push([
-            {content: `TOTAL ${title}`, styles: {fillColor: [50, 50, 50], textColor: [255,255,255], fontStyle: 'bold', halign: 'right'}},
-            {content: Math.abs(total).toLocaleString('es-AR', {minimumFractionDigits: 2}), styles: {fillColor: [50, 50, 50], textColor: [255,255,255], fontStyle: 'bold'}}
+            {content: `TOTAL ${title}`, styles: {...totalStyles, halign: 'right'}},
+            ...amountCells(total, priorTotal ?? null, totalStyles)
         ]);
-        body.push([{content: '', colSpan: 2, styles: {minCellHeight: 5}}]); // Spacer
+        body.push([{content: '', colSpan: colCount, styles: {minCellHeight: 5}}]); // Spacer
     };
 
-    addSection('ACTIVO', groupedFinancials.assets, groupedFinancials.assetsTotal);
-    addSection('PASIVO', groupedFinancials.liabilities, groupedFinancials.liabilitiesTotal);
-    addSection('PATRIMONIO NETO', groupedFinancials.equity, groupedFinancials.equityTotal);
+    addSection(
+        'ACTIVO', AccountType.ASSET, comparative.assets,
+        naturalAmount(AccountType.ASSET, groupedFinancials.assetsTotal),
+        priorFinancials ? naturalAmount(AccountType.ASSET, priorFinancials.assetsTotal) : undefined, true
+    );
+    addSection(
+        'PASIVO', AccountType.LIABILITY, comparative.liabilities,
+        naturalAmount(AccountType.LIABILITY, groupedFinancials.liabilitiesTotal),
+        priorFinancials ? naturalAmount(AccountType.LIABILITY, priorFinancials.liabilitiesTotal) : undefined, true
+    );
+    // The result of the period closes the Patrimonio Neto, as on screen and in the Excel
+    addSection(
+        'PATRIMONIO NETO', AccountType.EQUITY, comparative.equity,
+        equityWithResult(groupedFinancials), priorFinancials ? equityWithResult(priorFinancials) : undefined, false,
+        [
+            [{content: 'Resultado del Ejercicio', colSpan: colCount, styles: {fontStyle: 'bold', textColor: [0, 0, 100]}}],
+            ['Ganancia/Pérdida del Periodo', ...amountCells(groupedFinancials.netResult, priorFinancials ? priorFinancials.netResult : null)]
+        ]
+    );
+
+    const columns = [{header: 'Concepto'}, {header: currentColumnLabel}];
+    if (priorFinancials) columns.push({header: priorColumnLabel});
 
     autoTable(doc, {
       body: body,
       startY: 35,
-      columns: [{header: 'Concepto'}, {header: 'Importe'}],
+      columns,
       columnStyles: {
-        1: { halign: 'right' }
+        1: { halign: 'right' },
+        2: { halign: 'right' }
       }
     });
     
-    doc.save(`Reporte_CNV_${client.name}.pdf`);
+    // Estado de Resultados
+    doc.addPage();
+    doc.setFontSize(16);
+    doc.text(`Estado de Resultados - ${client.name}`, 14, 20);
+    doc.setFontSize(10);
+    doc.text(`Ejercicio cerrado el ${reportDate}`, 14, 28);
+
+    // Income statement keeps signs: expenses and losses show negative
+    autoTable(doc, {
+      body: incomeStatement.map(line => {
+        const styles = line.isSubtotal ? {fontStyle: 'bold', fillColor: [240, 240, 240]} : {};
+        return [{content: line.label, styles}, ...amountCells(line.current, line.prior, styles)];
+      }),
+      startY: 35,
+      columns,
+      columnStyles: {
+        1: { halign: 'right' },
+        2: { halign: 'right' }
+      }
+    });
+
+    // Estado de Evolución del Patrimonio Neto (landscape, one column per equity rubro)
+    doc.addPage('a4', 'landscape');
+    doc.setFontSize(16);
+    doc.text(`Estado de Evolución del Patrimonio Neto - ${client.name}`, 14, 20);
+    doc.setFontSize(10);
+    doc.text(`Ejercicio cerrado el ${reportDate}`, 14, 28);
+
+    autoTable(doc, {
+      head: [['Concepto', ...equityChanges.columns]],
+      body: equityChanges.rows.map(row => {
+        const styles = row.isTotal ? {fontStyle: 'bold', fillColor: [240, 240, 240]} : {};
+        return [
+          {content: row.label, styles},
+          ...row.values.map(v => ({content: formatAmount(v), styles: {...styles, halign: 'right'}}))
+        ];
+      }),
+      startY: 35
+    });
+
+    if (!equityChanges.hasOpeningBalances) {
+      doc.setFontSize(8);
+      doc.text('Sin ejercicio anterior cargado: los saldos iniciales se informan en cero.', 14, (doc as any).lastAutoTable.finalY + 8);
+    }
+
+    // Estado de Flujo de Efectivo
+    if (cashFlow) {
+      doc.addPage('a4', 'portrait');
+      doc.setFontSize(16);
+      doc.text(`Estado de Flujo de Efectivo - ${client.name}`, 14, 20);
+      doc.setFontSize(10);
+      doc.text(`Ejercicio cerrado el ${reportDate} - Método indirecto`, 14, 28);
+
+      const flowStyles = {fontStyle: 'bold', fillColor: [240, 240, 240]};
+      const flowAmount = (value: number, styles: any = {}) => ({content: formatAmount(value), styles: {...styles, halign: 'right'}});
+      const cashFlowBody: any[] = [[{content: 'Efectivo al inicio del ejercicio', styles: {fontStyle: 'bold'}}, flowAmount(cashFlow.openingCash, {fontStyle: 'bold'})]];
+      cashFlow.sections.forEach(section => {
+        cashFlowBody.push([{content: CASH_FLOW_ACTIVITY_LABELS[section.activity].toUpperCase(), colSpan: 2, styles: {fontStyle: 'bold'}}]);
+        section.lines.forEach(line => cashFlowBody.push([`   ${line.label}`, flowAmount(line.amount)]));
+        cashFlowBody.push([
+          {content: `Flujo neto de ${CASH_FLOW_ACTIVITY_LABELS[section.activity].toLowerCase()}`, styles: flowStyles},
+          flowAmount(section.total, flowStyles)
+        ]);
+      });
+      cashFlowBody.push(
+        [{content: 'Variación neta del efectivo', styles: flowStyles}, flowAmount(cashFlow.variation, flowStyles)],
+        [{content: 'Efectivo al cierre del ejercicio', styles: {fontStyle: 'bold'}}, flowAmount(cashFlow.closingCash, {fontStyle: 'bold'})]
+      );
+
+      autoTable(doc, {
+        body: cashFlowBody,
+        startY: 35,
+        styles: { fontSize: 9 },
+        columnStyles: { 1: { cellWidth: 50 } }
+      });
+    }
+
+    // Indicadores
+    doc.addPage('a4', 'portrait');
+    doc.setFontSize(16);
+    doc.text(`Indicadores - ${client.name}`, 14, 20);
+    doc.setFontSize(10);
+    doc.text(`Ejercicio cerrado el ${reportDate}`, 14, 28);
+
+    const ratioBody: any[] = [];
+    (Object.keys(RATIO_GROUP_LABELS) as (keyof typeof RATIO_GROUP_LABELS)[]).forEach(group => {
+      ratioBody.push([{content: RATIO_GROUP_LABELS[group], colSpan: colCount + 1, styles: {fillColor: [220, 220, 220], fontStyle: 'bold'}}]);
+      ratios.filter(r => r.definition.group === group).forEach(r => {
+        const cells: any[] = [r.definition.label, r.definition.formula, formatRatio(r.current, r.definition.format)];
+        if (priorFinancials) cells.push(formatRatio(r.prior, r.definition.format));
+        ratioBody.push(cells);
+      });
+    });
+
+    autoTable(doc, {
+      head: [['Indicador', 'Fórmula', currentColumnLabel, ...(priorFinancials ? [priorColumnLabel] : [])]],
+      body: ratioBody,
+      startY: 35,
+      styles: { fontSize: 8 },
+      columnStyles: {
+        2: { halign: 'right' },
+        3: { halign: 'right' }
+      }
+    });
+
+    // Ajuste por inflación, by rubro
+    if (canRestate) {
+      doc.addPage('a4', 'portrait');
+      doc.setFontSize(16);
+      doc.text(`Ajuste por Inflación (RT 6) - ${client.name}`, 14, 20);
+      doc.setFontSize(10);
+      doc.text(`Ejercicio cerrado el ${reportDate} - Índice de cierre ${restatement!.closingIndex!.toLocaleString('es-AR')}`, 14, 28);
+
+      const inflationBody: any[] = summarizeRestatement(restatement!).map(r => [
+        r.type, r.category,
+        {content: formatAmount(r.historical), styles: {halign: 'right'}},
+        {content: formatAmount(r.restated), styles: {halign: 'right'}},
+        {content: formatAmount(r.restated - r.historical), styles: {halign: 'right'}}
+      ]);
+      const recpamStyles = {fontStyle: 'bold', fillColor: [240, 240, 240]};
+      inflationBody.push([
+        {content: `RECPAM del ejercicio (${restatement!.recpam < 0 ? 'pérdida' : 'ganancia'})`, colSpan: 4, styles: recpamStyles},
+        {content: formatAmount(restatement!.recpam), styles: {...recpamStyles, halign: 'right'}}
+      ]);
+
+      autoTable(doc, {
+        head: [['Capítulo', 'Rubro', 'Histórico', 'Reexpresado', 'Ajuste']],
+        body: inflationBody,
+        startY: 35,
+        styles: { fontSize: 8 }
+      });
+
+      if (restatement!.issueCount > 0) {
+        doc.setFontSize(8);
+        doc.text(`${restatement!.issueCount} partidas no monetarias quedaron en valores históricos por falta de fecha de origen o de índice.`, 14, (doc as any).lastAutoTable.finalY + 8);
+      }
+    }
+
+    // Anexos A, E and F; G and H follow
+    const annexPage = (title: string, orientation: 'portrait' | 'landscape' = 'portrait') => {
+      doc.addPage('a4', orientation);
+      doc.setFontSize(16);
+      doc.text(title, 14, 20);
+      doc.setFontSize(10);
+      doc.text(`${client.name} - Ejercicio cerrado el ${reportDate}`, 14, 28);
+    };
+    const amountCell = (value: number) => ({content: formatAmount(value), styles: {halign: 'right'}});
+    const annexTotalStyles = {fontStyle: 'bold', fillColor: [240, 240, 240]};
+    const totalCell = (value: number) => ({content: formatAmount(value), styles: {...annexTotalStyles, halign: 'right'}});
+
+    if (annexes.fixedAssets.length > 0) {
+      annexPage('Anexo A - Bienes de Uso', 'landscape');
+      const rows = annexes.fixedAssets;
+      const sum = (pick: (r: typeof rows[number]) => number) => rows.reduce((s, r) => s + pick(r), 0);
+      autoTable(doc, {
+        head: [
+          [
+            {content: 'Cuenta', rowSpan: 2}, {content: 'Valores de origen', colSpan: 4, styles: {halign: 'center'}},
+            {content: 'Amortizaciones', colSpan: 4, styles: {halign: 'center'}}, {content: 'Neto resultante', rowSpan: 2},
+            ...(priorFinancials ? [{content: 'Neto ej. anterior', rowSpan: 2}] : [])
+          ],
+          ['Al inicio', 'Altas', 'Bajas', 'Al cierre', 'Acum. al inicio', 'Bajas', 'Del ejercicio', 'Acum. al cierre']
+        ],
+        body: [
+          ...rows.map(r => [
+            r.name, amountCell(r.opening), amountCell(r.additions), amountCell(r.disposals), amountCell(r.closing),
+            amountCell(r.depreciationOpening), amountCell(r.depreciationDisposals), amountCell(r.depreciationYear),
+            amountCell(r.depreciationClosing), amountCell(r.net), ...(priorFinancials ? [amountCell(r.priorNet ?? 0)] : [])
+          ]),
+          [
+            {content: 'TOTAL', styles: annexTotalStyles}, totalCell(sum(r => r.opening)), totalCell(sum(r => r.additions)),
+            totalCell(sum(r => r.disposals)), totalCell(sum(r => r.closing)), totalCell(sum(r => r.depreciationOpening)),
+            totalCell(sum(r => r.depreciationDisposals)), totalCell(sum(r => r.depreciationYear)), totalCell(sum(r => r.depreciationClosing)),
+            totalCell(sum(r => r.net)), ...(priorFinancials ? [totalCell(sum(r => r.priorNet ?? 0))] : [])
+          ]
+        ] as any[],
+        startY: 35,
+        styles: { fontSize: 7 }
+      });
+    }
+
+    if (annexes.allowances.length > 0) {
+      annexPage('Anexo E - Previsiones');
+      const allowanceBody: any[] = [];
+      annexes.allowances.forEach(section => {
+        allowanceBody.push([{content: section.title.toUpperCase(), colSpan: 5, styles: {fontStyle: 'bold'}}]);
+        section.rows.forEach(r => allowanceBody.push([
+          `   ${r.name}`, amountCell(r.opening), amountCell(r.additions), amountCell(r.disposals), amountCell(r.closing)
+        ]));
+        allowanceBody.push([
+          {content: `Total ${section.title}`, styles: annexTotalStyles},
+          totalCell(section.opening), totalCell(section.additions), totalCell(section.disposals), totalCell(section.closing)
+        ]);
+      });
+      autoTable(doc, {
+        head: [['Rubro / Cuenta', 'Saldo al inicio', 'Aumentos', 'Disminuciones', 'Saldo al cierre']],
+        body: allowanceBody,
+        startY: 35,
+        styles: { fontSize: 8 }
+      });
+    }
+
+    if (annexes.costOfSales) {
+      const cost = annexes.costOfSales;
+      annexPage('Anexo F - Costo de Mercaderías Vendidas');
+      autoTable(doc, {
+        body: [
+          ['Existencia al inicio', amountCell(cost.openingInventory)],
+          ['Compras del ejercicio', amountCell(cost.purchases)],
+          ['Gastos imputados al costo (Anexo H)', amountCell(cost.productionCosts)],
+          ['Existencia al cierre', {content: `(${formatAmount(cost.closingInventory)})`, styles: {halign: 'right'}}],
+          [{content: 'Costo de Mercaderías Vendidas', styles: annexTotalStyles}, totalCell(cost.costOfSales)]
+        ] as any[],
+        startY: 35,
+        styles: { fontSize: 9 },
+        columnStyles: { 1: { cellWidth: 50 } }
+      });
+    }
+
+    // Anexo G: foreign currency assets and liabilities
+    if (annexG.length > 0) {
+      annexPage('Anexo G - Activos y Pasivos en Moneda Extranjera');
+
+      const right = (value: number | null, digits = 2) => ({
+        content: value === null ? '-' : value.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: digits }),
+        styles: {halign: 'right'}
+      });
+      const totalStyles = {fontStyle: 'bold', fillColor: [240, 240, 240]};
+      const annexBody: any[] = [];
+      annexG.forEach(section => {
+        annexBody.push([{content: section.title, colSpan: priorFinancials ? 5 : 4, styles: {fontStyle: 'bold'}}]);
+        section.rubros.forEach(rubro => {
+          annexBody.push([{content: rubro.name, colSpan: priorFinancials ? 5 : 4, styles: {fontStyle: 'bold', textColor: [80, 80, 80]}}]);
+          rubro.rows.forEach(row => annexBody.push([
+            `   ${row.account.name}`,
+            {content: `${row.currency} ${row.originalAmount === null ? '-' : formatAmount(row.originalAmount)}`, styles: {halign: 'right'}},
+            right(row.rate, 4),
+            right(row.amount),
+            ...(priorFinancials ? [right(row.prior ?? 0)] : [])
+          ]));
+        });
+        annexBody.push([
+          {content: `TOTAL ${section.title}`, colSpan: 3, styles: totalStyles},
+          {content: formatAmount(section.total), styles: {...totalStyles, halign: 'right'}},
+          ...(priorFinancials ? [{content: formatAmount(section.priorTotal ?? 0), styles: {...totalStyles, halign: 'right'}}] : [])
+        ]);
+      });
+
+      autoTable(doc, {
+        head: [['Rubro / Cuenta', 'Moneda y monto', 'Cambio vigente', 'Monto en pesos', ...(priorFinancials ? ['Ejercicio anterior'] : [])]],
+        body: annexBody,
+        startY: 35,
+        styles: { fontSize: 8 }
+      });
+    }
+
+    // Anexo H: expenses by function
+    if (hasExpensesAnnex(annexes.expenses)) {
+      annexPage('Anexo H - Gastos (art. 64 inc. b Ley 19.550)', 'landscape');
+      const expenses = annexes.expenses;
+      autoTable(doc, {
+        head: [['Rubro', 'Total', ...EXPENSE_FUNCTIONS.map(fn => EXPENSE_FUNCTION_LABELS[fn]), ...(priorFinancials ? [priorColumnLabel] : [])]],
+        body: [
+          ...expenses.rows.filter(r => r.fn !== 'EXCLUDED').map(r => [
+            r.name, amountCell(r.amount),
+            ...EXPENSE_FUNCTIONS.map(fn => fn === r.fn ? amountCell(r.amount) : ''),
+            ...(priorFinancials ? [amountCell(r.prior ?? 0)] : [])
+          ]),
+          [
+            {content: 'TOTAL', styles: annexTotalStyles}, totalCell(expenses.total),
+            ...EXPENSE_FUNCTIONS.map(fn => totalCell(expenses.totals[fn])),
+            ...(priorFinancials ? [totalCell(expenses.priorTotal ?? 0)] : [])
+          ]
+        ] as any[],
+        startY: 35,
+        styles: { fontSize: 8 }
+      });
+    }
+
+    // Asientos de ajuste and the worksheet, so the statements can be traced back to the imported balance
+    if (adjustingEntries.length > 0) {
+      annexPage('Asientos de Ajuste');
+      const labelByKey = new Map<string, string>(getDetailLines(accounts).map(acc => [lineKey(acc), accountLabel(acc)]));
+      const entryBody: any[] = [];
+      [...adjustingEntries].sort((a, b) => a.number - b.number).forEach(entry => {
+        entryBody.push([{content: `N° ${entry.number} - ${formatClosingDate(entry.date)} - ${entry.description} (Ref.: ${entry.reference})`, colSpan: 3, styles: {fontStyle: 'bold'}}]);
+        entry.lines.forEach(line => entryBody.push([
+          `${line.credit ? '      a ' : '   '}${labelByKey.get(line.accountKey) || line.accountKey}`,
+          line.debit ? amountCell(line.debit) : '',
+          line.credit ? amountCell(line.credit) : ''
+        ]));
+      });
+      autoTable(doc, {
+        head: [['Cuenta', 'Debe', 'Haber']],
+        body: entryBody,
+        startY: 35,
+        styles: { fontSize: 8 }
+      });
+
+      annexPage('Hoja de Trabajo', 'landscape');
+      const sheetTotals = worksheetTotals(worksheet);
+      const optionalCell = (value: number) => value ? amountCell(value) : '';
+      autoTable(doc, {
+        head: [
+          [
+            {content: 'Código', rowSpan: 2}, {content: 'Cuenta', rowSpan: 2},
+            {content: 'Saldos según balance', colSpan: 2, styles: {halign: 'center'}},
+            {content: 'Ajustes', colSpan: 2, styles: {halign: 'center'}},
+            {content: 'Saldos ajustados', colSpan: 2, styles: {halign: 'center'}}
+          ],
+          ['Deudor', 'Acreedor', 'Debe', 'Haber', 'Deudor', 'Acreedor']
+        ] as any[],
+        body: [
+          ...worksheet.map(r => [
+            r.account.code || '', r.account.name,
+            optionalCell(Math.max(r.balance, 0)), optionalCell(Math.max(-r.balance, 0)),
+            optionalCell(r.adjustmentDebit), optionalCell(r.adjustmentCredit),
+            optionalCell(Math.max(r.adjusted, 0)), optionalCell(Math.max(-r.adjusted, 0))
+          ]),
+          [
+            {content: 'TOTALES', colSpan: 2, styles: annexTotalStyles},
+            totalCell(sheetTotals.debitBefore), totalCell(sheetTotals.creditBefore),
+            totalCell(sheetTotals.adjustmentDebit), totalCell(sheetTotals.adjustmentCredit),
+            totalCell(sheetTotals.debitAfter), totalCell(sheetTotals.creditAfter)
+          ]
+        ] as any[],
+        startY: 35,
+        styles: { fontSize: 7 }
+      });
+    }
+
+    // Registro de cambios manuales
+    if (periodChanges.length > 0) {
+      doc.addPage('a4', 'landscape');
+      doc.setFontSize(16);
+      doc.text(`Registro de Cambios Manuales - ${client.name}`, 14, 20);
+      doc.setFontSize(10);
+      doc.text(`Ejercicio cerrado el ${reportDate}`, 14, 28);
+
+      autoTable(doc, {
+        head: [CHANGE_LOG_COLUMNS],
+        body: changeLogRows(periodChanges),
+        startY: 35,
+        styles: { fontSize: 7 }
+      });
+    }
+
+    doc.save(`Reporte_CNV_${client.name}${activePeriod ? `_${activePeriod.closingDate}` : ''}.pdf`);
+  };
+
+  const renderReviewBadge = (acc: AccountLine) => {
+    const review = activePeriod?.lineReviews?.[lineKey(acc)] || PENDING_REVIEW;
+    const details = [
+      review.note,
+      review.preparedBy && `Preparó: ${formatSignOff(review.preparedBy)}`,
+      review.reviewedBy && `Revisó: ${formatSignOff(review.reviewedBy)}`
+    ].filter(Boolean).join('\n');
+    return (
+      <button
+        onClick={() => openLineReview(acc)}
+        className={`w-full flex items-center justify-center gap-1 text-xs font-medium px-2 py-1 rounded border ${REVIEW_STATUS_STYLES[review.status]}`}
+        title={details || 'Registrar revisión'}
+      >
+        {REVIEW_STATUS_LABELS[review.status]}
+        {review.note && <MessageSquare size={12} />}
+      </button>
+    );
   };
 
+  // --- Report Rendering ---
+  const renderRubros = (rubros: ComparativeRubro[], type: AccountType) => rubros.map((rubro) => (
+      <div key={rubro.name}>
+          <h4 className="font-bold text-slate-800 uppercase border-b border-slate-300 mb-2">
+              {rubro.name}
+          </h4>
+          <table className="w-full text-sm mb-2">
+              <tbody>
+                  {rubro.lines.map(line => (
+                      <tr key={line.key} className="border-b border-dashed border-slate-100">
+                          <td className="py-1 pl-2 text-slate-600">{line.name}</td>
+                          <td className="py-1 text-right font-mono text-slate-500 w-40">
+                              {formatAmount(naturalAmount(type, line.current))}
+                          </td>
+                          {priorFinancials && (
+                              <td className="py-1 text-right font-mono text-slate-400 w-40">
+                                  {line.prior === null ? '-' : formatAmount(naturalAmount(type, line.prior))}
+                              </td>
+                          )}
+                      </tr>
+                  ))}
+                  <tr className="font-bold text-slate-800 bg-slate-50">
+                      <td className="py-1 pl-2 text-right uppercase text-xs pt-2">Total {rubro.name}</td>
+                      <td className="py-1 text-right font-mono pt-2 w-40">
+                          {formatAmount(naturalAmount(type, rubro.current))}
+                      </td>
+                      {priorFinancials && (
+                          <td className="py-1 text-right font-mono pt-2 w-40">
+                              {rubro.prior === null ? '-' : formatAmount(naturalAmount(type, rubro.prior))}
+                          </td>
+                      )}
+                  </tr>
+              </tbody>
+          </table>
+      </div>
+  ));
+
+  const renderTermSections = (sections: ComparativeTermSection[], type: AccountType) => sections
+      .filter(section => section.rubros.length > 0)
+      .map(section => (
+          <div key={section.title} className="space-y-6">
+              <h4 className="text-sm font-bold text-slate-600 uppercase tracking-wider">{section.title}</h4>
+              {renderRubros(section.rubros, type)}
+              <table className="w-full text-sm">
+                  <tbody>
+                      <tr className="font-bold text-slate-800 bg-slate-100 border-t border-slate-400">
+                          <td className="py-1.5 pl-2 text-right uppercase text-xs">Total {section.title}</td>
+                          <td className="py-1.5 text-right font-mono w-40">{formatAmount(naturalAmount(type, section.current))}</td>
+                          {priorFinancials && (
+                              <td className="py-1.5 text-right font-mono w-40">
+                                  {section.prior === null ? '-' : formatAmount(naturalAmount(type, section.prior))}
+                              </td>
+                          )}
+                      </tr>
+                  </tbody>
+              </table>
+          </div>
+      ));
+
+  const renderSectionTotal = (label: string, current: number, prior?: number) => (
+      <div className="mt-4 flex justify-between items-center bg-slate-100 p-3 border-t-2 border-slate-800 font-bold text-lg">
+          <span>{label}</span>
+          <div className="flex gap-4">
+              <span>$ {formatAmount(current)}</span>
+              {prior !== undefined && (
+                  <span className="text-slate-500">$ {formatAmount(prior)}</span>
+              )}
+          </div>
+      </div>
+  );
+
   return (
     <div className="flex flex-col h-full">
       {/* Hidden File Inputs (Always Mounted) */}
@@ -420,6 +1662,16 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
         </div>
         
         <div className="flex items-center gap-3">
+
+          <PeriodSelector
+            periods={client.periods}
+            activePeriodId={activePeriodId}
+            onSelect={handleSelectPeriod}
+            onCreate={handleCreatePeriod}
+            onStatusChange={handlePeriodStatusChange}
+          />
+
+          <div className="h-8 w-px bg-slate-200 mx-1"></div>
           
           {/* Global Regulation Button - High Visibility */}
           <button 
@@ -438,7 +1690,7 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
           <div className="h-8 w-px bg-slate-200 mx-1"></div>
 
           <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
-            {(['UPLOAD', 'CLASSIFICATION', 'REPORTS', 'EXPORT'] as WorkbenchTab[]).map(t => (
+            {(['UPLOAD', 'CLASSIFICATION', 'ADJUSTMENTS', 'REPORTS', 'ANALYSIS', 'DOCUMENTS', 'HISTORY', 'CHANGES', 'EXPORT'] as WorkbenchTab[]).map(t => (
               <button
                   key={t}
                   onClick={() => setTab(t)}
@@ -446,7 +1698,12 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
               >
                   {t === 'UPLOAD' && 'Importar'}
                   {t === 'CLASSIFICATION' && 'Edición'}
+                  {t === 'ADJUSTMENTS' && 'Ajustes'}
                   {t === 'REPORTS' && 'Reportes'}
+                  {t === 'ANALYSIS' && 'Análisis'}
+                  {t === 'DOCUMENTS' && 'Documentos'}
+                  {t === 'HISTORY' && 'Historial'}
+                  {t === 'CHANGES' && 'Cambios'}
                   {t === 'EXPORT' && 'Exportar'}
               </button>
             ))}
@@ -457,6 +1714,53 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
       {/* Main Workspace Area */}
       <div className="flex-1 bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden flex flex-col relative mt-4">
         
+        {pendingImport && (
+          <ColumnMappingReview
+            fileName={pendingImport.sourceDocument.name}
+            sheetNames={pendingImport.workbook.SheetNames}
+            sheetName={pendingImport.sheetName}
+            rows={pendingImport.rows}
+            mapping={pendingImport.mapping}
+            source={pendingImport.source}
+            detectionError={pendingImport.detectionError}
+            onSheetChange={handleImportSheetChange}
+            onChange={mapping => setPendingImport({ ...pendingImport, mapping, source: 'MANUAL' })}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
+        {showModelComparison && (
+          <ModelComparison
+            accounts={accounts}
+            library={modelLibrary}
+            current={activeModel}
+            clientRules={client.customRegulations}
+            onAdopt={handleAdoptModel}
+            onClose={() => setShowModelComparison(false)}
+          />
+        )}
+
+        {reviewTarget && (
+          <ReviewDialog
+            title={reviewTarget.title}
+            subtitle={reviewTarget.subtitle}
+            review={reviewOf(reviewTarget)}
+            defaultUser={currentUser}
+            onSave={handleSaveReview}
+            onCancel={() => setReviewTarget(null)}
+          />
+        )}
+
+        {pendingChanges && (
+          <ChangeReviewDialog
+            changes={pendingChanges}
+            defaultUser={currentUser}
+            onConfirm={(user, note) => commitSave(pendingChanges, user, note)}
+            onCancel={() => setPendingChanges(null)}
+          />
+        )}
+
         {loading && (
           <div className="absolute inset-0 bg-white/80 z-50 flex flex-col items-center justify-center">
             <Loader2 className="animate-spin text-corporate-600 mb-4" size={48} />
@@ -500,36 +1804,71 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                   </div>
                   
                   <div className="flex-1">
-                      <p className="text-slate-600 mb-4 leading-relaxed">
-                          Si tu cliente requiere un Plan de Cuentas específico (CNV, Seguros, Bancos) o tienes un manual de cuentas propio, cárgalo aquí.
-                          <br/><br/>
-                          <span className="text-xs text-slate-400">
-                            Nota: Si no cargas nada aquí, se usará tu <b>Modelo Estándar Global</b> (definido en Configuración) o el predeterminado.
-                          </span>
-                      </p>
-                      
-                      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 text-sm mb-6">
-                        <h4 className="font-semibold text-slate-800 mb-2">Estado Actual:</h4>
+                      <div className="space-y-3 mb-6">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Modelo de presentación del cliente</label>
+                          <select
+                            value={client.modelRef?.modelId || ''}
+                            onChange={(e) => handleClientModelChange(e.target.value)}
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none bg-white"
+                          >
+                            <option value="">
+                              Predeterminado del estudio ({modelLibrary.models.find(m => m.id === modelLibrary.defaultModelId)?.name || '-'})
+                            </option>
+                            {modelLibrary.models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                          </select>
+                        </div>
+                        {activePeriod && (
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">Modelo del ejercicio {activePeriod.label}</label>
+                            <select
+                              value={activePeriod.modelRef?.modelId || ''}
+                              onChange={(e) => handlePeriodModelChange(e.target.value)}
+                              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none bg-white"
+                            >
+                              <option value="">Igual que el cliente</option>
+                              {modelLibrary.models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                            </select>
+                            <p className="text-xs text-slate-400 mt-1">
+                              Cada importación fija la versión del modelo con que se clasificó. Cambiar el modelo no reclasifica las cuentas:
+                              use <b>Comparar Modelos</b> en Clasificación.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 text-sm mb-6 space-y-3">
+                        <h4 className="font-semibold text-slate-800">Estado Actual:</h4>
+                        <div className="flex items-start gap-2 text-sky-700">
+                            <CheckCircle size={16} className="mt-0.5" />
+                            <div>
+                                <p className="font-bold">Modelo {describeModel(activeModel)}</p>
+                                <p className="opacity-80 text-xs mt-1">
+                                  {activePeriod?.modelRef ? 'Asignado al ejercicio.' : client.modelRef ? 'Asignado al cliente.' : 'Predeterminado del estudio.'}
+                                  {hasNewerVersion(activeModel) && ` Hay una versión más reciente (v${latestVersion(activeModel!.entry).version}).`}
+                                </p>
+                                {hasNewerVersion(activeModel) && (
+                                  <button
+                                    onClick={() => handlePeriodModelChange(activeModel!.entry.id)}
+                                    className="text-xs font-medium underline mt-1 hover:text-sky-900"
+                                  >
+                                    Usar la versión v{latestVersion(activeModel!.entry).version}
+                                  </button>
+                                )}
+                            </div>
+                        </div>
                         {client.customRegulations ? (
                            <div className="flex items-start gap-2 text-emerald-700">
                                <CheckCircle size={16} className="mt-0.5" />
                                <div>
                                  <p className="font-bold">Normativa Específica de Cliente Activa</p>
-                                 <p className="opacity-80 text-xs mt-1">Anula el modelo global.</p>
+                                 <p className="opacity-80 text-xs mt-1">Guía la clasificación dentro de los rubros del modelo.</p>
                                 </div>
                            </div>
-                        ) : globalModel ? (
-                            <div className="flex items-start gap-2 text-sky-700">
-                                <CheckCircle size={16} className="mt-0.5" />
-                                <div>
-                                    <p className="font-bold">Usando Modelo Estándar Global</p>
-                                    <p className="opacity-80 text-xs mt-1">Tu modelo personalizado por defecto.</p>
-                                </div>
-                            </div>
                         ) : (
                            <div className="flex items-start gap-2 text-slate-500">
                                <AlertCircle size={16} className="mt-0.5" />
-                               <p>Utilizando Normativa Estándar CNV (General).</p>
+                               <p>Sin normativa específica. Si el cliente tiene un manual de cuentas propio, cárguelo aquí.</p>
                            </div>
                         )}
                       </div>
@@ -558,6 +1897,100 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
               </div>
 
             </div>
+
+            {/* Client Mapping Rules */}
+            <div className="max-w-6xl mx-auto mt-8 bg-white border border-slate-200 rounded-xl p-8 shadow-sm">
+                <div className="flex items-start justify-between mb-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-900">3. Reglas de Mapeo del Cliente</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Clasifican localmente por código o nombre de cuenta antes de consultar a la IA.
+                            Tienen prioridad sobre las reglas globales de Configuración.
+                        </p>
+                    </div>
+                    <button 
+                        onClick={handleSaveMappingRules}
+                        className="flex items-center gap-2 text-corporate-700 hover:bg-corporate-50 px-3 py-1.5 rounded-lg transition-colors font-medium text-sm shrink-0"
+                    >
+                        <Save size={16} /> Guardar Reglas
+                    </button>
+                </div>
+                <MappingRulesEditor rules={mappingRules} onChange={setMappingRules} />
+            </div>
+
+            {/* Classification Memory */}
+            <div className="max-w-6xl mx-auto mt-8 bg-white border border-slate-200 rounded-xl p-8 shadow-sm">
+                <div className="flex items-center gap-2 mb-1">
+                    <History size={20} className="text-sky-600" />
+                    <h3 className="text-xl font-bold text-slate-900">4. Memoria de Clasificación</h3>
+                </div>
+                <p className="text-sm text-slate-500 mb-4">
+                    Al guardar cambios, las cuentas corregidas a mano se recuerdan por código y por nombre,
+                    y se clasifican igual en las próximas importaciones sin consultar a la IA.
+                </p>
+                {memoryEntries.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Todavía no hay correcciones memorizadas para este cliente.</p>
+                ) : (
+                    <div className="max-h-64 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+                        {memoryEntries.map(entry => (
+                            <div key={entry.key} className="flex items-center justify-between px-3 py-2 text-sm group">
+                                <div className="min-w-0">
+                                    <span className="text-xs font-mono text-slate-400 mr-2">{entry.key.startsWith('code:') ? 'Código' : 'Nombre'}</span>
+                                    <span className="text-slate-700">{entry.label}</span>
+                                </div>
+                                <div className="flex items-center gap-3 shrink-0">
+                                    <span className="text-xs text-slate-500">{entry.type} · {entry.category}</span>
+                                    <button
+                                        onClick={() => handleForgetMemoryEntry(entry.key)}
+                                        className="p-1 text-slate-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100"
+                                        title="Olvidar"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Saved Import Layouts */}
+            <div className="max-w-6xl mx-auto mt-8 bg-white border border-slate-200 rounded-xl p-8 shadow-sm">
+                <div className="flex items-center gap-2 mb-1">
+                    <FileSpreadsheet size={20} className="text-emerald-600" />
+                    <h3 className="text-xl font-bold text-slate-900">5. Formatos de Planilla Guardados</h3>
+                </div>
+                <p className="text-sm text-slate-500 mb-4">
+                    Las columnas confirmadas al importar se recuerdan por encabezado. Los próximos archivos
+                    con el mismo formato se importan sin consultar a la IA.
+                </p>
+                {(client.importMappings || []).length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Todavía no hay formatos guardados para este cliente.</p>
+                ) : (
+                    <div className="border border-slate-100 rounded-lg divide-y divide-slate-100">
+                        {(client.importMappings || []).map(saved => (
+                            <div key={saved.id} className="flex items-center justify-between px-3 py-2 text-sm group">
+                                <div className="min-w-0">
+                                    <span className="text-slate-700 font-medium mr-2">{saved.sheetName}</span>
+                                    <span className="text-xs font-mono text-slate-400 truncate">
+                                        {saved.signature.split('|').filter(Boolean).join(' · ') || `${saved.columnCount} columnas, sin encabezado`}
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-3 shrink-0">
+                                    <span className="text-xs text-slate-500">Desde fila {saved.mapping.startRow + 1} · {new Date(saved.updatedAt).toLocaleDateString('es-AR')}</span>
+                                    <button
+                                        onClick={() => handleForgetImportMapping(saved.id)}
+                                        className="p-1 text-slate-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100"
+                                        title="Olvidar formato"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
           </div>
         )}
 
@@ -573,11 +2006,50 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                  >
                    <Plus size={16} /> Agregar Cuenta
                  </button>
+                 <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+                   <button
+                     onClick={() => setTreeView(true)}
+                     className={`p-1 rounded ${treeView ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-900'}`}
+                     title="Ver como árbol de cuentas"
+                   >
+                     <ListTree size={16} />
+                   </button>
+                   <button
+                     onClick={() => setTreeView(false)}
+                     className={`p-1 rounded ${!treeView ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-900'}`}
+                     title="Ver en el orden del archivo"
+                   >
+                     <List size={16} />
+                   </button>
+                 </div>
+                 {showTree && (
+                   <div className="flex gap-2 text-xs font-medium text-slate-500">
+                     <button onClick={() => setCollapsedIds(new Set())} className="hover:text-slate-900">Expandir todo</button>
+                     <span>·</span>
+                     <button onClick={collapseAll} className="hover:text-slate-900">Contraer todo</button>
+                   </div>
+                 )}
                  <div className="h-6 w-px bg-slate-200"></div>
                  <div className={`flex items-center gap-2 text-sm font-medium px-3 py-1 rounded-full border ${inconsistencies.length > 0 ? 'bg-amber-50 text-amber-600 border-amber-200' : 'bg-green-50 text-green-600 border-green-200'}`}>
                     <AlertCircle size={16} />
                     {inconsistencies.length > 0 ? `${inconsistencies.length} Alertas` : 'Balanceado'}
                  </div>
+                 <button
+                   onClick={() => setShowRubroReview(!showRubroReview)}
+                   className={`flex items-center gap-3 text-sm font-medium px-3 py-1 rounded-full border ${showRubroReview ? 'bg-corporate-50 border-corporate-200 text-corporate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                   title="Ver la revisión por rubro"
+                 >
+                    <ClipboardCheck size={16} />
+                    <span>Revisión {reviewProgress.percent}%</span>
+                    <span className="w-24 h-1.5 bg-slate-200 rounded-full overflow-hidden flex">
+                      <span className="bg-green-500 h-full" style={{ width: `${reviewProgress.totalLines ? (reviewProgress.lines.REVISADO / reviewProgress.totalLines) * 100 : 0}%` }}></span>
+                      <span className="bg-red-500 h-full" style={{ width: `${reviewProgress.totalLines ? (reviewProgress.lines.OBSERVADO / reviewProgress.totalLines) * 100 : 0}%` }}></span>
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {reviewProgress.lines.REVISADO}/{reviewProgress.totalLines} cuentas · {reviewProgress.rubros.REVISADO}/{reviewProgress.totalRubros} rubros
+                      {reviewProgress.lines.OBSERVADO + reviewProgress.rubros.OBSERVADO > 0 && ` · ${reviewProgress.lines.OBSERVADO + reviewProgress.rubros.OBSERVADO} observados`}
+                    </span>
+                 </button>
               </div>
               
               <div className="flex items-center gap-3">
@@ -589,7 +2061,16 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                   title="Cambiar Normativa de Clasificación"
                 >
                     <BookOpen size={14} /> 
-                    {client.customRegulations ? 'Normativa: Específica' : globalModel ? 'Normativa: Tu Estándar' : 'Normativa: CNV General'}
+                    {`Modelo: ${describeModel(activeModel)}`}{client.customRegulations && ' + Normativa'}
+                </button>
+
+                <button
+                  onClick={openModelComparison}
+                  disabled={!activePeriod || accounts.length === 0}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-white text-slate-700 border border-slate-200 rounded-lg text-xs font-bold hover:bg-slate-50 disabled:opacity-50"
+                  title="Clasificar el balance según otro modelo y comparar"
+                >
+                    <GitCompare size={14} /> Comparar Modelos
                 </button>
 
                 <button 
@@ -601,15 +2082,115 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
               </div>
             </div>
 
+            {/* Review by rubro: status and sign-offs of each rubro of the balance */}
+            {showRubroReview && (
+              <div className="bg-slate-50 border-b border-slate-200 p-3 shrink-0 max-h-56 overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-500 uppercase">
+                    <tr>
+                      <th className="pb-1 pr-3 w-28">Capítulo</th>
+                      <th className="pb-1 pr-3">Rubro</th>
+                      <th className="pb-1 pr-3 w-24">Estado</th>
+                      <th className="pb-1 pr-3 w-40">Preparó</th>
+                      <th className="pb-1 pr-3 w-40">Revisó</th>
+                      <th className="pb-1">Nota</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {rubros.map(rubro => {
+                      const review = activePeriod?.rubroReviews?.[rubro.key] || PENDING_REVIEW;
+                      return (
+                        <tr key={rubro.key} onClick={() => openRubroReview(rubro)} className="cursor-pointer hover:bg-white text-slate-700" title="Revisar rubro">
+                          <td className="py-1 pr-3 text-slate-500">{rubro.type}</td>
+                          <td className="py-1 pr-3 font-medium">{rubro.category} <span className="text-slate-400 font-normal">({rubro.lineCount})</span></td>
+                          <td className="py-1 pr-3">
+                            <span className={`px-1.5 py-0.5 rounded border ${REVIEW_STATUS_STYLES[review.status]}`}>{REVIEW_STATUS_LABELS[review.status]}</span>
+                          </td>
+                          <td className="py-1 pr-3 text-slate-500">{formatSignOff(review.preparedBy)}</td>
+                          <td className="py-1 pr-3 text-slate-500">{formatSignOff(review.reviewedBy)}</td>
+                          <td className="py-1 text-slate-500 italic truncate max-w-xs">{review.note}</td>
+                        </tr>
+                      );
+                    })}
+                    {rubros.length === 0 && (
+                      <tr><td colSpan={6} className="py-3 text-center text-slate-400">Sin rubros para revisar.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Classification Report: lines the AI could not classify, and why */}
+            {classificationReport && (
+              <div className="bg-red-50 border-b border-red-100 p-3 shrink-0 max-h-48 overflow-y-auto">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div className="text-xs text-red-800">
+                    <p className="font-bold">
+                      {classificationReport.failures.length} de {classificationReport.total} cuentas quedaron "Sin Clasificar" tras varios reintentos.
+                    </p>
+                    <p className="text-red-700/80">
+                      {classificationReport.classifiedByRule} clasificadas por reglas de mapeo, {classificationReport.classifiedByAI} por IA. Asigne manualmente el capítulo y rubro de las restantes.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => jumpToAccounts(classificationReport.failures.map(f => f.accountId))}
+                      className="text-xs font-medium text-red-700 hover:bg-red-100 px-2 py-1 rounded"
+                    >
+                      Resaltar todas
+                    </button>
+                    <button
+                      onClick={() => setClassificationReport(null)}
+                      className="p-1 text-red-400 hover:text-red-700 hover:bg-red-100 rounded"
+                      title="Cerrar informe"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                </div>
+                <table className="w-full text-xs text-left">
+                  <tbody className="divide-y divide-red-100">
+                    {classificationReport.failures.map(f => (
+                      <tr
+                        key={f.accountId}
+                        onClick={() => jumpToAccounts([f.accountId])}
+                        className="cursor-pointer hover:bg-red-100/60 text-red-900"
+                        title="Ir a la cuenta"
+                      >
+                        <td className="py-1 pr-3 font-mono w-24">{f.code || '-'}</td>
+                        <td className="py-1 pr-3 w-1/3">{f.name}</td>
+                        <td className="py-1 text-red-700">{f.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Inconsistencies Banner */}
             {inconsistencies.length > 0 && (
-              <div className="bg-amber-50 border-b border-amber-100 p-3 shrink-0">
+              <div className="bg-amber-50 border-b border-amber-100 p-3 shrink-0 max-h-40 overflow-y-auto space-y-1">
                 {inconsistencies.map(inc => (
-                  <div key={inc.id} className="text-xs text-amber-800 flex items-center gap-2">
-                    <span className="w-1.5 h-1.5 rounded-full bg-amber-600"></span>
+                  <button
+                    key={inc.id}
+                    onClick={() => handleJumpToFinding(inc)}
+                    disabled={inc.relatedAccountIds.length === 0}
+                    className="w-full text-left text-xs text-amber-800 flex items-center gap-2 enabled:hover:underline disabled:cursor-default"
+                    title={inc.relatedAccountIds.length > 0 ? 'Ir a las cuentas involucradas' : undefined}
+                  >
+                    <span className={`w-1.5 h-1.5 rounded-full shrink-0
+                      ${inc.severity === 'high' ? 'bg-red-600' : ''}
+                      ${inc.severity === 'medium' ? 'bg-amber-600' : ''}
+                      ${inc.severity === 'low' ? 'bg-slate-400' : ''}
+                    `}></span>
                     {inc.message}
-                  </div>
+                  </button>
                 ))}
+                {highlightedIds.length > 0 && (
+                  <button onClick={() => setHighlightedIds([])} className="text-xs font-medium text-amber-700 hover:text-amber-900 pt-1">
+                    Quitar resaltado
+                  </button>
+                )}
               </div>
             )}
 
@@ -625,33 +2206,71 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                     <th className="p-3 border-b border-r border-slate-200 w-32 text-right">Haber</th>
                     <th className="p-3 border-b border-r border-slate-200 w-32 text-right font-bold text-slate-700">Saldo</th>
                     <th className="p-3 border-b border-r border-slate-200 w-48">Clasificación</th>
+                    <th className="p-3 border-b border-r border-slate-200 w-28">Revisión</th>
                     <th className="p-3 border-b border-slate-200 w-12 text-center"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
-                  {accounts.map(acc => (
-                    <tr key={acc.id} className={`hover:bg-slate-50 group ${acc.isGroup ? 'bg-slate-100/50' : ''}`}>
-                      <td className="p-1 border-r border-slate-100">
+                  {gridRows.map(({ account: acc, depth, children, rollup }) => {
+                    const isHeader = acc.isGroup || children.length > 0;
+                    const rollupMismatch = children.length > 0 && (acc.debit !== 0 || acc.credit !== 0 || acc.balance !== 0) && Math.abs(rollup - acc.balance) > 1;
+                    return (
+                    <tr
+                      key={acc.id}
+                      id={`account-row-${acc.id}`}
+                      className={`hover:bg-slate-50 group ${isHeader ? 'bg-slate-100/50' : ''} ${highlightedIds.includes(acc.id) ? '!bg-amber-100' : ''}`}
+                    >
+                      <td className={`p-1 border-r border-slate-100 border-l-4
+                        ${flaggedAccounts[acc.id] === 'high' ? 'border-l-red-500' : ''}
+                        ${flaggedAccounts[acc.id] === 'medium' ? 'border-l-amber-400' : ''}
+                        ${flaggedAccounts[acc.id] === 'low' ? 'border-l-slate-300' : ''}
+                        ${!flaggedAccounts[acc.id] ? 'border-l-transparent' : ''}
+                      `}>
                          <input 
                            value={acc.code} 
                            onChange={(e) => handleManualEdit(acc.id, 'code', e.target.value)}
-                           className={`w-full px-2 py-1 bg-transparent outline-none rounded font-mono text-slate-600 text-xs ${acc.isGroup ? 'font-bold' : ''}`}
+                           className={`w-full px-2 py-1 bg-transparent outline-none rounded font-mono text-slate-600 text-xs ${isHeader ? 'font-bold' : ''}`}
                            placeholder="S/C"
                          />
                       </td>
                       <td className="p-1 border-r border-slate-100">
-                        <input 
-                          value={acc.name} 
-                          onChange={(e) => handleManualEdit(acc.id, 'name', e.target.value)}
-                          className={`w-full px-2 py-1 bg-transparent outline-none rounded text-slate-800 ${acc.isGroup ? 'font-bold uppercase tracking-wide' : 'font-medium'}`}
-                        />
+                        <div className="flex items-center" style={{ paddingLeft: showTree ? depth * 16 : 0 }}>
+                          {showTree && (
+                            children.length > 0 ? (
+                              <button
+                                onClick={() => toggleCollapsed(acc.id)}
+                                className="p-0.5 text-slate-400 hover:text-slate-700 shrink-0"
+                                title={collapsedIds.has(acc.id) ? `Mostrar ${children.length} subcuentas` : 'Ocultar subcuentas'}
+                              >
+                                {collapsedIds.has(acc.id) ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                              </button>
+                            ) : <span className="w-[18px] shrink-0"></span>
+                          )}
+                          <input 
+                            value={acc.name} 
+                            onChange={(e) => handleManualEdit(acc.id, 'name', e.target.value)}
+                            className={`w-full px-2 py-1 bg-transparent outline-none rounded text-slate-800 ${isHeader ? 'font-bold uppercase tracking-wide' : 'font-medium'}`}
+                          />
+                        </div>
                       </td>
                       <td className="p-1 border-r border-slate-100">
-                         <input 
-                           value={acc.category} 
-                           onChange={(e) => handleManualEdit(acc.id, 'category', e.target.value)}
-                           className="w-full px-2 py-1 bg-transparent outline-none rounded text-xs text-slate-600"
-                         />
+                         <div className="flex items-center gap-1">
+                           <input 
+                             value={acc.category} 
+                             onChange={(e) => handleManualEdit(acc.id, 'category', e.target.value)}
+                             className="w-full px-2 py-1 bg-transparent outline-none rounded text-xs text-slate-600"
+                           />
+                           {!acc.manualOverride && acc.classificationSource === 'MEMORY' && (
+                             <span title="Clasificada desde la memoria del cliente (corrección manual previa)" className="text-sky-600 shrink-0">
+                               <History size={14} />
+                             </span>
+                           )}
+                           {!acc.manualOverride && acc.classificationSource === 'RULE' && (
+                             <span title="Clasificada por regla de mapeo" className="text-slate-400 shrink-0">
+                               <ListTree size={14} />
+                             </span>
+                           )}
+                         </div>
                       </td>
                       <td className="p-1 border-r border-slate-100">
                         <input 
@@ -678,6 +2297,19 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                            onChange={(e) => handleManualEdit(acc.id, 'balance', parseFloat(e.target.value))}
                            className={`w-full px-2 py-1 bg-transparent outline-none text-right font-mono font-bold ${acc.balance < 0 ? 'text-red-600' : 'text-slate-800'}`}
                         />
+                        {children.length > 0 && (
+                          <div
+                            className={`px-2 text-right font-mono text-[11px] ${rollupMismatch ? 'text-red-600 font-bold' : 'text-slate-400'}`}
+                            title={rollupMismatch ? 'El total importado no coincide con la suma de las subcuentas' : 'Suma de las subcuentas'}
+                          >
+                            Σ {formatAmount(rollup)}
+                          </div>
+                        )}
+                        {acc.currency && (
+                          <div className="px-2 text-right font-mono text-[11px] text-sky-700" title="Monto en moneda extranjera">
+                            {acc.currency} {acc.originalAmount !== undefined ? formatAmount(acc.originalAmount) : '-'}
+                          </div>
+                        )}
                       </td>
                       <td className="p-1 border-r border-slate-100">
                         <select 
@@ -696,6 +2328,22 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                             <option key={t} value={t}>{t}</option>
                           ))}
                         </select>
+                        {hasTerm(acc.type) && !acc.isGroup && (
+                          <select
+                            value={acc.term || ''}
+                            onChange={(e) => handleManualEdit(acc.id, 'term', e.target.value || undefined)}
+                            className={`w-full mt-1 text-[11px] px-2 py-1 rounded border border-slate-200 outline-none cursor-pointer bg-white ${acc.term ? 'text-slate-700' : 'text-slate-400'}`}
+                            title="Plazo: corriente si se realiza o vence dentro de los 12 meses del cierre"
+                          >
+                            <option value="">Auto: {TERM_LABELS[defaultTerm(acc.category)]}</option>
+                            {(Object.keys(TERM_LABELS) as Term[]).map(t => (
+                              <option key={t} value={t}>{TERM_LABELS[t]}</option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className="p-1 border-r border-slate-100">
+                        {renderReviewBadge(acc)}
                       </td>
                       <td className="p-1 text-center">
                         <button 
@@ -707,10 +2355,11 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                         </button>
                       </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                   {accounts.length === 0 && (
                       <tr>
-                          <td colSpan={8} className="p-8 text-center text-slate-400">
+                          <td colSpan={9} className="p-8 text-center text-slate-400">
                               No hay cuentas registradas. Importa un archivo o agrega una manualmente.
                           </td>
                       </tr>
@@ -723,7 +2372,69 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
 
         {/* Tab: REPORTS (VERTICAL BALANCE SHEET) */}
         {tab === 'REPORTS' && (
-          <div className="flex-1 overflow-auto bg-gray-100 p-8 flex justify-center">
+          <div className="flex-1 overflow-auto bg-gray-100 p-8 flex flex-col items-center">
+            {/* Valuation: historical or restated for inflation */}
+            <div className="w-full max-w-4xl mb-4 flex flex-wrap items-center gap-3 print:hidden">
+                <div className="flex rounded-lg border border-slate-300 bg-white overflow-hidden text-sm">
+                    <button
+                        onClick={() => setShowRestated(false)}
+                        className={`px-3 py-1.5 ${!isRestated ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                    >
+                        Valores Históricos
+                    </button>
+                    <button
+                        onClick={() => setShowRestated(true)}
+                        disabled={!canRestate}
+                        className={`px-3 py-1.5 disabled:opacity-40 ${isRestated ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                        title={canRestate ? 'Estados reexpresados en moneda de cierre' : `Cargue en Configuración el índice FACPCE de ${activePeriod ? formatMonth(toMonth(activePeriod.closingDate)) : 'cierre'}`}
+                    >
+                        Reexpresados (RT 6)
+                    </button>
+                </div>
+                <button
+                    onClick={() => setShowInflationAdjustment(true)}
+                    disabled={!restatement}
+                    className="flex items-center gap-2 text-sm text-slate-600 border border-slate-300 bg-white hover:bg-slate-50 px-3 py-1.5 rounded-lg disabled:opacity-40"
+                >
+                    <TrendingUp size={16} /> Ajuste por Inflación
+                </button>
+                <button
+                    onClick={() => setShowForeignCurrency(true)}
+                    disabled={!activePeriod}
+                    className="flex items-center gap-2 text-sm text-slate-600 border border-slate-300 bg-white hover:bg-slate-50 px-3 py-1.5 rounded-lg disabled:opacity-40"
+                >
+                    <DollarSign size={16} /> Moneda Extranjera
+                </button>
+                <button
+                    onClick={() => setShowAnnexes(true)}
+                    className="flex items-center gap-2 text-sm text-slate-600 border border-slate-300 bg-white hover:bg-slate-50 px-3 py-1.5 rounded-lg"
+                >
+                    <Table size={16} /> Anexos
+                </button>
+                <button
+                    onClick={() => setShowCashFlowMapping(true)}
+                    className="flex items-center gap-2 text-sm text-slate-600 border border-slate-300 bg-white hover:bg-slate-50 px-3 py-1.5 rounded-lg"
+                    title="Asignar los rubros a actividades operativas, de inversión o de financiación"
+                >
+                    <Waves size={16} /> Flujo de Efectivo
+                </button>
+                {isRestated && restatement!.issueCount > 0 && (
+                    <span className="text-xs text-amber-700">
+                        {restatement!.issueCount} partidas no monetarias sin reexpresar
+                    </span>
+                )}
+                {priorNotRestated && (
+                    <span className="text-xs text-amber-700">
+                        Ejercicio anterior en valores históricos: falta el índice de su cierre
+                    </span>
+                )}
+                {adjustingEntries.length > 0 && (
+                    <button onClick={() => setTab('ADJUSTMENTS')} className="text-xs text-corporate-700 hover:underline">
+                        Incluye {adjustingEntries.length} asiento{adjustingEntries.length === 1 ? '' : 's'} de ajuste
+                    </button>
+                )}
+            </div>
+
             {/* Paper Container */}
             <div className="w-full max-w-4xl bg-white shadow-xl min-h-[29.7cm] p-12 text-slate-900 relative">
                 
@@ -738,8 +2449,22 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                 <div className="text-center mb-10 border-b-2 border-slate-900 pb-6">
                     <h2 className="text-3xl font-bold uppercase tracking-widest mb-2">{client.name}</h2>
                     <p className="text-sm font-semibold uppercase text-slate-500 tracking-wide">
-                        Estados Contables al {new Date().toLocaleDateString('es-AR')}
+                        Estados Contables al {reportDate}
                     </p>
+                    {canRestate && (
+                        <p className="text-xs font-semibold uppercase text-slate-400 tracking-wide mt-1">{valuationLabel}</p>
+                    )}
+                    {activePeriod && (
+                        <p className="text-xs text-slate-400 mt-1">
+                            {activePeriod.label}{priorPeriod ? ` — Comparativo con ${priorPeriod.label}` : ''}
+                        </p>
+                    )}
+                </div>
+
+                {/* Column Headers */}
+                <div className="flex justify-end gap-4 pr-2 mb-2 text-xs font-bold uppercase text-slate-500">
+                    <span className="w-40 text-right">{currentColumnLabel}</span>
+                    {priorFinancials && <span className="w-40 text-right">{priorColumnLabel}</span>}
                 </div>
 
                 {/* Vertical Balance Structure */}
@@ -751,36 +2476,13 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                             ACTIVO
                         </h3>
                         <div className="pl-4 pr-2 space-y-6">
-                            {groupedFinancials.assets.map((rubro) => (
-                                <div key={rubro.name}>
-                                    <h4 className="font-bold text-slate-800 uppercase border-b border-slate-300 mb-2">
-                                        {rubro.name}
-                                    </h4>
-                                    <table className="w-full text-sm mb-2">
-                                        <tbody>
-                                            {rubro.accounts.map(acc => (
-                                                <tr key={acc.id} className="border-b border-dashed border-slate-100">
-                                                    <td className="py-1 pl-2 text-slate-600">{acc.name}</td>
-                                                    <td className="py-1 text-right font-mono text-slate-500">
-                                                        {Math.abs(acc.balance).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                            <tr className="font-bold text-slate-800 bg-slate-50">
-                                                <td className="py-1 pl-2 text-right uppercase text-xs pt-2">Total {rubro.name}</td>
-                                                <td className="py-1 text-right font-mono pt-2">
-                                                    {Math.abs(rubro.total).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                </td>
-                                            </tr>
-                                        </tbody>
-                                    </table>
-                                </div>
-                            ))}
-                        </div>
-                        <div className="mt-4 flex justify-between items-center bg-slate-100 p-3 border-t-2 border-slate-800 font-bold text-lg">
-                            <span>TOTAL ACTIVO</span>
-                            <span>$ {groupedFinancials.assetsTotal.toLocaleString('es-AR', {minimumFractionDigits: 2})}</span>
+                            {renderTermSections(comparative.assets, AccountType.ASSET)}
                         </div>
+                        {renderSectionTotal(
+                            'TOTAL ACTIVO',
+                            naturalAmount(AccountType.ASSET, groupedFinancials.assetsTotal),
+                            priorFinancials ? naturalAmount(AccountType.ASSET, priorFinancials.assetsTotal) : undefined
+                        )}
                     </section>
 
                     {/* PASIVO */}
@@ -789,39 +2491,16 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                             PASIVO
                         </h3>
                         <div className="pl-4 pr-2 space-y-6">
-                            {groupedFinancials.liabilities.map((rubro) => (
-                                <div key={rubro.name}>
-                                    <h4 className="font-bold text-slate-800 uppercase border-b border-slate-300 mb-2">
-                                        {rubro.name}
-                                    </h4>
-                                    <table className="w-full text-sm mb-2">
-                                        <tbody>
-                                            {rubro.accounts.map(acc => (
-                                                <tr key={acc.id} className="border-b border-dashed border-slate-100">
-                                                    <td className="py-1 pl-2 text-slate-600">{acc.name}</td>
-                                                    <td className="py-1 text-right font-mono text-slate-500">
-                                                        {Math.abs(acc.balance).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                            <tr className="font-bold text-slate-800 bg-slate-50">
-                                                <td className="py-1 pl-2 text-right uppercase text-xs pt-2">Total {rubro.name}</td>
-                                                <td className="py-1 text-right font-mono pt-2">
-                                                    {Math.abs(rubro.total).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                </td>
-                                            </tr>
-                                        </tbody>
-                                    </table>
-                                </div>
-                            ))}
-                            {groupedFinancials.liabilities.length === 0 && (
+                            {renderTermSections(comparative.liabilities, AccountType.LIABILITY)}
+                            {comparative.liabilities.every(section => section.rubros.length === 0) && (
                                 <p className="italic text-slate-400">Sin Movimientos de Pasivo.</p>
                             )}
                         </div>
-                        <div className="mt-4 flex justify-between items-center bg-slate-100 p-3 border-t-2 border-slate-800 font-bold text-lg">
-                            <span>TOTAL PASIVO</span>
-                            <span>$ {groupedFinancials.liabilitiesTotal.toLocaleString('es-AR', {minimumFractionDigits: 2})}</span>
-                        </div>
+                        {renderSectionTotal(
+                            'TOTAL PASIVO',
+                            naturalAmount(AccountType.LIABILITY, groupedFinancials.liabilitiesTotal),
+                            priorFinancials ? naturalAmount(AccountType.LIABILITY, priorFinancials.liabilitiesTotal) : undefined
+                        )}
                     </section>
 
                     {/* PATRIMONIO NETO */}
@@ -830,31 +2509,7 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                             PATRIMONIO NETO
                         </h3>
                         <div className="pl-4 pr-2 space-y-6">
-                            {groupedFinancials.equity.map((rubro) => (
-                                <div key={rubro.name}>
-                                    <h4 className="font-bold text-slate-800 uppercase border-b border-slate-300 mb-2">
-                                        {rubro.name}
-                                    </h4>
-                                    <table className="w-full text-sm mb-2">
-                                        <tbody>
-                                            {rubro.accounts.map(acc => (
-                                                <tr key={acc.id} className="border-b border-dashed border-slate-100">
-                                                    <td className="py-1 pl-2 text-slate-600">{acc.name}</td>
-                                                    <td className="py-1 text-right font-mono text-slate-500">
-                                                        {Math.abs(acc.balance).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                            <tr className="font-bold text-slate-800 bg-slate-50">
-                                                <td className="py-1 pl-2 text-right uppercase text-xs pt-2">Total {rubro.name}</td>
-                                                <td className="py-1 text-right font-mono pt-2">
-                                                    {Math.abs(rubro.total).toLocaleString('es-AR', {minimumFractionDigits: 2})}
-                                                </td>
-                                            </tr>
-                                        </tbody>
-                                    </table>
-                                </div>
-                            ))}
+                            {renderRubros(comparative.equity, AccountType.EQUITY)}
 
                             {/* Resultado del Ejercicio Injection */}
                             <div>
@@ -865,29 +2520,133 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
                                     <tbody>
                                          <tr className="font-bold text-slate-800 bg-slate-50">
                                             <td className="py-1 pl-2 text-right uppercase text-xs pt-2">Ganancia/Pérdida del Periodo</td>
-                                            <td className="py-1 text-right font-mono pt-2">
-                                                {groupedFinancials.netResult.toLocaleString('es-AR', {minimumFractionDigits: 2})}
+                                            <td className="py-1 text-right font-mono pt-2 w-40">
+                                                {formatAmount(groupedFinancials.netResult)}
                                             </td>
+                                            {priorFinancials && (
+                                                <td className="py-1 text-right font-mono pt-2 w-40">
+                                                    {formatAmount(priorFinancials.netResult)}
+                                                </td>
+                                            )}
                                         </tr>
                                     </tbody>
                                 </table>
                             </div>
 
                         </div>
-                        <div className="mt-4 flex justify-between items-center bg-slate-100 p-3 border-t-2 border-slate-800 font-bold text-lg">
-                            <span>TOTAL PATRIMONIO NETO</span>
-                            <span>$ {(groupedFinancials.equityTotal + groupedFinancials.netResult).toLocaleString('es-AR', {minimumFractionDigits: 2})}</span>
-                        </div>
+                        {renderSectionTotal(
+                            'TOTAL PATRIMONIO NETO',
+                            equityWithResult(groupedFinancials),
+                            priorFinancials ? equityWithResult(priorFinancials) : undefined
+                        )}
                     </section>
                     
                     {/* TOTAL PASIVO + PN CHECK */}
                     <div className="mt-8 flex justify-between items-center bg-slate-900 text-white p-4 font-bold text-xl uppercase tracking-widest">
                          <span>Total Pasivo + P.N.</span>
-                         <span>$ {(groupedFinancials.liabilitiesTotal + groupedFinancials.equityTotal + groupedFinancials.netResult).toLocaleString('es-AR', {minimumFractionDigits: 2})}</span>
+                         <div className="flex gap-4">
+                             <span>$ {formatAmount(liabilitiesAndEquity(groupedFinancials))}</span>
+                             {priorFinancials && (
+                                 <span className="text-slate-400">$ {formatAmount(liabilitiesAndEquity(priorFinancials))}</span>
+                             )}
+                         </div>
                     </div>
 
                 </div>
-                
+
+                {/* Estado de Flujo de Efectivo (indirect method) */}
+                <section className="mt-12 break-inside-avoid">
+                    <h3 className="text-lg font-bold border-b-2 border-slate-900 pb-1 mb-3 uppercase tracking-wide">
+                        Estado de Flujo de Efectivo
+                    </h3>
+                    {cashFlow ? (
+                        <table className="w-full text-sm">
+                            <tbody>
+                                <tr className="font-semibold">
+                                    <td className="py-1">Efectivo al inicio del ejercicio</td>
+                                    <td className="py-1 text-right font-mono w-40">{formatAmount(cashFlow.openingCash)}</td>
+                                </tr>
+                                {cashFlow.sections.map(section => (
+                                    <React.Fragment key={section.activity}>
+                                        <tr><td colSpan={2} className="pt-3 font-bold text-slate-800 uppercase text-xs">{CASH_FLOW_ACTIVITY_LABELS[section.activity]}</td></tr>
+                                        {section.lines.map(line => (
+                                            <tr key={line.label} className="text-slate-600">
+                                                <td className="py-0.5 pl-4">{line.label}</td>
+                                                <td className="py-0.5 text-right font-mono">{formatAmount(line.amount)}</td>
+                                            </tr>
+                                        ))}
+                                        <tr className="font-semibold border-t border-slate-200">
+                                            <td className="py-1 pl-4 text-xs uppercase">Flujo neto de {CASH_FLOW_ACTIVITY_LABELS[section.activity].toLowerCase()}</td>
+                                            <td className="py-1 text-right font-mono">{formatAmount(section.total)}</td>
+                                        </tr>
+                                    </React.Fragment>
+                                ))}
+                                <tr className="font-bold border-t-2 border-slate-300">
+                                    <td className="py-1 pt-3">Variación neta del efectivo</td>
+                                    <td className="py-1 pt-3 text-right font-mono">{formatAmount(cashFlow.variation)}</td>
+                                </tr>
+                                <tr className="font-semibold">
+                                    <td className="py-1">Efectivo al cierre del ejercicio</td>
+                                    <td className="py-1 text-right font-mono">{formatAmount(cashFlow.closingCash)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="italic text-slate-400 text-sm">Se necesita el balance del ejercicio anterior para calcular las variaciones.</p>
+                    )}
+                    {cashFlow && Math.abs(cashFlow.difference) >= 0.01 && (
+                        <p className="mt-2 text-xs text-amber-700 print:hidden">
+                            Diferencia no explicada de $ {formatAmount(cashFlow.difference)}: revise cuentas sin clasificar o el balance de sumas y saldos.
+                        </p>
+                    )}
+                </section>
+
+                {/* Anexo G: foreign currency assets and liabilities */}
+                {annexG.length > 0 && (
+                    <section className="mt-12 break-inside-avoid">
+                        <h3 className="text-lg font-bold border-b-2 border-slate-900 pb-1 mb-3 uppercase tracking-wide">
+                            Anexo G - Activos y Pasivos en Moneda Extranjera
+                        </h3>
+                        <table className="w-full text-sm">
+                            <thead className="text-xs uppercase text-slate-500">
+                                <tr className="border-b border-slate-300">
+                                    <th className="py-1 text-left">Rubro / Cuenta</th>
+                                    <th className="py-1 text-right">Moneda y monto</th>
+                                    <th className="py-1 text-right">Cambio vigente</th>
+                                    <th className="py-1 text-right w-36">Monto en pesos</th>
+                                    {priorPeriod && <th className="py-1 text-right w-36">Ejercicio anterior</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {annexG.map(section => (
+                                    <React.Fragment key={section.title}>
+                                        <tr><td colSpan={5} className="pt-3 font-bold text-slate-800">{section.title}</td></tr>
+                                        {section.rubros.map(rubro => (
+                                            <React.Fragment key={rubro.name}>
+                                                <tr><td colSpan={5} className="pl-2 font-semibold text-slate-700">{rubro.name}</td></tr>
+                                                {rubro.rows.map(row => (
+                                                    <tr key={row.account.id} className="text-slate-600">
+                                                        <td className="py-0.5 pl-4">{row.account.name}</td>
+                                                        <td className="py-0.5 text-right font-mono">{row.currency} {row.originalAmount === null ? '-' : formatAmount(row.originalAmount)}</td>
+                                                        <td className="py-0.5 text-right font-mono">{row.rate === null ? '-' : row.rate.toLocaleString('es-AR', { maximumFractionDigits: 4 })}</td>
+                                                        <td className="py-0.5 text-right font-mono">{formatAmount(row.amount)}</td>
+                                                        {priorPeriod && <td className="py-0.5 text-right font-mono">{formatAmount(row.prior ?? 0)}</td>}
+                                                    </tr>
+                                                ))}
+                                            </React.Fragment>
+                                        ))}
+                                        <tr className="font-bold border-t border-slate-300">
+                                            <td colSpan={3} className="py-1 text-right uppercase text-xs">Total {section.title}</td>
+                                            <td className="py-1 text-right font-mono">{formatAmount(section.total)}</td>
+                                            {priorPeriod && <td className="py-1 text-right font-mono">{formatAmount(section.priorTotal ?? 0)}</td>}
+                                        </tr>
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
                 {/* Signatures */}
                 <div className="mt-24 pt-8 border-t border-slate-200 grid grid-cols-3 gap-8 text-center break-inside-avoid">
                     <div className="pt-8 border-t border-slate-400 mx-4">
@@ -905,13 +2664,109 @@ const FinancialWorkspace: React.FC<Props> = ({ client, globalModel, onSave, onBa
           </div>
         )}
 
+        {showInflationAdjustment && restatement && (
+          <InflationAdjustment
+            restatement={restatement}
+            canCopyFromPrior={!!priorPeriod}
+            onEdit={(id, field, value) => handleManualEdit(id, field, value)}
+            onCopyFromPrior={handleCopyInflationDataFromPrior}
+            onClose={() => setShowInflationAdjustment(false)}
+          />
+        )}
+
+        {showForeignCurrency && activePeriod && (
+          <ForeignCurrencyPanel
+            lines={getDetailLines(accounts).filter(acc => acc.type === AccountType.ASSET || acc.type === AccountType.LIABILITY)}
+            conversions={conversions}
+            closingDate={activePeriod.closingDate}
+            onEdit={(id, field, value) => handleManualEdit(id, field, value)}
+            onApplyConversion={handleApplyConversion}
+            onClose={() => setShowForeignCurrency(false)}
+          />
+        )}
+
+        {showAnnexes && (
+          <StatutoryAnnexes
+            financials={groupedFinancials}
+            priorFinancials={priorFinancials}
+            inputs={activePeriod?.annexInputs || {}}
+            onSave={handleSaveAnnexInputs}
+            onClose={() => setShowAnnexes(false)}
+          />
+        )}
+
+        {showCashFlowMapping && (
+          <CashFlowMappingDialog
+            rubros={listCashFlowRubros(groupedFinancials, priorFinancials)}
+            mapping={client.cashFlowMapping || {}}
+            onSave={handleSaveCashFlowMapping}
+            onClose={() => setShowCashFlowMapping(false)}
+          />
+        )}
+
+        {/* Tab: ADJUSTMENTS */}
+        {tab === 'ADJUSTMENTS' && (
+          <AdjustingEntriesPanel
+            key={activePeriodId || 'none'}
+            accounts={accounts}
+            entries={adjustingEntries}
+            closingDate={activePeriod?.closingDate}
+            defaultUser={currentUser}
+            onChange={handleSaveAdjustingEntries}
+          />
+        )}
+
+        {/* Tab: ANALYSIS */}
+        {tab === 'ANALYSIS' && (
+          <AnalysisDashboard
+            financials={groupedFinancials}
+            figures={computeBalanceFigures(groupedFinancials)}
+            ratios={ratios}
+            trend={ratioTrend}
+            currentLabel={activePeriod?.label || 'Actual'}
+            priorLabel={priorFinancials ? priorPeriod?.label : undefined}
+          />
+        )}
+
         {/* Tab: EXPORT */}
+        {/* Tab: DOCUMENTS */}
+        {tab === 'DOCUMENTS' && (
+          <DocumentsPanel
+            documents={client.files}
+            periods={client.periods}
+            onDownload={handleDownloadDocument}
+            onReprocess={handleReprocessDocument}
+          />
+        )}
+
+        {/* Tab: HISTORY */}
+        {tab === 'HISTORY' && (
+          <ImportHistory
+            key={activePeriodId || 'none'}
+            entries={getPeriodLedger(client, activePeriodId || undefined)}
+            currentAccounts={accounts}
+            documents={client.files}
+            onRestore={handleRestoreVersion}
+          />
+        )}
+
+        {/* Tab: CHANGES */}
+        {tab === 'CHANGES' && (
+          <ChangeLogPanel
+            key={activePeriodId || 'none'}
+            entries={client.changeLog || []}
+            periods={client.periods}
+            activePeriodId={activePeriodId}
+          />
+        )}
+
         {tab === 'EXPORT' && (
           <div className="flex-1 flex flex-col items-center justify-center p-12 gap-6">
             <h3 className="text-xl font-bold text-slate-800">Exportar Reportes Finales</h3>
             <p className="text-slate-500 max-w-lg text-center">
               Genera los archivos finales para presentar ante la CNV o para archivo interno.
-              Los reportes incluyen las marcas de auditoría y notas generadas.
+              Los reportes incluyen el Estado de Situación Patrimonial, el Estado de Resultados
+              y el Estado de Evolución del Patrimonio Neto.
             </p>
             
             <div className="flex gap-4">
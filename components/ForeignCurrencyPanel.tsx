@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { AccountLine } from '../types';
+import { CURRENCY_LABELS, ForeignCurrencyLine, suggestCurrency } from '../services/currency';
+import { formatAmount } from '../services/financialStatements';
+import { formatClosingDate } from '../services/periods';
+import { DollarSign, AlertTriangle, RefreshCw } from 'lucide-react';
+
+type LineFilter = 'FOREIGN' | 'SUGGESTED' | 'ALL';
+
+interface Props {
+  lines: AccountLine[]; // Asset and liability detail lines of the period
+  conversions: ForeignCurrencyLine[];
+  closingDate: string;
+  onEdit: (accountId: string, field: 'currency' | 'originalAmount', value: string | number | undefined) => void;
+  onApplyConversion: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Currency and original amount of each asset and liability line, with its conversion at the
+ * closing rate next to the booked balance in pesos.
+ */
+const ForeignCurrencyPanel: React.FC<Props> = ({ lines, conversions, closingDate, onEdit, onApplyConversion, onClose }) => {
+  const [filter, setFilter] = useState<LineFilter>(conversions.length > 0 ? 'FOREIGN' : 'SUGGESTED');
+
+  const conversionById = new Map<string, ForeignCurrencyLine>(conversions.map(c => [c.account.id, c]));
+  const visible = lines.filter(acc =>
+    filter === 'ALL' ||
+    (filter === 'FOREIGN' ? conversionById.has(acc.id) : !acc.currency && !!suggestCurrency(acc.name))
+  );
+  const pendingCount = conversions.filter(c => c.difference !== null && Math.abs(c.difference) >= 0.005).length;
+  const missingCount = conversions.filter(c => c.converted === null).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <DollarSign className="text-corporate-600" /> Moneda Extranjera
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Conversión al tipo de cambio vigente al {formatClosingDate(closingDate)}. El saldo registrado en pesos no cambia hasta que se actualice.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as LineFilter)}
+              className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-corporate-500 bg-white"
+            >
+              <option value="FOREIGN">En moneda extranjera ({conversions.length})</option>
+              <option value="SUGGESTED">Posibles cuentas en moneda extranjera</option>
+              <option value="ALL">Todas las cuentas de Activo y Pasivo</option>
+            </select>
+            {missingCount > 0 && (
+              <span className="flex items-center gap-1 text-xs text-amber-700">
+                <AlertTriangle size={14} /> {missingCount} sin monto original o sin cotización
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+              <tr>
+                <th className="p-2 w-24">Código</th>
+                <th className="p-2">Cuenta</th>
+                <th className="p-2 w-32">Moneda</th>
+                <th className="p-2 w-36 text-right">Monto original</th>
+                <th className="p-2 w-28 text-right">Cambio</th>
+                <th className="p-2 w-36 text-right">Convertido</th>
+                <th className="p-2 w-36 text-right">Registrado</th>
+                <th className="p-2 w-32 text-right">Diferencia</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(acc => {
+                const conversion = conversionById.get(acc.id);
+                const suggestion = !acc.currency ? suggestCurrency(acc.name) : undefined;
+                return (
+                  <tr key={acc.id}>
+                    <td className="p-2 font-mono text-xs text-slate-500">{acc.code}</td>
+                    <td className="p-2">
+                      <div className="text-slate-700">{acc.name}</div>
+                      <div className="text-xs text-slate-400">{acc.type} · {acc.category}</div>
+                    </td>
+                    <td className="p-1">
+                      <select
+                        value={acc.currency || ''}
+                        onChange={(e) => onEdit(acc.id, 'currency', e.target.value || undefined)}
+                        className="w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white"
+                      >
+                        <option value="">Pesos</option>
+                        {Object.keys(CURRENCY_LABELS).map(code => <option key={code} value={code}>{code}</option>)}
+                      </select>
+                      {suggestion && (
+                        <button
+                          onClick={() => onEdit(acc.id, 'currency', suggestion)}
+                          className="mt-1 text-[11px] text-corporate-700 hover:underline"
+                        >
+                          ¿{suggestion}?
+                        </button>
+                      )}
+                    </td>
+                    <td className="p-1">
+                      {acc.currency && (
+                        <input
+                          type="number"
+                          value={acc.originalAmount ?? ''}
+                          onChange={(e) => onEdit(acc.id, 'originalAmount', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                          className="w-full px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-corporate-200 text-right font-mono text-xs"
+                          placeholder="Con el signo del saldo"
+                        />
+                      )}
+                    </td>
+                    <td className="p-2 text-right font-mono text-xs text-slate-500" title={conversion?.rate ? `Cotización del ${formatClosingDate(conversion.rate.date)}` : undefined}>
+                      {conversion ? (conversion.rate ? conversion.rate.rate.toLocaleString('es-AR', { maximumFractionDigits: 4 }) : 'Sin cotización') : ''}
+                    </td>
+                    <td className="p-2 text-right font-mono text-slate-800">
+                      {conversion?.converted != null ? formatAmount(conversion.converted) : ''}
+                    </td>
+                    <td className="p-2 text-right font-mono text-slate-500">{formatAmount(acc.balance)}</td>
+                    <td className={`p-2 text-right font-mono ${conversion?.difference ? 'text-amber-700 font-semibold' : 'text-slate-400'}`}>
+                      {conversion?.difference != null ? formatAmount(conversion.difference) : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="p-8 text-center text-slate-400">Sin cuentas para mostrar.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cerrar
+          </button>
+          <button
+            onClick={onApplyConversion}
+            disabled={pendingCount === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700 disabled:opacity-50"
+            title="Registra un asiento de ajuste que lleva cada cuenta a su conversión al cierre, contra diferencia de cambio"
+          >
+            <RefreshCw size={16} /> Registrar diferencia de cambio ({pendingCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForeignCurrencyPanel;
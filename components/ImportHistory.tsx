@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { AccountLine, LedgerEntry, SourceDocument } from '../types';
+import { SNAPSHOT_KIND_LABELS, LineChangeKind, SnapshotDiff, diffSnapshots } from '../services/importLedger';
+import { loadSnapshot } from '../services/storage';
+import { formatAmount } from '../services/financialStatements';
+import { History, RotateCcw, Loader2, ArrowRight } from 'lucide-react';
+
+// Pseudo entry for the accounts on screen, saved or not
+const CURRENT = 'CURRENT';
+
+const CHANGE_STYLES: Record<LineChangeKind, { label: string; className: string }> = {
+  ADDED: { label: 'Nueva', className: 'bg-green-50 text-green-700 border-green-200' },
+  REMOVED: { label: 'Eliminada', className: 'bg-red-50 text-red-700 border-red-200' },
+  RECLASSIFIED: { label: 'Reclasificada', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  BALANCE: { label: 'Saldo', className: 'bg-amber-50 text-amber-700 border-amber-200' }
+};
+
+interface Props {
+  entries: LedgerEntry[]; // Newest first
+  currentAccounts: AccountLine[];
+  documents: SourceDocument[];
+  onRestore: (entry: LedgerEntry) => void;
+}
+
+const ImportHistory: React.FC<Props> = ({ entries, currentAccounts, documents, onRestore }) => {
+  const [baseId, setBaseId] = useState<string>(entries[0]?.id || '');
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New entries (a save, a restore) move the default comparison to the latest one
+  useEffect(() => {
+    setBaseId(entries[0]?.id || '');
+    setTargetId(CURRENT);
+  }, [entries[0]?.id]);
+
+  useEffect(() => {
+    if (!baseId) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    const accountsOf = async (id: string): Promise<AccountLine[]> => {
+      if (id === CURRENT) return currentAccounts;
+      const snapshot = await loadSnapshot(id);
+      if (!snapshot) throw new Error('La versión seleccionada ya no está en el almacenamiento.');
+      return snapshot.accounts;
+    };
+
+    setLoading(true);
+    setError(null);
+    Promise.all([accountsOf(baseId), accountsOf(targetId)])
+      .then(([before, after]) => { if (!cancelled) setDiff(diffSnapshots(before, after)); })
+      .catch(err => { if (!cancelled) { setDiff(null); setError(err.message); } })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [baseId, targetId, currentAccounts]);
+
+  const entryLabel = (entry: LedgerEntry) =>
+    `${new Date(entry.createdAt).toLocaleString('es-AR')} · ${SNAPSHOT_KIND_LABELS[entry.kind]}`;
+  const documentName = (id?: string) => documents.find(d => d.id === id)?.name;
+
+  const renderSide = (line?: AccountLine) => line ? (
+    <div>
+      <div className="text-slate-700">{line.type} · {line.category}</div>
+      <div className="font-mono text-slate-500">$ {formatAmount(line.balance)}</div>
+    </div>
+  ) : <span className="text-slate-300">-</span>;
+
+  const selectClass = "border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-corporate-500 outline-none max-w-xs";
+
+  return (
+    <div className="flex-1 p-8 bg-slate-50 overflow-y-auto">
+      <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8">
+
+        {/* Ledger */}
+        <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden self-start">
+          <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+            <History size={18} className="text-sky-600" />
+            <h3 className="font-bold text-slate-800">Historial del Ejercicio</h3>
+          </div>
+          <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto">
+            {entries.map(entry => (
+              <div key={entry.id} className="p-3 text-sm group">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold uppercase text-slate-500">{SNAPSHOT_KIND_LABELS[entry.kind]}</span>
+                  <span className="text-xs text-slate-400">{new Date(entry.createdAt).toLocaleString('es-AR')}</span>
+                </div>
+                <p className="text-slate-700 mt-1">{entry.description}</p>
+                <div className="flex items-center justify-between mt-1">
+                  <span className="text-xs text-slate-400">
+                    {entry.lineCount} cuentas{documentName(entry.documentId) ? ` · ${documentName(entry.documentId)}` : ''}
+                  </span>
+                  <button
+                    onClick={() => onRestore(entry)}
+                    className="flex items-center gap-1 text-xs font-medium text-corporate-700 hover:bg-corporate-50 px-2 py-1 rounded opacity-0 group-hover:opacity-100"
+                  >
+                    <RotateCcw size={12} /> Restaurar
+                  </button>
+                </div>
+              </div>
+            ))}
+            {entries.length === 0 && (
+              <p className="p-6 text-center text-sm text-slate-400">
+                Sin versiones registradas. Cada importación y cada "Guardar Cambios" queda en el historial.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Diff */}
+        <div className="lg:col-span-2 bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-slate-100 bg-slate-50 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-slate-700">Comparar</span>
+            <select value={baseId} onChange={e => setBaseId(e.target.value)} className={selectClass} disabled={entries.length === 0}>
+              {entries.map(e => <option key={e.id} value={e.id}>{entryLabel(e)}</option>)}
+            </select>
+            <ArrowRight size={16} className="text-slate-400" />
+            <select value={targetId} onChange={e => setTargetId(e.target.value)} className={selectClass}>
+              <option value={CURRENT}>Estado actual en pantalla</option>
+              {entries.map(e => <option key={e.id} value={e.id}>{entryLabel(e)}</option>)}
+            </select>
+          </div>
+
+          {diff && !loading && (
+            <div className="px-4 py-3 flex flex-wrap gap-2 border-b border-slate-100">
+              {(Object.keys(CHANGE_STYLES) as LineChangeKind[]).map(kind => (
+                <span key={kind} className={`text-xs font-medium px-2 py-0.5 rounded-full border ${CHANGE_STYLES[kind].className}`}>
+                  {diff.counts[kind]} {CHANGE_STYLES[kind].label}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {loading && (
+            <div className="p-12 flex justify-center"><Loader2 className="animate-spin text-corporate-600" /></div>
+          )}
+          {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+
+          {diff && !loading && (
+            <table className="w-full text-xs text-left border-collapse">
+              <thead className="bg-slate-50 uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="p-2 border-b border-slate-200 w-24">Código</th>
+                  <th className="p-2 border-b border-slate-200">Cuenta</th>
+                  <th className="p-2 border-b border-slate-200 w-28">Cambio</th>
+                  <th className="p-2 border-b border-slate-200">Antes</th>
+                  <th className="p-2 border-b border-slate-200">Después</th>
+                  <th className="p-2 border-b border-slate-200 text-right w-28">Dif. Saldo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {diff.changes.map(change => (
+                  <tr key={change.key} className="hover:bg-slate-50 align-top">
+                    <td className="p-2 font-mono text-slate-500">{change.code || '-'}</td>
+                    <td className="p-2 text-slate-700">{change.name}</td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1">
+                        {change.kinds.map(kind => (
+                          <span key={kind} className={`px-1.5 py-0.5 rounded border ${CHANGE_STYLES[kind].className}`}>{CHANGE_STYLES[kind].label}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="p-2">{renderSide(change.before)}</td>
+                    <td className="p-2">{renderSide(change.after)}</td>
+                    <td className={`p-2 text-right font-mono ${change.balanceDelta < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                      {Math.abs(change.balanceDelta) > 0.005 ? formatAmount(change.balanceDelta) : ''}
+                    </td>
+                  </tr>
+                ))}
+                {diff.changes.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-slate-400">Las dos versiones son iguales.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportHistory;
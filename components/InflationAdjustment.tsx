@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { MonetaryNature } from '../types';
+import { Restatement, NATURE_LABELS, defaultNature, formatMonth } from '../services/inflation';
+import { formatAmount } from '../services/financialStatements';
+import { TrendingUp, AlertTriangle, Copy } from 'lucide-react';
+
+type LineFilter = 'NON_MONETARY' | 'ISSUES' | 'ALL';
+
+interface Props {
+  restatement: Restatement;
+  canCopyFromPrior: boolean;
+  onEdit: (accountId: string, field: 'nature' | 'originDate', value: string | undefined) => void;
+  onCopyFromPrior: () => void;
+  onClose: () => void;
+}
+
+const formatCoefficient = (value: number | null) =>
+  value === null ? '-' : value.toLocaleString('es-AR', { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+
+/**
+ * RT 6 working paper: nature and origin month of each line, with the coefficient and the restated
+ * balance they lead to. Edits go to the period's accounts like any other manual change.
+ */
+const InflationAdjustment: React.FC<Props> = ({ restatement, canCopyFromPrior, onEdit, onCopyFromPrior, onClose }) => {
+  const [filter, setFilter] = useState<LineFilter>('NON_MONETARY');
+
+  const visible = restatement.lines.filter(l =>
+    filter === 'ALL' || (filter === 'ISSUES' ? !!l.issue : l.nature === 'NON_MONETARY')
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <TrendingUp className="text-corporate-600" /> Ajuste por Inflación (RT 6)
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Índice de cierre ({formatMonth(restatement.closingMonth)}):{' '}
+            <b>{restatement.closingIndex === null ? 'no cargado' : restatement.closingIndex.toLocaleString('es-AR')}</b>.
+            Las partidas de resultados sin mes de origen se reexpresan con el coeficiente promedio del ejercicio.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as LineFilter)}
+              className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-corporate-500 bg-white"
+            >
+              <option value="NON_MONETARY">Partidas no monetarias</option>
+              <option value="ISSUES">Con observaciones ({restatement.issueCount})</option>
+              <option value="ALL">Todas las partidas</option>
+            </select>
+            {canCopyFromPrior && (
+              <button
+                onClick={onCopyFromPrior}
+                className="flex items-center gap-2 text-sm text-slate-600 border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg"
+                title="Completa naturaleza y mes de origen de las cuentas que no los tienen, con los del ejercicio anterior"
+              >
+                <Copy size={14} /> Traer del ejercicio anterior
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+              <tr>
+                <th className="p-2 w-24">Código</th>
+                <th className="p-2">Cuenta</th>
+                <th className="p-2 w-40">Naturaleza</th>
+                <th className="p-2 w-36">Mes de origen</th>
+                <th className="p-2 w-24 text-right">Coef.</th>
+                <th className="p-2 w-36 text-right">Histórico</th>
+                <th className="p-2 w-36 text-right">Reexpresado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(l => (
+                <tr key={l.account.id} className={l.issue ? 'bg-amber-50/50' : ''}>
+                  <td className="p-2 font-mono text-xs text-slate-500">{l.account.code}</td>
+                  <td className="p-2">
+                    <div className="text-slate-700">{l.account.name}</div>
+                    <div className="text-xs text-slate-400">{l.account.type} · {l.account.category}</div>
+                  </td>
+                  <td className="p-1">
+                    <select
+                      value={l.account.nature || ''}
+                      onChange={(e) => onEdit(l.account.id, 'nature', e.target.value || undefined)}
+                      className={`w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white ${l.account.nature ? 'text-slate-700' : 'text-slate-400'}`}
+                    >
+                      <option value="">Auto: {NATURE_LABELS[defaultNature(l.account.type, l.account.category)]}</option>
+                      {(Object.keys(NATURE_LABELS) as MonetaryNature[]).map(n => (
+                        <option key={n} value={n}>{NATURE_LABELS[n]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-1">
+                    {l.nature === 'NON_MONETARY' && (
+                      <input
+                        type="month"
+                        value={l.account.originDate || ''}
+                        onChange={(e) => onEdit(l.account.id, 'originDate', e.target.value || undefined)}
+                        className="w-full text-xs px-2 py-1 rounded border border-slate-200 outline-none focus:ring-1 focus:ring-corporate-200"
+                      />
+                    )}
+                  </td>
+                  <td className="p-2 text-right font-mono text-xs text-slate-500">
+                    {l.issue ? (
+                      <span className="inline-flex items-center gap-1 text-amber-700" title={l.issue}>
+                        <AlertTriangle size={12} /> -
+                      </span>
+                    ) : formatCoefficient(l.coefficient)}
+                  </td>
+                  <td className="p-2 text-right font-mono text-slate-500">{formatAmount(l.historical)}</td>
+                  <td className="p-2 text-right font-mono text-slate-800">{formatAmount(l.restated)}</td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="p-8 text-center text-slate-400">Sin partidas para mostrar.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex items-center justify-between gap-3">
+          <div className="text-sm">
+            <span className="text-slate-500">RECPAM del ejercicio: </span>
+            <span className={`font-mono font-bold ${restatement.recpam < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+              $ {formatAmount(restatement.recpam)}
+            </span>
+            <span className="text-slate-400"> ({restatement.recpam < 0 ? 'pérdida' : 'ganancia'})</span>
+            {restatement.issueCount > 0 && (
+              <span className="ml-4 text-amber-700">
+                {restatement.issueCount} partidas sin reexpresar: revise las observaciones.
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InflationAdjustment;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { AccountType, MappingRule, Term } from '../types';
+import { ARGENTINE_CHAPTER_RULES, createMappingRule } from '../services/accountMapping';
+import { TERM_LABELS, hasTerm } from '../services/terms';
+import { Plus, Trash2, ListTree } from 'lucide-react';
+
+interface Props {
+  rules: MappingRule[];
+  onChange: (rules: MappingRule[]) => void;
+}
+
+const MappingRulesEditor: React.FC<Props> = ({ rules, onChange }) => {
+
+  const handleAdd = () => {
+    onChange([...rules, createMappingRule({ matchType: 'CODE_PREFIX', pattern: '', type: AccountType.ASSET, category: '' })]);
+  };
+
+  const handleLoadChapters = () => {
+    // Only add chapters that are not already mapped
+    const missing = ARGENTINE_CHAPTER_RULES.filter(c =>
+      !rules.some(r => r.matchType === c.matchType && r.pattern.trim() === c.pattern)
+    );
+    onChange([...rules, ...missing.map(createMappingRule)]);
+  };
+
+  const handleEdit = (id: string, field: keyof MappingRule, value: string) => {
+    onChange(rules.map(r => r.id === id ? { ...r, [field]: value } : r));
+  };
+
+  const handleTermChange = (id: string, value: string) => {
+    onChange(rules.map(r => r.id === id ? { ...r, term: (value as Term) || undefined } : r));
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  return (
+    <div>
+      <table className="w-full text-sm text-left border-collapse">
+        <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold">
+          <tr>
+            <th className="p-2 border-b border-slate-200 w-40">Criterio</th>
+            <th className="p-2 border-b border-slate-200">Patrón</th>
+            <th className="p-2 border-b border-slate-200 w-48">Capítulo</th>
+            <th className="p-2 border-b border-slate-200">Rubro</th>
+            <th className="p-2 border-b border-slate-200 w-36">Plazo</th>
+            <th className="p-2 border-b border-slate-200 w-10"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rules.map(rule => (
+            <tr key={rule.id} className="group">
+              <td className="p-1">
+                <select
+                  value={rule.matchType}
+                  onChange={(e) => handleEdit(rule.id, 'matchType', e.target.value)}
+                  className="w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white"
+                >
+                  <option value="CODE_PREFIX">Código empieza con</option>
+                  <option value="NAME_PATTERN">Nombre contiene</option>
+                </select>
+              </td>
+              <td className="p-1">
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => handleEdit(rule.id, 'pattern', e.target.value)}
+                  placeholder={rule.matchType === 'CODE_PREFIX' ? '1.1.01' : 'Overnight'}
+                  className={`w-full px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-corporate-200 ${rule.matchType === 'CODE_PREFIX' ? 'font-mono text-xs' : ''}`}
+                />
+              </td>
+              <td className="p-1">
+                <select
+                  value={rule.type}
+                  onChange={(e) => handleEdit(rule.id, 'type', e.target.value)}
+                  className="w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white"
+                >
+                  {Object.values(AccountType).filter(t => t !== AccountType.UNCLASSIFIED).map(t => (
+                    <option key={t} value={t}>{t}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="p-1">
+                <input
+                  value={rule.category || ''}
+                  onChange={(e) => handleEdit(rule.id, 'category', e.target.value)}
+                  placeholder="(lo asigna la IA)"
+                  className="w-full px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-corporate-200 text-xs"
+                />
+              </td>
+              <td className="p-1">
+                {hasTerm(rule.type) && (
+                  <select
+                    value={rule.term || ''}
+                    onChange={(e) => handleTermChange(rule.id, e.target.value)}
+                    className="w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white"
+                  >
+                    <option value="">(según rubro)</option>
+                    {(Object.keys(TERM_LABELS) as Term[]).map(t => (
+                      <option key={t} value={t}>{TERM_LABELS[t]}</option>
+                    ))}
+                  </select>
+                )}
+              </td>
+              <td className="p-1 text-center">
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors opacity-0 group-hover:opacity-100"
+                  title="Eliminar regla"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+          {rules.length === 0 && (
+            <tr>
+              <td colSpan={6} className="p-6 text-center text-slate-400 text-sm">
+                Sin reglas de mapeo. Todas las cuentas se clasificarán con IA.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-2 text-corporate-700 hover:bg-corporate-50 px-3 py-1.5 rounded-lg transition-colors font-medium text-sm"
+        >
+          <Plus size={16} /> Agregar Regla
+        </button>
+        <button
+          onClick={handleLoadChapters}
+          className="flex items-center gap-2 text-slate-600 hover:bg-slate-100 px-3 py-1.5 rounded-lg transition-colors font-medium text-sm"
+          title="1 Activo, 2 Pasivo, 3 Patrimonio Neto, 4 Ingresos, 5 Egresos"
+        >
+          <ListTree size={16} /> Cargar Capítulos del Plan Argentino
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MappingRulesEditor;
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { AccountLine, AccountType, ModelLibrary } from '../types';
+import { classifyAccounts } from '../services/aiService';
+import { groupFinancials, formatAmount, rubroAmount, RubroGroup } from '../services/financialStatements';
+import { CHAPTER_LABELS, MODEL_CHAPTERS } from '../services/balanceModel';
+import { ResolvedModel, describeModel, resolveModelRef } from '../services/modelLibrary';
+import { GitCompare, Loader2, Play, CheckCircle } from 'lucide-react';
+
+interface Props {
+  accounts: AccountLine[];
+  library: ModelLibrary;
+  current: ResolvedModel | null;
+  clientRules?: string;
+  onAdopt: (model: ResolvedModel, accounts: AccountLine[]) => void;
+  onClose: () => void;
+}
+
+interface Alternative {
+  model: ResolvedModel;
+  accounts: AccountLine[]; // Same lines and ids as the balance, classified under `model`
+}
+
+// Chapter keys of GroupedFinancials, in MODEL_CHAPTERS order
+const CHAPTER_GROUPS = ['assets', 'liabilities', 'equity', 'revenue', 'expenses'] as const;
+
+const sumRubros = (type: AccountType, groups: RubroGroup[]) => groups.map(g => ({ name: g.name, amount: rubroAmount(type, g) }));
+
+/**
+ * Classifies the balance again under another model of the library, next to the current
+ * classification, so the auditor can see how the statements would change before adopting it.
+ * Mapping rules and classification memory are left out: they name rubros of the current model.
+ */
+const ModelComparison: React.FC<Props> = ({ accounts, library, current, clientRules, onAdopt, onClose }) => {
+  const [targetId, setTargetId] = useState(library.models.find(m => m.id !== current?.entry.id)?.id || '');
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [alternative, setAlternative] = useState<Alternative | null>(null);
+
+  const handleRun = async () => {
+    const model = resolveModelRef(library, { modelId: targetId });
+    if (!model) return;
+    setLoading(true);
+    setProgress('Clasificando...');
+    try {
+      const outcome = await classifyAccounts(
+        accounts, model.version.model, clientRules, [],
+        (done, total) => setProgress(`Clasificando (lote ${done} de ${total})...`)
+      );
+      // classifyAccounts keeps the order of its input; ids stay those of the balance
+      setAlternative({
+        model,
+        accounts: accounts.map((acc, i) => ({
+          ...acc,
+          type: outcome.accounts[i].type,
+          category: outcome.accounts[i].category,
+          isGroup: outcome.accounts[i].isGroup,
+          term: outcome.accounts[i].term,
+          manualOverride: false,
+          classificationSource: outcome.accounts[i].classificationSource
+        }))
+      });
+    } catch (error: any) {
+      alert(`Error al clasificar: ${error.message}`);
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const comparison = useMemo(() => {
+    if (!alternative) return null;
+    const before = groupFinancials(accounts, current?.version.model);
+    const after = groupFinancials(alternative.accounts, alternative.model.version.model);
+    const chapters = MODEL_CHAPTERS.map((type, i) => ({
+      type,
+      before: sumRubros(type, before[CHAPTER_GROUPS[i]]),
+      after: sumRubros(type, after[CHAPTER_GROUPS[i]])
+    }));
+    const moved = alternative.accounts.filter((acc, i) =>
+      acc.type !== accounts[i].type || acc.category !== accounts[i].category
+    );
+    return { chapters, moved };
+  }, [alternative, accounts, current]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <GitCompare className="text-corporate-600" /> Comparar Modelos
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Clasificación actual según <b>{describeModel(current)}</b>. Elija otro modelo para ver cómo quedaría el balance.
+          </p>
+          <div className="flex gap-3 mt-4">
+            <select
+              value={targetId}
+              onChange={(e) => { setTargetId(e.target.value); setAlternative(null); }}
+              className="flex-1 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            >
+              {library.models.map(m => (
+                <option key={m.id} value={m.id}>{m.name} (v{m.versions[m.versions.length - 1].version})</option>
+              ))}
+            </select>
+            <button
+              onClick={handleRun}
+              disabled={loading || !targetId || accounts.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700 disabled:opacity-50"
+            >
+              {loading ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+              {loading ? progress : 'Clasificar'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {!comparison && (
+            <p className="text-sm text-slate-400 text-center py-12">
+              El balance no se modifica hasta que adopte el modelo.
+            </p>
+          )}
+
+          {comparison && alternative && (
+            <>
+              <div className="grid grid-cols-2 gap-6">
+                <h3 className="font-bold text-slate-700">{describeModel(current)}</h3>
+                <h3 className="font-bold text-corporate-700">{describeModel(alternative.model)}</h3>
+              </div>
+              {comparison.chapters.filter(c => c.before.length + c.after.length > 0).map(chapter => (
+                <div key={chapter.type}>
+                  <h4 className="text-xs font-bold uppercase text-slate-500 border-b border-slate-200 pb-1 mb-2">
+                    {CHAPTER_LABELS[chapter.type]}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-6 text-sm">
+                    {[chapter.before, chapter.after].map((rubros, side) => (
+                      <table key={side} className="w-full">
+                        <tbody>
+                          {rubros.map(r => (
+                            <tr key={r.name} className="border-b border-dashed border-slate-100">
+                              <td className="py-1 text-slate-600">{r.name}</td>
+                              <td className="py-1 text-right font-mono text-slate-700 w-36">{formatAmount(r.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div>
+                <h4 className="text-xs font-bold uppercase text-slate-500 border-b border-slate-200 pb-1 mb-2">
+                  Cuentas que cambian de rubro ({comparison.moved.length})
+                </h4>
+                <table className="w-full text-xs text-left">
+                  <tbody>
+                    {comparison.moved.map(acc => {
+                      const before = accounts.find(a => a.id === acc.id)!;
+                      return (
+                        <tr key={acc.id} className="border-b border-slate-100">
+                          <td className="py-1 pr-3 font-mono text-slate-500 w-28">{acc.code}</td>
+                          <td className="py-1 pr-3 text-slate-700">{acc.name}</td>
+                          <td className="py-1 pr-3 text-slate-500">{before.category}</td>
+                          <td className="py-1 text-corporate-700">→ {acc.category}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cerrar
+          </button>
+          <button
+            onClick={() => alternative && onAdopt(alternative.model, alternative.accounts)}
+            disabled={!alternative}
+            className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700 disabled:opacity-50"
+          >
+            <CheckCircle size={16} /> Adoptar para el ejercicio
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelComparison;
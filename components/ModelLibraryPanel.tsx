@@ -0,0 +1,230 @@
+import React, { useState, useRef } from 'react';
+import { BalanceModel, LibraryModel, ModelLibrary } from '../types';
+import {
+  addModelVersion, createLibraryModel, latestVersion, removeLibraryModel, updateLibraryModel
+} from '../services/modelLibrary';
+import { normalizeModel } from '../services/balanceModel';
+import { extractStructureFromExcel } from '../services/aiService';
+import BalanceModelEditor from './BalanceModelEditor';
+import { Plus, Copy, Trash2, Star, Upload, Loader2, Save, History, RotateCcw } from 'lucide-react';
+
+interface Props {
+  library: ModelLibrary;
+  currentUser: string; // Signs new versions
+  onChange: (library: ModelLibrary) => void;
+}
+
+const ModelLibraryPanel: React.FC<Props> = ({ library, currentUser, onChange }) => {
+  const [selectedId, setSelectedId] = useState(library.defaultModelId);
+  const selected = library.models.find(m => m.id === selectedId) || library.models[0];
+  // Edits stay in the draft until saved as a new version
+  const [draft, setDraft] = useState<BalanceModel>(latestVersion(selected).model);
+  const [versionNote, setVersionNote] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const current = latestVersion(selected);
+  const isDirty = JSON.stringify(normalizeModel(draft)) !== JSON.stringify(current.model);
+
+  const selectModel = (entry: LibraryModel) => {
+    if (entry.id === selected.id) return;
+    if (isDirty && !window.confirm('Hay cambios sin guardar en el modelo actual. ¿Descartarlos?')) return;
+    setSelectedId(entry.id);
+    setDraft(latestVersion(entry).model);
+    setVersionNote('');
+  };
+
+  const addModel = (entry: LibraryModel) => {
+    onChange({ ...library, models: [...library.models, entry] });
+    setSelectedId(entry.id);
+    setDraft(latestVersion(entry).model);
+    setVersionNote('');
+  };
+
+  const handleNewModel = () => {
+    const name = window.prompt('Nombre del nuevo modelo:');
+    if (name?.trim()) addModel(createLibraryModel(name.trim()));
+  };
+
+  const handleDuplicate = () => {
+    const name = window.prompt('Nombre de la copia:', `${selected.name} (copia)`);
+    if (name?.trim()) addModel(createLibraryModel(name.trim(), draft, selected.description));
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`¿Eliminar el modelo "${selected.name}" y todas sus versiones? Los clientes que lo usen pasarán al modelo predeterminado.`)) return;
+    const updated = removeLibraryModel(library, selected.id);
+    onChange(updated);
+    const next = updated.models.find(m => m.id === updated.defaultModelId) || updated.models[0];
+    setSelectedId(next.id);
+    setDraft(latestVersion(next).model);
+  };
+
+  const handleSaveVersion = () => {
+    onChange(updateLibraryModel(library, addModelVersion(selected, draft, currentUser, versionNote.trim())));
+    setVersionNote('');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files?.length) return;
+    const file = e.target.files[0];
+    setIsImporting(true);
+
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
+        const base64 = (reader.result as string).split(',')[1];
+        const extractedModel = await extractStructureFromExcel(base64);
+        addModel(createLibraryModel(file.name.replace(/\.[^.]+$/, ''), extractedModel, `Importado de ${file.name}`));
+      } catch (error: any) {
+        console.error(error);
+        alert(error.message || "Error al importar el modelo.");
+      } finally {
+        setIsImporting(false);
+        if (importInputRef.current) importInputRef.current.value = '';
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-sky-500 outline-none";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        {library.models.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => selectModel(entry)}
+            className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${entry.id === selected.id ? 'border-sky-300 bg-sky-50' : 'border-slate-200 hover:bg-slate-50'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-sm text-slate-800 truncate">{entry.name}</span>
+              <span className="text-xs font-mono text-slate-400 shrink-0">v{latestVersion(entry).version}</span>
+            </div>
+            {entry.id === library.defaultModelId && (
+              <span className="inline-flex items-center gap-1 text-[11px] text-amber-700 mt-0.5">
+                <Star size={10} className="fill-amber-400 text-amber-400" /> Predeterminado
+              </span>
+            )}
+          </button>
+        ))}
+
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={handleNewModel}
+            className="flex-1 flex items-center justify-center gap-1 text-xs font-medium text-sky-700 border border-sky-200 hover:bg-sky-50 px-2 py-2 rounded-lg"
+          >
+            <Plus size={14} /> Nuevo
+          </button>
+          <input type="file" ref={importInputRef} className="hidden" accept=".xlsx,.xls,.csv" onChange={handleImport} />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex-1 flex items-center justify-center gap-1 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-2 py-2 rounded-lg disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 className="animate-spin" size={14} /> : <Upload size={14} />}
+            {isImporting ? 'Analizando...' : 'Desde Excel'}
+          </button>
+        </div>
+      </div>
+
+      <div className="md:col-span-2 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Nombre</label>
+            <input
+              value={selected.name}
+              onChange={(e) => onChange(updateLibraryModel(library, { ...selected, name: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descripción</label>
+            <input
+              value={selected.description || ''}
+              onChange={(e) => onChange(updateLibraryModel(library, { ...selected, description: e.target.value }))}
+              placeholder="Tipo de entidad o norma"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onChange({ ...library, defaultModelId: selected.id })}
+            disabled={selected.id === library.defaultModelId}
+            className="flex items-center gap-1 text-xs font-medium text-amber-700 border border-amber-200 hover:bg-amber-50 px-3 py-1.5 rounded-lg disabled:opacity-40"
+            title="Se usa para los clientes sin modelo asignado"
+          >
+            <Star size={14} /> Marcar como predeterminado
+          </button>
+          <button
+            onClick={handleDuplicate}
+            className="flex items-center gap-1 text-xs font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg"
+          >
+            <Copy size={14} /> Duplicar
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={selected.id === library.defaultModelId}
+            className="flex items-center gap-1 text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 px-3 py-1.5 rounded-lg disabled:opacity-40"
+          >
+            <Trash2 size={14} /> Eliminar
+          </button>
+        </div>
+
+        <BalanceModelEditor model={draft} onChange={setDraft} />
+
+        <div className="flex items-end gap-3 bg-slate-50 border border-slate-200 rounded-lg p-3">
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Nota de la versión</label>
+            <input
+              value={versionNote}
+              onChange={(e) => setVersionNote(e.target.value)}
+              placeholder="Qué cambió y por qué"
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={handleSaveVersion}
+            disabled={!isDirty}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm text-white bg-sky-600 hover:bg-sky-700 disabled:opacity-40 shrink-0"
+          >
+            <Save size={16} /> Guardar como v{current.version + 1}
+          </button>
+        </div>
+
+        <div>
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 mb-2">
+            <History size={16} className="text-slate-400" /> Versiones
+          </h4>
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg text-sm">
+            {[...selected.versions].reverse().map(v => (
+              <li key={v.version} className="flex items-center gap-3 px-3 py-2">
+                <span className="font-mono text-xs text-slate-500 w-8">v{v.version}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700 truncate">{v.note || (v.version === 1 ? 'Versión inicial' : 'Sin nota')}</p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(v.createdAt).toLocaleString('es-AR')}{v.createdBy ? ` · ${v.createdBy}` : ''}
+                  </p>
+                </div>
+                {v.version !== current.version && (
+                  <button
+                    onClick={() => setDraft(v.model)}
+                    className="flex items-center gap-1 text-xs text-sky-700 hover:bg-sky-50 px-2 py-1 rounded"
+                    title="Cargar esta versión en el editor; al guardar se crea una versión nueva"
+                  >
+                    <RotateCcw size={12} /> Cargar
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelLibraryPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FiscalPeriod, PeriodStatus } from '../types';
+import { PERIOD_STATUS_LABELS, formatClosingDate, sortPeriods } from '../services/periods';
+import { CalendarDays, Plus } from 'lucide-react';
+
+interface Props {
+  periods: FiscalPeriod[];
+  activePeriodId: string | null;
+  onSelect: (periodId: string) => void;
+  onCreate: (label: string, closingDate: string, status: PeriodStatus) => void;
+  onStatusChange: (periodId: string, status: PeriodStatus) => void;
+}
+
+const PeriodSelector: React.FC<Props> = ({ periods, activePeriodId, onSelect, onCreate, onStatusChange }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [newPeriod, setNewPeriod] = useState<{ label: string; closingDate: string; status: PeriodStatus }>({
+    label: '', closingDate: '', status: 'BORRADOR'
+  });
+
+  const activePeriod = periods.find(p => p.id === activePeriodId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPeriod.label && newPeriod.closingDate) {
+      onCreate(newPeriod.label, newPeriod.closingDate, newPeriod.status);
+      setIsModalOpen(false);
+      setNewPeriod({ label: '', closingDate: '', status: 'BORRADOR' });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <CalendarDays size={18} className="text-slate-400" />
+      <select
+        value={activePeriodId || ''}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={periods.length === 0}
+        className="text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white outline-none focus:ring-2 focus:ring-corporate-500 disabled:opacity-50"
+      >
+        {periods.length === 0 && <option value="">Sin ejercicios</option>}
+        {sortPeriods(periods).map(p => (
+          <option key={p.id} value={p.id}>{p.label} ({formatClosingDate(p.closingDate)})</option>
+        ))}
+      </select>
+
+      {activePeriod && (
+        <select
+          value={activePeriod.status}
+          onChange={(e) => onStatusChange(activePeriod.id, e.target.value as PeriodStatus)}
+          className={`text-xs font-medium px-2 py-1.5 rounded border-0 outline-none cursor-pointer
+            ${activePeriod.status === 'BORRADOR' ? 'bg-gray-200 text-gray-700' : ''}
+            ${activePeriod.status === 'EN_REVISION' ? 'bg-amber-100 text-amber-800' : ''}
+            ${activePeriod.status === 'CERRADO' ? 'bg-green-100 text-green-800' : ''}
+          `}
+        >
+          {(Object.keys(PERIOD_STATUS_LABELS) as PeriodStatus[]).map(s => (
+            <option key={s} value={s}>{PERIOD_STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+      )}
+
+      <button
+        onClick={() => setIsModalOpen(true)}
+        className="p-1.5 text-slate-500 hover:text-corporate-700 hover:bg-slate-100 rounded-lg transition-colors"
+        title="Nuevo Ejercicio"
+      >
+        <Plus size={18} />
+      </button>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-2xl p-8 w-full max-w-md">
+            <h2 className="text-2xl font-bold mb-6">Nuevo Ejercicio</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Denominación</label>
+                <input
+                  type="text"
+                  required
+                  placeholder="Ejercicio 2024"
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-corporate-500 outline-none"
+                  value={newPeriod.label}
+                  onChange={e => setNewPeriod({...newPeriod, label: e.target.value})}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Fecha de Cierre</label>
+                <input
+                  type="date"
+                  required
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-corporate-500 outline-none"
+                  value={newPeriod.closingDate}
+                  onChange={e => setNewPeriod({...newPeriod, closingDate: e.target.value})}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Estado</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-corporate-500 outline-none"
+                  value={newPeriod.status}
+                  onChange={e => setNewPeriod({...newPeriod, status: e.target.value as PeriodStatus})}
+                >
+                  {(Object.keys(PERIOD_STATUS_LABELS) as PeriodStatus[]).map(s => (
+                    <option key={s} value={s}>{PERIOD_STATUS_LABELS[s]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="pt-4 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(false)}
+                  className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700"
+                >
+                  Crear Ejercicio
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodSelector;
@@ -0,0 +1,145 @@
+import React, { useState, useRef } from 'react';
+import { PriceIndexTable } from '../types';
+import { formatMonth, mergePriceIndices, parsePriceIndexRows } from '../services/inflation';
+import { getSheetRows, readWorkbook } from '../services/spreadsheetImport';
+import { Upload, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  table: PriceIndexTable | null;
+  onChange: (table: PriceIndexTable | null) => void;
+}
+
+// Months shown below the summary, newest first
+const RECENT_MONTHS = 12;
+
+const PriceIndexPanel: React.FC<Props> = ({ table, onChange }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [month, setMonth] = useState('');
+  const [value, setValue] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const indices = table?.indices || [];
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files?.length) return;
+    const file = e.target.files[0];
+    setIsImporting(true);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const workbook = readWorkbook((reader.result as string).split(',')[1]);
+        // The first sheet with months in it; FACPCE files sometimes open with a notes sheet
+        const parsed = workbook.SheetNames
+          .map(name => parsePriceIndexRows(getSheetRows(workbook, name)))
+          .find(rows => rows.length > 0) || [];
+        if (parsed.length === 0) {
+          alert("No se encontraron meses con índice en el archivo. Se espera una fila por mes con el período y el índice.");
+          return;
+        }
+        onChange(mergePriceIndices(table, parsed, file.name));
+        alert(`Se importaron ${parsed.length} meses (${formatMonth(parsed[0].month)} a ${formatMonth(parsed[parsed.length - 1].month)}).`);
+      } catch (error: any) {
+        console.error(error);
+        alert(error.message || "Error al leer la tabla de índices.");
+      } finally {
+        setIsImporting(false);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleAdd = () => {
+    const parsed = Number(value.replace(',', '.'));
+    if (!month || !(parsed > 0)) {
+      alert("Ingrese el mes y un índice mayor a cero.");
+      return;
+    }
+    onChange(mergePriceIndices(table, [{ month, value: parsed }]));
+    setMonth('');
+    setValue('');
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('¿Eliminar la tabla de índices? Los estados reexpresados dejarán de estar disponibles.')) return;
+    onChange(null);
+  };
+
+  const inputClass = "border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-sky-500 outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx,.xls,.csv" onChange={handleImport} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center gap-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+          Importar Tabla FACPCE
+        </button>
+        {indices.length > 0 && (
+          <>
+            <span className="text-sm text-slate-500">
+              {indices.length} meses, de {formatMonth(indices[0].month)} a {formatMonth(indices[indices.length - 1].month)}
+              {table?.source ? ` · ${table.source}` : ''}
+            </span>
+            <button
+              onClick={handleClear}
+              className="ml-auto flex items-center gap-1 text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 px-3 py-1.5 rounded-lg"
+            >
+              <Trash2 size={14} /> Eliminar tabla
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-end gap-3 bg-slate-50 border border-slate-200 rounded-lg p-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Mes</label>
+          <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Índice</label>
+          <input value={value} onChange={(e) => setValue(e.target.value)} placeholder="7864,13" className={`${inputClass} font-mono w-36`} />
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 text-sm font-medium text-sky-700 border border-sky-200 hover:bg-sky-100 px-3 py-2 rounded-lg"
+        >
+          <Plus size={16} /> Agregar mes
+        </button>
+        <p className="text-xs text-slate-400 flex-1">Un mes ya cargado se reemplaza.</p>
+      </div>
+
+      {indices.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">
+          Sin índices cargados. Los estados contables se presentan solo en valores históricos.
+        </p>
+      ) : (
+        <table className="w-full md:w-1/2 text-sm">
+          <thead className="text-xs uppercase text-slate-400">
+            <tr>
+              <th className="text-left font-semibold py-1">Mes</th>
+              <th className="text-right font-semibold py-1">Índice</th>
+            </tr>
+          </thead>
+          <tbody>
+            {indices.slice(-RECENT_MONTHS).reverse().map(i => (
+              <tr key={i.month} className="border-t border-slate-100">
+                <td className="py-1 text-slate-600">{formatMonth(i.month)}</td>
+                <td className="py-1 text-right font-mono text-slate-700">
+                  {i.value.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default PriceIndexPanel;
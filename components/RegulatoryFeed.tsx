@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { RegulatoryUpdate } from '../types';
-import { fetchRegulatoryUpdates } from '../services/geminiService';
+import { fetchRegulatoryUpdates } from '../services/aiService';
 import { Globe, RefreshCw, ExternalLink, ShieldAlert } from 'lucide-react';
 
 const RegulatoryFeed: React.FC = () => {
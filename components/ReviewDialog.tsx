@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ReviewRecord, ReviewStatus } from '../types';
+import { REVIEW_STATUS_LABELS, PENDING_REVIEW, signOff, formatSignOff } from '../services/review';
+import { ClipboardCheck, PenLine, CheckCircle } from 'lucide-react';
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  PENDIENTE: 'bg-slate-50 text-slate-500 border-slate-200',
+  REVISADO: 'bg-green-50 text-green-700 border-green-200',
+  OBSERVADO: 'bg-red-50 text-red-700 border-red-200'
+};
+
+interface Props {
+  title: string; // Account or rubro under review
+  subtitle: string;
+  review?: ReviewRecord;
+  defaultUser: string;
+  onSave: (review: ReviewRecord) => void;
+  onCancel: () => void;
+}
+
+const ReviewDialog: React.FC<Props> = ({ title, subtitle, review = PENDING_REVIEW, defaultUser, onSave, onCancel }) => {
+  const [status, setStatus] = useState<ReviewStatus>(review.status);
+  const [note, setNote] = useState(review.note || '');
+  const [user, setUser] = useState(defaultUser);
+
+  const signedBy = () => {
+    if (!user.trim()) {
+      alert("Indique quién firma.");
+      return null;
+    }
+    return signOff(user.trim());
+  };
+
+  // The preparer signs the work as done; the status is the reviewer's call
+  const handlePrepare = () => {
+    const sign = signedBy();
+    if (sign) onSave({ ...review, note: note.trim() || undefined, preparedBy: sign });
+  };
+
+  const handleReview = () => {
+    if (status === 'OBSERVADO' && !note.trim()) {
+      alert("Describa la observación en la nota.");
+      return;
+    }
+    if (status === 'PENDIENTE') {
+      onSave({ ...review, status, note: note.trim() || undefined, reviewedBy: undefined });
+      return;
+    }
+    const sign = signedBy();
+    if (sign) onSave({ ...review, status, note: note.trim() || undefined, reviewedBy: sign });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="text-corporate-600" /> {title}
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">{subtitle}</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="font-semibold text-slate-500 uppercase">Preparó</p>
+              <p className="text-slate-800 mt-1">{formatSignOff(review.preparedBy)}</p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="font-semibold text-slate-500 uppercase">Revisó</p>
+              <p className="text-slate-800 mt-1">{formatSignOff(review.reviewedBy)}</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Estado</label>
+            <div className="flex gap-2">
+              {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map(s => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => setStatus(s)}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium ${status === s ? REVIEW_STATUS_STYLES[s] + ' ring-2 ring-offset-1 ring-corporate-300' : 'bg-white text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {REVIEW_STATUS_LABELS[s]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Nota</label>
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={3}
+              placeholder="Procedimiento aplicado, referencia al papel de trabajo u observación"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Firma</label>
+            <input
+              value={user}
+              onChange={e => setUser(e.target.value)}
+              placeholder="Nombre del auditor"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-corporate-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handlePrepare}
+            className="flex items-center gap-2 px-4 py-2 border border-corporate-300 text-corporate-700 rounded-lg hover:bg-corporate-50"
+          >
+            <PenLine size={16} /> Firmar preparación
+          </button>
+          <button
+            type="button"
+            onClick={handleReview}
+            className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700"
+          >
+            <CheckCircle size={16} /> Registrar revisión
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,290 @@
+import React, { useState, useMemo } from 'react';
+import { AnnexInputs, AnnexMovement, ExpenseFunction } from '../types';
+import { GroupedFinancials, formatAmount } from '../services/financialStatements';
+import { EXPENSE_FUNCTIONS, EXPENSE_FUNCTION_LABELS, buildStatutoryAnnexes, defaultExpenseFunction } from '../services/annexes';
+import { Table, AlertTriangle, Save } from 'lucide-react';
+
+type AnnexTab = 'A' | 'E' | 'F' | 'H';
+
+const TAB_LABELS: Record<AnnexTab, string> = {
+  A: 'Anexo A - Bienes de Uso',
+  E: 'Anexo E - Previsiones',
+  F: 'Anexo F - Costo de Ventas',
+  H: 'Anexo H - Gastos'
+};
+
+interface Props {
+  financials: GroupedFinancials;
+  priorFinancials: GroupedFinancials | null;
+  inputs: AnnexInputs;
+  onSave: (inputs: AnnexInputs) => void;
+  onClose: () => void;
+}
+
+/**
+ * Statutory annexes as they will be exported, with the figures the balances cannot tell typed
+ * next to them. An empty field shows the derived value as placeholder and keeps deriving it.
+ */
+const StatutoryAnnexes: React.FC<Props> = ({ financials, priorFinancials, inputs, onSave, onClose }) => {
+  const [tab, setTab] = useState<AnnexTab>('A');
+  const [draft, setDraft] = useState<AnnexInputs>(inputs);
+
+  const annexes = useMemo(
+    () => buildStatutoryAnnexes(financials, priorFinancials, draft),
+    [financials, priorFinancials, draft]
+  );
+  const hasPrior = !!priorFinancials;
+
+  const setMovement = (key: string, field: keyof AnnexMovement, value: number | undefined) => setDraft(prev => ({
+    ...prev,
+    movements: { ...prev.movements, [key]: { ...prev.movements?.[key], [field]: value } }
+  }));
+
+  const setExpenseFunction = (key: string, fn: ExpenseFunction | undefined) => setDraft(prev => {
+    const expenseFunctions = { ...prev.expenseFunctions };
+    if (fn) expenseFunctions[key] = fn;
+    else delete expenseFunctions[key];
+    return { ...prev, expenseFunctions };
+  });
+
+  const amountInput = (value: number | undefined, derived: number, onChange: (value: number | undefined) => void) => (
+    <input
+      type="number"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+      placeholder={formatAmount(derived)}
+      className="w-full px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-corporate-200 text-right font-mono text-xs placeholder:text-slate-400"
+    />
+  );
+
+  const amountCell = (value: number, bold = false) => (
+    <td className={`p-2 text-right font-mono ${bold ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>{formatAmount(value)}</td>
+  );
+
+  const emptyRow = (colSpan: number, text: string) => (
+    <tr><td colSpan={colSpan} className="p-8 text-center text-slate-400">{text}</td></tr>
+  );
+
+  const differenceNote = (difference: number) => difference !== 0 && (
+    <div className="flex items-center justify-end gap-1 text-[11px] text-amber-700" title="Inicio + altas - bajas no da el saldo de cierre">
+      <AlertTriangle size={11} /> {formatAmount(difference)}
+    </div>
+  );
+
+  const renderFixedAssets = () => (
+    <table className="w-full text-sm text-left">
+      <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+        <tr>
+          <th className="p-2">Cuenta</th>
+          <th className="p-2 w-28 text-right">Valor al inicio</th>
+          <th className="p-2 w-28 text-right">Altas</th>
+          <th className="p-2 w-28 text-right">Bajas</th>
+          <th className="p-2 w-28 text-right">Valor al cierre</th>
+          <th className="p-2 w-28 text-right">Amort. acum. al inicio</th>
+          <th className="p-2 w-28 text-right">Amort. de las bajas</th>
+          <th className="p-2 w-28 text-right">Amort. del ejercicio</th>
+          <th className="p-2 w-28 text-right">Amort. acum. al cierre</th>
+          <th className="p-2 w-28 text-right">Neto resultante</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {annexes.fixedAssets.map(row => {
+          const m = draft.movements?.[row.key] || {};
+          return (
+            <tr key={row.key}>
+              <td className="p-2 text-slate-700">{row.name}</td>
+              {hasPrior ? amountCell(row.opening) : <td className="p-1">{amountInput(m.opening, row.opening, v => setMovement(row.key, 'opening', v))}</td>}
+              <td className="p-1">{amountInput(m.additions, row.additions, v => setMovement(row.key, 'additions', v))}</td>
+              <td className="p-1">
+                {amountInput(m.disposals, row.disposals, v => setMovement(row.key, 'disposals', v))}
+                {differenceNote(row.difference)}
+              </td>
+              {amountCell(row.closing)}
+              {hasPrior ? amountCell(row.depreciationOpening) : <td className="p-1">{amountInput(m.depreciationOpening, row.depreciationOpening, v => setMovement(row.key, 'depreciationOpening', v))}</td>}
+              <td className="p-1">{amountInput(m.depreciationDisposals, row.depreciationDisposals, v => setMovement(row.key, 'depreciationDisposals', v))}</td>
+              {amountCell(row.depreciationYear)}
+              {amountCell(row.depreciationClosing)}
+              {amountCell(row.net, true)}
+            </tr>
+          );
+        })}
+        {annexes.fixedAssets.length === 0 && emptyRow(10, 'Sin cuentas en el rubro Bienes de Uso.')}
+      </tbody>
+    </table>
+  );
+
+  const renderAllowances = () => (
+    <table className="w-full text-sm text-left">
+      <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+        <tr>
+          <th className="p-2">Cuenta</th>
+          <th className="p-2 w-48">Rubro</th>
+          <th className="p-2 w-32 text-right">Saldo al inicio</th>
+          <th className="p-2 w-32 text-right">Aumentos</th>
+          <th className="p-2 w-32 text-right">Disminuciones</th>
+          <th className="p-2 w-32 text-right">Saldo al cierre</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {annexes.allowances.map(section => (
+          <React.Fragment key={section.title}>
+            <tr className="bg-slate-50/60">
+              <td colSpan={6} className="p-2 text-xs font-bold uppercase text-slate-600">{section.title}</td>
+            </tr>
+            {section.rows.map(row => {
+              const m = draft.movements?.[row.key] || {};
+              return (
+                <tr key={row.key}>
+                  <td className="p-2 text-slate-700">{row.name}</td>
+                  <td className="p-2 text-xs text-slate-400">{row.rubro}</td>
+                  {hasPrior ? amountCell(row.opening) : <td className="p-1">{amountInput(m.opening, row.opening, v => setMovement(row.key, 'opening', v))}</td>}
+                  <td className="p-1">{amountInput(m.additions, row.additions, v => setMovement(row.key, 'additions', v))}</td>
+                  <td className="p-1">
+                    {amountInput(m.disposals, row.disposals, v => setMovement(row.key, 'disposals', v))}
+                    {differenceNote(row.difference)}
+                  </td>
+                  {amountCell(row.closing, true)}
+                </tr>
+              );
+            })}
+          </React.Fragment>
+        ))}
+        {annexes.allowances.length === 0 && emptyRow(6, 'Sin previsiones en el balance.')}
+      </tbody>
+    </table>
+  );
+
+  const renderCostOfSales = () => {
+    const cost = annexes.costOfSales;
+    if (!cost) return <p className="p-8 text-center text-slate-400">Sin bienes de cambio ni costo de ventas en el balance.</p>;
+    const line = (label: string, content: React.ReactNode, bold = false) => (
+      <tr className={bold ? 'font-bold border-t border-slate-300' : ''}>
+        <td className="p-2 text-slate-700">{label}</td>
+        <td className="p-2 w-48 text-right font-mono">{content}</td>
+      </tr>
+    );
+    return (
+      <div className="max-w-xl mx-auto p-6">
+        <table className="w-full text-sm">
+          <tbody>
+            {line('Existencia al inicio', hasPrior
+              ? formatAmount(cost.openingInventory)
+              : amountInput(draft.openingInventory, cost.openingInventory, v => setDraft(prev => ({ ...prev, openingInventory: v }))))}
+            {line('Compras del ejercicio', amountInput(draft.purchases, cost.purchases, v => setDraft(prev => ({ ...prev, purchases: v }))))}
+            {line('Gastos imputados al costo (Anexo H)', formatAmount(cost.productionCosts))}
+            {line('Existencia al cierre', `(${formatAmount(cost.closingInventory)})`)}
+            {line('Costo de Mercaderías Vendidas', formatAmount(cost.costOfSales), true)}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-500 mt-4">
+          Costo de ventas registrado: <span className="font-mono">{formatAmount(cost.booked)}</span>.{' '}
+          {cost.purchasesDerived
+            ? 'Sin compras cargadas, se deducen del costo registrado.'
+            : cost.difference !== 0 && (
+              <span className="text-amber-700">Diferencia con el anexo: <span className="font-mono">{formatAmount(cost.difference)}</span>.</span>
+            )}
+        </p>
+      </div>
+    );
+  };
+
+  const renderExpenses = () => (
+    <table className="w-full text-sm text-left">
+      <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-semibold sticky top-0">
+        <tr>
+          <th className="p-2">Cuenta</th>
+          <th className="p-2 w-48">Rubro</th>
+          <th className="p-2 w-56">Función</th>
+          <th className="p-2 w-32 text-right">Importe</th>
+          {hasPrior && <th className="p-2 w-32 text-right">Ejercicio anterior</th>}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {annexes.expenses.rows.map(row => (
+          <tr key={row.key} className={row.fn === 'EXCLUDED' ? 'text-slate-400' : ''}>
+            <td className="p-2">{row.name}</td>
+            <td className="p-2 text-xs text-slate-400">{row.rubro}</td>
+            <td className="p-1">
+              <select
+                value={row.isDefault ? '' : row.fn}
+                onChange={(e) => setExpenseFunction(row.key, (e.target.value || undefined) as ExpenseFunction | undefined)}
+                className={`w-full text-xs px-2 py-1.5 rounded border border-slate-200 outline-none bg-white ${row.isDefault ? 'text-slate-400' : 'text-slate-700'}`}
+              >
+                <option value="">Auto: {EXPENSE_FUNCTION_LABELS[defaultExpenseFunction(row.rubro)]}</option>
+                {[...EXPENSE_FUNCTIONS, 'EXCLUDED' as const].map(fn => (
+                  <option key={fn} value={fn}>{EXPENSE_FUNCTION_LABELS[fn]}</option>
+                ))}
+              </select>
+            </td>
+            <td className="p-2 text-right font-mono">{formatAmount(row.amount)}</td>
+            {hasPrior && <td className="p-2 text-right font-mono">{formatAmount(row.prior || 0)}</td>}
+          </tr>
+        ))}
+        {annexes.expenses.rows.length === 0 && emptyRow(hasPrior ? 5 : 4, 'Sin cuentas de egresos.')}
+      </tbody>
+      {annexes.expenses.rows.length > 0 && (
+        <tfoot className="text-xs border-t-2 border-slate-300">
+          {EXPENSE_FUNCTIONS.map(fn => (
+            <tr key={fn}>
+              <td colSpan={3} className="px-2 py-1 text-right uppercase text-slate-500">{EXPENSE_FUNCTION_LABELS[fn]}</td>
+              <td className="px-2 py-1 text-right font-mono">{formatAmount(annexes.expenses.totals[fn])}</td>
+              {hasPrior && <td />}
+            </tr>
+          ))}
+          <tr className="font-bold">
+            <td colSpan={3} className="px-2 py-1 text-right uppercase">Total</td>
+            <td className="px-2 py-1 text-right font-mono">{formatAmount(annexes.expenses.total)}</td>
+            {hasPrior && <td className="px-2 py-1 text-right font-mono">{formatAmount(annexes.expenses.priorTotal || 0)}</td>}
+          </tr>
+        </tfoot>
+      )}
+    </table>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-7xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Table className="text-corporate-600" /> Anexos
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Los campos vacíos se deducen de los saldos{hasPrior ? ' del ejercicio y del anterior' : ''}; lo cargado a mano prevalece.
+          </p>
+          <div className="flex gap-2 mt-4">
+            {(Object.keys(TAB_LABELS) as AnnexTab[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={`px-3 py-1.5 text-sm rounded-lg border ${tab === key ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+              >
+                {TAB_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {tab === 'A' && renderFixedAssets()}
+          {tab === 'E' && renderAllowances()}
+          {tab === 'F' && renderCostOfSales()}
+          {tab === 'H' && renderExpenses()}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cerrar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex items-center gap-2 px-4 py-2 bg-corporate-600 text-white rounded-lg hover:bg-corporate-700"
+          >
+            <Save size={16} /> Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatutoryAnnexes;
@@ -0,0 +1,63 @@
+import { AccountLine, AccountType, MappingRule, Term } from "../types";
+
+// Chapter layout shared by most Argentine charts of accounts
+export const ARGENTINE_CHAPTER_RULES: Omit<MappingRule, 'id'>[] = [
+  { matchType: 'CODE_PREFIX', pattern: '1', type: AccountType.ASSET },
+  { matchType: 'CODE_PREFIX', pattern: '2', type: AccountType.LIABILITY },
+  { matchType: 'CODE_PREFIX', pattern: '3', type: AccountType.EQUITY },
+  { matchType: 'CODE_PREFIX', pattern: '4', type: AccountType.REVENUE },
+  { matchType: 'CODE_PREFIX', pattern: '5', type: AccountType.EXPENSE }
+];
+
+export const createMappingRule = (rule: Omit<MappingRule, 'id'>): MappingRule => ({
+  id: crypto.randomUUID(),
+  ...rule
+});
+
+// Lowercase without accents, so "Créditos" and "CREDITOS" match the same pattern
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const ruleMatches = (rule: MappingRule, line: Partial<AccountLine>): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return false;
+  if (rule.matchType === 'CODE_PREFIX') {
+    return !!line.code && line.code.trim().startsWith(pattern);
+  }
+  return !!line.name && normalizeText(line.name).includes(normalizeText(pattern));
+};
+
+// Name patterns are explicit, so they outrank any code prefix; longer prefixes outrank shorter ones
+const specificity = (rule: MappingRule): number =>
+  rule.matchType === 'NAME_PATTERN' ? Number.MAX_SAFE_INTEGER : rule.pattern.trim().length;
+
+export interface MappingMatch {
+  type: AccountType;
+  category?: string; // Present only when the line needs no AI pass at all
+  term?: Term;
+}
+
+/**
+ * Resolves a line against the mapping table. Rules are expected client-first, so on equal
+ * specificity the client rule wins. A rule with a category fully classifies the line;
+ * otherwise the best chapter-only rule just fixes the type.
+ */
+export const matchMappingRules = (line: Partial<AccountLine>, rules: MappingRule[]): MappingMatch | null => {
+  const matching = rules.filter(r => ruleMatches(r, line));
+  if (matching.length === 0) return null;
+
+  const best = (candidates: MappingRule[]) =>
+    candidates.reduce((a, b) => specificity(b) > specificity(a) ? b : a);
+
+  // The term comes from the most specific rule that sets one, whatever it says of the rubro
+  const withTerm = matching.filter(r => r.term);
+  const term = withTerm.length > 0 ? best(withTerm).term : undefined;
+
+  const withCategory = matching.filter(r => r.category && r.category.trim());
+  if (withCategory.length > 0) {
+    const rule = best(withCategory);
+    return { type: rule.type, category: rule.category!.trim(), term };
+  }
+
+  return { type: best(matching).type, term };
+};
@@ -0,0 +1,153 @@
+import { AccountLine } from "../types";
+
+/**
+ * Parent/child structure of a trial balance. Nothing is stored: the tree is derived from the
+ * account codes (1.1.01.002 hangs from 1.1.01) and, for lines whose code does not say, from
+ * the indentation of the name in the source file.
+ */
+export interface AccountNode {
+  account: AccountLine;
+  parentId?: string;
+  depth: number;
+  children: AccountNode[];
+  rollup: number; // Sum of the detail balances below the node; its own balance for a detail line
+}
+
+const CODE_SEPARATORS = /[.\-\/\s]+/;
+
+const normalizeCode = (code: string): string =>
+  code.trim().split(CODE_SEPARATORS).filter(Boolean).join('.');
+
+// Possible parent codes, closest first: by segment for "1.1.01", by digit for plans like "110101"
+const parentCodes = (code: string, byDigit: boolean): string[] => {
+  const segments = code.split('.');
+  if (segments.length > 1) {
+    return segments.slice(1).map((_, i) => segments.slice(0, segments.length - 1 - i).join('.'));
+  }
+  if (!byDigit) return [];
+  return Array.from({ length: code.length - 1 }, (_, i) => code.substring(0, code.length - 1 - i));
+};
+
+// Lines numbered 1, 2 … 12 are a flat list, not "10" under "1". A plan of undelimited codes
+// lists 1, 11, 111, 112, 12, so its codes are never in plain ascending numeric order.
+const usesDigitPlan = (codes: string[]): boolean => {
+  const plain = codes.filter(c => /^\d+$/.test(c));
+  return plain.some((c, i) => i > 0 && Number(c) < Number(plain[i - 1]));
+};
+
+/** Parent id of each line that has one. Headers and detail lines may come in any order. */
+export const resolveParents = (accounts: AccountLine[]): Map<string, string> => {
+  const byCode = new Map<string, AccountLine>();
+  accounts.forEach(acc => {
+    const code = normalizeCode(acc.code);
+    if (code && !byCode.has(code)) byCode.set(code, acc);
+  });
+
+  const byDigit = usesDigitPlan(accounts.map(a => normalizeCode(a.code)));
+
+  // Indentation only means something when the file actually varies it
+  const useIndent = new Set(accounts.map(a => a.indent || 0)).size > 1;
+  const indentStack: AccountLine[] = [];
+  const parents = new Map<string, string>();
+
+  accounts.forEach(acc => {
+    const code = normalizeCode(acc.code);
+    let parent = code
+      ? parentCodes(code, byDigit).map(c => byCode.get(c)).find(p => p && p.id !== acc.id)
+      : undefined;
+
+    if (useIndent) {
+      const indent = acc.indent || 0;
+      while (indentStack.length > 0 && (indentStack[indentStack.length - 1].indent || 0) >= indent) indentStack.pop();
+      if (!parent) parent = indentStack[indentStack.length - 1];
+      indentStack.push(acc);
+    }
+
+    if (parent) parents.set(acc.id, parent.id);
+  });
+
+  // Codes and indentation can disagree; a line never ends up below itself
+  parents.forEach((_, id) => {
+    const seen = new Set<string>([id]);
+    let current = parents.get(id);
+    while (current) {
+      if (seen.has(current)) {
+        parents.delete(id);
+        return;
+      }
+      seen.add(current);
+      current = parents.get(current);
+    }
+  });
+
+  return parents;
+};
+
+/** Roots in file order, each with its children in file order. */
+export const buildAccountTree = (accounts: AccountLine[]): AccountNode[] => {
+  const parents = resolveParents(accounts);
+  const nodes = new Map<string, AccountNode>(
+    accounts.map(acc => [acc.id, { account: acc, parentId: parents.get(acc.id), depth: 0, children: [], rollup: 0 }])
+  );
+  const roots: AccountNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  // Imported "TOTAL ..." lines without children repeat amounts already counted, so they add nothing
+  const settle = (node: AccountNode, depth: number): number => {
+    node.depth = depth;
+    node.rollup = node.children.length > 0
+      ? node.children.reduce((sum, child) => sum + settle(child, depth + 1), 0)
+      : node.account.isGroup ? 0 : node.account.balance;
+    return node.rollup;
+  };
+  roots.forEach(root => settle(root, 0));
+  return roots;
+};
+
+/** Lines that carry their own balance: neither flagged as totals nor parents of other lines. */
+export const getDetailLines = (accounts: AccountLine[]): AccountLine[] => {
+  const parentIds = new Set(resolveParents(accounts).values());
+  return accounts.filter(a => !a.isGroup && !parentIds.has(a.id));
+};
+
+export const hasHierarchy = (roots: AccountNode[]): boolean => roots.some(r => r.children.length > 0);
+
+// Depth-first, skipping what hangs from collapsed nodes
+export const flattenTree = (roots: AccountNode[], collapsed: Set<string>): AccountNode[] => {
+  const rows: AccountNode[] = [];
+  const visit = (node: AccountNode) => {
+    rows.push(node);
+    if (!collapsed.has(node.account.id)) node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return rows;
+};
+
+export const findNode = (roots: AccountNode[], id: string): AccountNode | undefined => {
+  for (const root of roots) {
+    if (root.account.id === id) return root;
+    const found = findNode(root.children, id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const collectDetails = (node: AccountNode): AccountLine[] =>
+  node.children.length === 0
+    ? (node.account.isGroup ? [] : [node.account])
+    : node.children.flatMap(collectDetails);
+
+export const ancestorIds = (accounts: AccountLine[], id: string): string[] => {
+  const parents = resolveParents(accounts);
+  const ids: string[] = [];
+  let current = parents.get(id);
+  while (current) {
+    ids.push(current);
+    current = parents.get(current);
+  }
+  return ids;
+};
@@ -0,0 +1,146 @@
+import { AccountLine, AdjustingEntry, JournalLine } from "../types";
+import { getDetailLines } from "./accountTree";
+import { formatAmount, lineKey } from "./financialStatements";
+
+/**
+ * Journal of adjusting entries (asientos de ajuste) of a period. Entries never touch the imported
+ * lines: the adjusted trial balance is derived from both, so the original figures stay at hand.
+ * Lines point at accounts by line key and only detail lines take adjustments.
+ */
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const EMPTY_JOURNAL_LINE: JournalLine = { accountKey: '', debit: 0, credit: 0 };
+
+export const entryTotals = (entry: Pick<AdjustingEntry, 'lines'>): { debit: number; credit: number } => ({
+  debit: round2(entry.lines.reduce((s, l) => s + (l.debit || 0), 0)),
+  credit: round2(entry.lines.reduce((s, l) => s + (l.credit || 0), 0))
+});
+
+export const isBalanced = (entry: Pick<AdjustingEntry, 'lines'>): boolean => {
+  const totals = entryTotals(entry);
+  return totals.debit > 0 && Math.abs(totals.debit - totals.credit) < 0.005;
+};
+
+export const nextEntryNumber = (entries: AdjustingEntry[]): number =>
+  entries.reduce((max, e) => Math.max(max, e.number), 0) + 1;
+
+// Lines left blank in the editor are dropped rather than reported
+export const filledLines = (lines: JournalLine[]): JournalLine[] =>
+  lines.filter(l => l.accountKey || l.debit || l.credit);
+
+// Every reason the entry cannot be recorded; empty when it can
+export const validateEntry = (entry: AdjustingEntry, accounts: AccountLine[]): string[] => {
+  const errors: string[] = [];
+  const keys = new Set(getDetailLines(accounts).map(lineKey));
+  const lines = filledLines(entry.lines);
+
+  if (!entry.date) errors.push('Falta la fecha.');
+  if (!entry.description.trim()) errors.push('Falta la descripción.');
+  if (!entry.reference.trim()) errors.push('Falta la referencia (papel de trabajo o comprobante).');
+  if (lines.length < 2) errors.push('El asiento necesita al menos dos líneas.');
+  lines.forEach((l, i) => {
+    if (!keys.has(l.accountKey)) errors.push(`Línea ${i + 1}: elija una cuenta del balance.`);
+    if (l.debit < 0 || l.credit < 0) errors.push(`Línea ${i + 1}: los importes no pueden ser negativos.`);
+    else if ((l.debit > 0) === (l.credit > 0)) errors.push(`Línea ${i + 1}: indique un importe en el Debe o en el Haber, no en ambos.`);
+  });
+  if (lines.length >= 2 && !isBalanced({ lines })) {
+    const totals = entryTotals({ lines });
+    errors.push(`El asiento no balancea: Debe ${formatAmount(totals.debit)} y Haber ${formatAmount(totals.credit)}.`);
+  }
+  return errors;
+};
+
+// Entries with lines whose account is no longer in the balance (renamed, recoded or deleted)
+export const findUnmatchedEntries = (entries: AdjustingEntry[], accounts: AccountLine[]): AdjustingEntry[] => {
+  const keys = new Set(getDetailLines(accounts).map(lineKey));
+  return entries.filter(e => e.lines.some(l => !keys.has(l.accountKey)));
+};
+
+const adjustmentsByKey = (entries: AdjustingEntry[]): Map<string, { debit: number; credit: number; numbers: number[] }> => {
+  const byKey = new Map<string, { debit: number; credit: number; numbers: number[] }>();
+  entries.forEach(e => e.lines.forEach(l => {
+    const adjustment = byKey.get(l.accountKey) || { debit: 0, credit: 0, numbers: [] };
+    adjustment.debit += l.debit || 0;
+    adjustment.credit += l.credit || 0;
+    if (!adjustment.numbers.includes(e.number)) adjustment.numbers.push(e.number);
+    byKey.set(l.accountKey, adjustment);
+  }));
+  return byKey;
+};
+
+/**
+ * Adjusted trial balance: the accounts with every entry applied to the first detail line of its
+ * key. Headers and imported totals are left as they are.
+ */
+export const applyAdjustments = (accounts: AccountLine[], entries: AdjustingEntry[] = []): AccountLine[] => {
+  if (entries.length === 0) return accounts;
+  const byKey = adjustmentsByKey(entries);
+  const detailIds = new Set(getDetailLines(accounts).map(acc => acc.id));
+  const applied = new Set<string>();
+  return accounts.map(acc => {
+    const key = lineKey(acc);
+    const adjustment = byKey.get(key);
+    if (!adjustment || !detailIds.has(acc.id) || applied.has(key)) return acc;
+    applied.add(key);
+    return {
+      ...acc,
+      debit: round2(acc.debit + adjustment.debit),
+      credit: round2(acc.credit + adjustment.credit),
+      balance: round2(acc.balance + adjustment.debit - adjustment.credit)
+    };
+  });
+};
+
+// --- Hoja de trabajo: balance as imported, adjustments and adjusted balance side by side ---
+
+export interface WorksheetRow {
+  account: AccountLine;
+  balance: number; // As imported
+  adjustmentDebit: number;
+  adjustmentCredit: number;
+  adjusted: number;
+  entryNumbers: number[];
+}
+
+export interface WorksheetTotals {
+  debitBefore: number;
+  creditBefore: number;
+  adjustmentDebit: number;
+  adjustmentCredit: number;
+  debitAfter: number;
+  creditAfter: number;
+}
+
+export const buildWorksheet = (accounts: AccountLine[], entries: AdjustingEntry[] = []): WorksheetRow[] => {
+  const byKey = adjustmentsByKey(entries);
+  const applied = new Set<string>();
+  return getDetailLines(accounts).map(account => {
+    const key = lineKey(account);
+    const adjustment = applied.has(key) ? undefined : byKey.get(key);
+    applied.add(key);
+    const adjustmentDebit = round2(adjustment?.debit || 0);
+    const adjustmentCredit = round2(adjustment?.credit || 0);
+    return {
+      account,
+      balance: account.balance,
+      adjustmentDebit,
+      adjustmentCredit,
+      adjusted: round2(account.balance + adjustmentDebit - adjustmentCredit),
+      entryNumbers: adjustment?.numbers || []
+    };
+  });
+};
+
+// Debit balances on the left column, credit balances on the right, as a worksheet shows them
+export const worksheetTotals = (rows: WorksheetRow[]): WorksheetTotals => {
+  const sum = (pick: (r: WorksheetRow) => number) => round2(rows.reduce((s, r) => s + pick(r), 0));
+  return {
+    debitBefore: sum(r => Math.max(r.balance, 0)),
+    creditBefore: sum(r => Math.max(-r.balance, 0)),
+    adjustmentDebit: sum(r => r.adjustmentDebit),
+    adjustmentCredit: sum(r => r.adjustmentCredit),
+    debitAfter: sum(r => Math.max(r.adjusted, 0)),
+    creditAfter: sum(r => Math.max(-r.adjusted, 0))
+  };
+};
@@ -0,0 +1,328 @@
+import * as XLSX from "xlsx";
+import { AccountLine, AccountType, BalanceModel, ColumnMapping, ClassificationFailure, ClassificationReport, ClassificationSource, MappingRule, RegulatoryUpdate, Term } from "../types";
+import { matchMappingRules } from "./accountMapping";
+import { isModelEmpty } from "./balanceModel";
+import { hasTerm } from "./terms";
+import { getAIProvider } from "./providers";
+import { SAMPLE_ROW_COUNT, getColumnCount, getSheetRows, isSpreadsheetFile, parseRowsWithMapping, readWorkbook } from "./spreadsheetImport";
+import {
+  ValidationIssue,
+  ValidationResult,
+  describeIssues,
+  validateBalanceModel,
+  validateClassificationResults,
+  validateColumnMapping,
+  validateExtractedAccounts,
+  validateRegulatoryUpdates
+} from "./schemas";
+
+// Extra calls allowed after the first one when a structured answer fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Malformed JSON counts as a validation failure, so it is re-prompted like any other
+const parseFailure = (error: unknown): ValidationIssue[] | null =>
+  error instanceof SyntaxError ? [{ path: '', message: `JSON inválido: ${error.message}` }] : null;
+
+/**
+ * Calls the provider until its answer passes `validate`, feeding the issues of each rejected
+ * answer into the next prompt. Returns the last result; callers decide whether remaining
+ * issues are fatal or whether the valid part is good enough.
+ */
+const requestValidated = async <T>(
+  call: (feedback?: string) => Promise<unknown>,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<ValidationResult<T>> => {
+  let feedback: string | undefined;
+  let result: ValidationResult<T> | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      result = validate(await call(feedback));
+      if (result.issues.length === 0) return result;
+      feedback = describeIssues(result.issues);
+    } catch (error) {
+      const invalidJson = parseFailure(error);
+      if (!invalidJson) throw error;
+      feedback = describeIssues(invalidJson);
+    }
+    console.warn(`AI response rejected (attempt ${attempt + 1}):\n${feedback}`);
+  }
+
+  if (!result) throw new Error(`La respuesta de la IA no es JSON válido.\n${feedback}`);
+  return result;
+};
+
+export const extractRegulatoryRules = async (
+  fileBase64: string,
+  mimeType: string
+): Promise<string> => {
+  try {
+    return await getAIProvider().extractRegulatoryRules(fileBase64, mimeType);
+  } catch (error) {
+    console.error("Error extracting regulations:", error);
+    throw new Error("No se pudo leer el archivo de normativa.");
+  }
+};
+
+export const extractStructureFromExcel = async (
+  fileBase64: string
+): Promise<BalanceModel> => {
+  // Read the Excel file to CSV to save tokens and provide clarity
+  const workbook = XLSX.read(fileBase64, { type: 'base64' });
+  const sheetName = workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  const csvText = XLSX.utils.sheet_to_csv(worksheet);
+
+  let result;
+  try {
+    result = await requestValidated(
+      feedback => getAIProvider().extractStructure(csvText, feedback),
+      validateBalanceModel
+    );
+  } catch (error) {
+    console.error("Error extracting structure:", error);
+    throw new Error("No se pudo analizar la estructura del Excel.");
+  }
+  // Rubros that validated are kept; a model without any is useless
+  if (isModelEmpty(result.value)) {
+    throw new Error(`No se pudo analizar la estructura del Excel:\n${describeIssues(result.issues)}`);
+  }
+  return result.value;
+};
+
+// Column positions of a trial balance sheet, detected by the AI from its first rows
+export const detectColumnMapping = async (rows: any[][]): Promise<ColumnMapping> => {
+  // Take a sample (first 25 rows) for the AI to analyze structure
+  const sampleRows = rows.slice(0, SAMPLE_ROW_COUNT);
+  const columnCount = getColumnCount(rows);
+  const { value: mapping, issues } = await requestValidated(
+    feedback => getAIProvider().detectColumnMapping(sampleRows, feedback),
+    raw => validateColumnMapping(raw, columnCount)
+  );
+  if (issues.length > 0) {
+    throw new Error(`No se pudieron identificar las columnas de la planilla:\n${describeIssues(issues)}`);
+  }
+  return mapping;
+};
+
+export const parseFinancialDocument = async (
+  fileBase64: string,
+  mimeType: string,
+  filename: string
+): Promise<Partial<AccountLine>[]> => {
+  try {
+    // STRATEGY 1: SMART MAPPING (For Excel/CSV)
+    // Instead of sending the whole file to AI (which fails on large files), 
+    // we send the first rows to AI to identify columns, then parse via code.
+    // The workbench uses the same steps interactively, with a review of the mapping in between.
+    if (isSpreadsheetFile(mimeType, filename)) {
+      const workbook = readWorkbook(fileBase64);
+      const rows = getSheetRows(workbook, workbook.SheetNames[0]);
+      
+      if (!rows || rows.length === 0) return [];
+
+      const mapping = await detectColumnMapping(rows);
+      return parseRowsWithMapping(rows, mapping).lines;
+    }
+
+    // STRATEGY 2: FULL AI PARSE (For PDFs, Images, Text files)
+    // Fallback for non-structured data. Lines that never validate are dropped, not guessed.
+    const { value: lines, issues } = await requestValidated(
+      feedback => getAIProvider().extractAccounts(fileBase64, mimeType, feedback),
+      validateExtractedAccounts
+    );
+    if (lines.length === 0 && issues.length > 0) {
+      throw new Error(`No se encontraron cuentas válidas en el documento:\n${describeIssues(issues)}`);
+    }
+    return lines;
+
+  } catch (error) {
+    console.error("Error parsing document:", error);
+    const detail = error instanceof Error ? `\n\n${error.message}` : '';
+    throw new Error(`No se pudo procesar el archivo. Verifique el formato.${detail}`);
+  }
+};
+
+// Lines per AI request. Small enough to stay well inside output limits, large enough to keep context.
+const CLASSIFICATION_BATCH_SIZE = 150;
+const CLASSIFICATION_MAX_ATTEMPTS = 3;
+
+// Header-looking lines ("TOTAL ...", upper-case titles, short codes) describe the plan's structure
+// and are sent with every batch so later batches classify consistently with the first one.
+const buildStructureOutline = (accounts: Partial<AccountLine>[]): string => {
+  const headers = accounts.filter(a => {
+    const name = (a.name || '').trim();
+    const code = (a.code || '').replace(/[^0-9]/g, '');
+    return /^total\b/i.test(name) || (name.length > 3 && name === name.toUpperCase()) || (code.length > 0 && code.length <= 3);
+  });
+  return headers.slice(0, 200).map(a => `${a.code || ''} ${a.name || ''}`.trim()).join('\n');
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type ClassificationProgress = (completedBatches: number, totalBatches: number) => void;
+
+export interface ClassificationOutcome {
+  accounts: AccountLine[];
+  report: ClassificationReport;
+}
+
+export const classifyAccounts = async (
+  accounts: Partial<AccountLine>[], 
+  standardModel?: BalanceModel,
+  clientRules?: string,
+  mappingRules: MappingRule[] = [],
+  onProgress?: ClassificationProgress
+): Promise<ClassificationOutcome> => {
+  // Deterministic pass first: lines resolved by the mapping table never reach the AI.
+  // Chapter-only matches still go to the AI for the Rubro, but with their type fixed.
+  const localMatches = accounts.map(acc => matchMappingRules(acc, mappingRules));
+  const pending = accounts
+    .map((a, i) => ({ a, i }))
+    .filter(({ i }) => !localMatches[i]?.category);
+
+  const classificationMap: Record<number, { type: AccountType, category: string, isGroup: boolean, term?: Term }> = {};
+  // Last reason each line was rejected; whatever is still here after the retries is a failure
+  const failureReasons: Record<number, string> = {};
+
+  if (pending.length > 0) {
+    const provider = getAIProvider();
+    const structureOutline = buildStructureOutline(accounts);
+    const usedCategories = new Set<string>();
+
+    // Returns the validation feedback for the next attempt, empty when the whole batch passed
+    const classifyBatch = async (batch: { a: Partial<AccountLine>, i: number }[], feedback?: string): Promise<string> => {
+      const raw = await provider.classifyBatch({
+        lines: batch.map(({ a, i }) => ({
+          id: i,
+          name: a.name,
+          code: a.code,
+          balance: a.balance,
+          ...(localMatches[i] ? { type: localMatches[i]!.type } : {})
+        })),
+        totalLines: accounts.length,
+        structureOutline,
+        usedCategories: Array.from(usedCategories),
+        standardModel,
+        clientRules,
+        feedback
+      });
+
+      const { value, issues } = validateClassificationResults(raw, batch.map(b => b.i));
+      value.forEach(item => {
+        classificationMap[item.id] = { type: item.type, category: item.category, isGroup: item.isGroup, term: item.term };
+        usedCategories.add(item.category);
+        delete failureReasons[item.id];
+      });
+      issues.forEach(issue => {
+        if (issue.id !== undefined) failureReasons[issue.id] = issue.message;
+      });
+      // Issues without an id (e.g. a stray element) don't block any line but still go back to the model
+      return describeIssues(issues);
+    };
+
+    const batches: { a: Partial<AccountLine>, i: number }[][] = [];
+    for (let start = 0; start < pending.length; start += CLASSIFICATION_BATCH_SIZE) {
+      batches.push(pending.slice(start, start + CLASSIFICATION_BATCH_SIZE));
+    }
+
+    // Batches run one after another so each one sees the Rubros chosen by the previous ones
+    for (let b = 0; b < batches.length; b++) {
+      let remaining = batches[b];
+      let feedback: string | undefined;
+      for (let attempt = 1; attempt <= CLASSIFICATION_MAX_ATTEMPTS && remaining.length > 0; attempt++) {
+        try {
+          feedback = await classifyBatch(remaining, feedback) || undefined;
+        } catch (error) {
+          console.error(`Error classifying batch ${b + 1} (attempt ${attempt}):`, error);
+          const invalidJson = parseFailure(error);
+          const reason = invalidJson ? invalidJson[0].message : `Error del servicio de IA: ${error instanceof Error ? error.message : String(error)}`;
+          remaining.forEach(({ i }) => { failureReasons[i] = reason; });
+          feedback = invalidJson ? describeIssues(invalidJson) : undefined;
+          if (attempt < CLASSIFICATION_MAX_ATTEMPTS) await wait(1000 * attempt);
+        }
+        // Lines the model skipped or got wrong are retried, with the reasons, in the next attempt
+        remaining = remaining.filter(({ i }) => !classificationMap[i]);
+      }
+      onProgress?.(b + 1, batches.length);
+    }
+  }
+
+  const failures: ClassificationFailure[] = [];
+  let classifiedByRule = 0;
+  let classifiedByAI = 0;
+
+  const classified = accounts.map((acc, index) => {
+    const local = localMatches[index];
+    const remote = classificationMap[index];
+    const name = acc.name || 'Cuenta Desconocida';
+    const id = crypto.randomUUID();
+
+    let type: AccountType;
+    let category: string;
+    let isGroup: boolean;
+    let classificationSource: ClassificationSource | undefined;
+
+    if (local?.category) {
+      type = local.type;
+      category = local.category;
+      isGroup = /^total\b/i.test(name.trim());
+      classificationSource = 'RULE';
+      classifiedByRule++;
+    } else if (remote) {
+      type = local?.type || remote.type;
+      category = remote.category;
+      isGroup = remote.isGroup;
+      classificationSource = 'AI';
+      classifiedByAI++;
+    } else {
+      // Left for the auditor instead of inventing a category
+      type = local?.type || AccountType.UNCLASSIFIED;
+      category = 'Sin Clasificar';
+      isGroup = false;
+      failures.push({
+        accountId: id,
+        code: acc.code || '',
+        name,
+        reason: failureReasons[index] || 'La IA no devolvió una clasificación para esta línea.'
+      });
+    }
+
+    return {
+      id,
+      code: acc.code || '',
+      name,
+      debit: acc.debit || 0,
+      credit: acc.credit || 0,
+      balance: acc.balance || (acc.debit || 0) - (acc.credit || 0),
+      type,
+      category,
+      isGroup,
+      // A term only means something on the balance sheet chapters; a rule's term wins over the AI's
+      term: hasTerm(type) ? local?.term || remote?.term : undefined,
+      indent: acc.indent,
+      manualOverride: false,
+      classificationSource
+    };
+  });
+
+  return {
+    accounts: classified,
+    report: { total: accounts.length, classifiedByRule, classifiedByAI, failures }
+  };
+};
+
+export const fetchRegulatoryUpdates = async (): Promise<RegulatoryUpdate[]> => {
+  try {
+    const today = new Date().toLocaleDateString('es-AR');
+    // Updates that never validate are left out rather than shown half-filled
+    const { value } = await requestValidated(
+      feedback => getAIProvider().searchRegulatoryUpdates(today, feedback),
+      validateRegulatoryUpdates
+    );
+    return value;
+  } catch (error) {
+    console.error("Error fetching regulations:", error);
+    return [];
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { detectAmountFormat, parseAmount } from './amountParser';
+
+describe('parseAmount', () => {
+  it('reads thousands-grouped integers without warnings', () => {
+    expect(parseAmount('1.234.567', 'ES_AR')).toEqual({ value: 1234567, marker: undefined });
+    expect(parseAmount('1,234,567', 'EN_US')).toEqual({ value: 1234567, marker: undefined });
+  });
+
+  it('flags more than two decimals after the decimal separator', () => {
+    expect(parseAmount('1.234,567', 'ES_AR').suspicious).toMatch(/más de dos decimales/);
+    expect(parseAmount('1,234.567', 'EN_US').suspicious).toMatch(/más de dos decimales/);
+  });
+
+  it('signs losses written with parentheses or a trailing minus', () => {
+    expect(parseAmount('(1.500,00)', 'ES_AR').value).toBe(-1500);
+    expect(parseAmount('1.500,00-', 'ES_AR').value).toBe(-1500);
+    expect(parseAmount('$ 1.500,00 H', 'ES_AR')).toMatchObject({ value: 1500, marker: 'H' });
+  });
+
+  it('flags values whose separators contradict the column', () => {
+    const parsed = parseAmount('1,234.56', 'ES_AR');
+    expect(parsed.value).toBe(1234.56);
+    expect(parsed.suspicious).toMatch(/usa separadores/);
+  });
+});
+
+describe('detectAmountFormat', () => {
+  it('votes by the unambiguous values', () => {
+    expect(detectAmountFormat(['1.234', '1.234,56', '(500,00)'])).toBe('ES_AR');
+    expect(detectAmountFormat(['1,234.56', '12.50'])).toBe('EN_US');
+    expect(detectAmountFormat(['1.234', 15])).toBeNull();
+  });
+});
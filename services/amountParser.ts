@@ -0,0 +1,141 @@
+import { AmountFormat, ColumnMapping } from "../types";
+
+/**
+ * Amount parsing for trial balances exported by Argentine ERPs: "1.234.567,89", "(1.500,00)",
+ * "1.500,00-", "$ 1.500,00 H". The decimal separator is detected per column from the values
+ * themselves, falling back to the rest of the file and finally to es-AR.
+ */
+
+export const AMOUNT_FORMAT_LABELS: Record<AmountFormat, string> = {
+  ES_AR: '1.234,56',
+  EN_US: '1,234.56'
+};
+
+export type AmountField = keyof NonNullable<ColumnMapping['amountFormats']>;
+
+export const AMOUNT_FIELDS: AmountField[] = ['debitIndex', 'creditIndex', 'balanceIndex'];
+
+export interface ParsedAmount {
+  value: number; // Signed by minus sign or parentheses only
+  marker?: 'D' | 'H'; // Debe/Haber suffix, for balance columns
+  suspicious?: string; // Why the value deserves a second look
+}
+
+// Currency prefixes and suffixes seen in exports; removed before parsing
+const CURRENCY_PATTERN = /(U\$S|US\$|USD|ARS|\$|€)/gi;
+
+const emptyAmount = (v: unknown): boolean =>
+  v === undefined || v === null || (typeof v === 'string' && /^[\s\-–]*$/.test(v));
+
+// Which format a single value's separators point to, or null when they are ambiguous ("1.234")
+const formatHint = (digits: string): AmountFormat | null => {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot > -1 && lastComma > -1) return lastComma > lastDot ? 'ES_AR' : 'EN_US';
+  if (lastComma > -1) {
+    if ((digits.match(/,/g) || []).length > 1) return 'EN_US';
+    return /,\d{3}$/.test(digits) ? null : 'ES_AR';
+  }
+  if (lastDot > -1) {
+    if ((digits.match(/\./g) || []).length > 1) return 'ES_AR';
+    return /\.\d{3}$/.test(digits) ? null : 'EN_US';
+  }
+  return null;
+};
+
+interface AmountParts {
+  digits: string;
+  negative: boolean;
+  marker?: 'D' | 'H';
+}
+
+// Splits "(1.500,00) H" into sign, Debe/Haber marker and the bare digits with separators
+const splitAmount = (text: string): AmountParts | null => {
+  let s = text.replace(/\u00a0/g, ' ').replace(CURRENCY_PATTERN, '').trim();
+  let negative = false;
+  let marker: 'D' | 'H' | undefined;
+
+  const markerMatch = s.match(/\s*([DH])\.?$/i);
+  if (markerMatch) {
+    marker = markerMatch[1].toUpperCase() as 'D' | 'H';
+    s = s.slice(0, markerMatch.index).trim();
+  }
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1).trim();
+  }
+  if (/^-/.test(s)) {
+    negative = !negative;
+    s = s.slice(1).trim();
+  } else if (/-$/.test(s)) {
+    negative = !negative;
+    s = s.slice(0, -1).trim();
+  }
+  s = s.replace(/\s/g, '');
+
+  return /^[\d.,]*\d[\d.,]*$/.test(s) ? { digits: s, negative, marker } : null;
+};
+
+export const detectAmountFormat = (values: unknown[]): AmountFormat | null => {
+  const votes: Record<AmountFormat, number> = { ES_AR: 0, EN_US: 0 };
+  values.forEach(v => {
+    if (typeof v !== 'string') return;
+    const parts = splitAmount(v);
+    const hint = parts && formatHint(parts.digits);
+    if (hint) votes[hint]++;
+  });
+  if (votes.ES_AR === 0 && votes.EN_US === 0) return null;
+  return votes.EN_US > votes.ES_AR ? 'EN_US' : 'ES_AR';
+};
+
+// The format's decimal separator followed by three or more digits; thousands groups don't count
+const decimalPattern = (format: AmountFormat): RegExp => format === 'ES_AR' ? /,\d{3,}$/ : /\.\d{3,}$/;
+
+export const parseAmount = (raw: unknown, format: AmountFormat = 'ES_AR'): ParsedAmount => {
+  // Numeric cells were already typed by the spreadsheet
+  if (typeof raw === 'number') return { value: Number.isFinite(raw) ? raw : 0 };
+  if (emptyAmount(raw)) return { value: 0 };
+
+  const text = String(raw);
+  const parts = splitAmount(text);
+  if (!parts) return { value: 0, suspicious: `"${text.trim()}" no es un importe; se tomó como 0.` };
+
+  const { digits, negative, marker } = parts;
+  // Unambiguous separators in the value itself win over the column format, but are flagged
+  const hint = formatHint(digits);
+  const normalized = (hint || format) === 'ES_AR'
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '');
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed) || (normalized.match(/\./g) || []).length > 1) {
+    return { value: 0, suspicious: `"${text.trim()}" no es un importe; se tomó como 0.` };
+  }
+
+  const result: ParsedAmount = { value: negative ? -parsed : parsed, marker };
+  if (hint && hint !== format) {
+    result.suspicious = `"${text.trim()}" usa separadores ${AMOUNT_FORMAT_LABELS[hint]} y la columna ${AMOUNT_FORMAT_LABELS[format]}; se leyó como ${parsed.toLocaleString('es-AR')}.`;
+  } else if (hint === format && decimalPattern(format).test(digits)) {
+    result.suspicious = `"${text.trim()}" tiene más de dos decimales.`;
+  } else if (!hint && (format === 'ES_AR' ? /,\d{3}$/ : /\.\d{3}$/).test(digits)) {
+    // "1,234" in an es-AR column: read as 1,234 (decimal) but may be a thousands separator
+    result.suspicious = `"${text.trim()}" se leyó como ${parsed.toLocaleString('es-AR')}; verifique si el separador es de miles.`;
+  }
+  return result;
+};
+
+/**
+ * Format of each mapped amount column: explicit choice in the mapping, else detected from the
+ * column's values, else detected from all amount columns of the file, else es-AR.
+ */
+export const resolveAmountFormats = (rows: any[][], mapping: ColumnMapping): Record<AmountField, AmountFormat> => {
+  const dataRows = rows.slice(mapping.startRow || 0);
+  const columnValues = (field: AmountField) =>
+    mapping[field] > -1 ? dataRows.map(r => r?.[mapping[field]]) : [];
+
+  const fileFormat = detectAmountFormat(AMOUNT_FIELDS.flatMap(columnValues)) || 'ES_AR';
+  const formats = {} as Record<AmountField, AmountFormat>;
+  AMOUNT_FIELDS.forEach(field => {
+    formats[field] = mapping.amountFormats?.[field] || detectAmountFormat(columnValues(field)) || fileFormat;
+  });
+  return formats;
+};
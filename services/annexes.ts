@@ -0,0 +1,341 @@
+import { AccountLine, AccountType, AnnexInputs, AnnexMovement, ExpenseFunction } from "../types";
+import { normalizeText } from "./accountMapping";
+import { GroupedFinancials, RubroGroup, classifyIncomeRubro, lineKey, rubroAmount } from "./financialStatements";
+import { INVENTORY_RUBRO } from "./ratios";
+
+/**
+ * Statutory annexes of the CNV-format statements (Anexos A, E, F and H), built from the classified
+ * lines of the period and of the prior one. What the balances cannot tell, such as additions,
+ * disposals or purchases, comes from the period's AnnexInputs; left empty, it is derived so that
+ * each annex agrees with the balances.
+ */
+
+export const EXPENSE_FUNCTION_LABELS: Record<ExpenseFunction, string> = {
+  COST: 'Costo de Producción',
+  ADMIN: 'Gastos de Administración',
+  SELLING: 'Gastos de Comercialización',
+  FINANCE: 'Gastos de Financiación',
+  EXCLUDED: 'No se informa'
+};
+
+// Columns of Anexo H, in presentation order
+export const EXPENSE_FUNCTIONS: ExpenseFunction[] = ['COST', 'ADMIN', 'SELLING', 'FINANCE'];
+
+const FIXED_ASSET_RUBRO = /bienes de uso|propiedad,? planta|propiedades de inversion/;
+const DEPRECIATION = /amortiz|depreci/;
+const ALLOWANCE = /prevision/;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// One account in both periods, matched by line key; missing on one side counts as zero there
+interface LinePair {
+  key: string;
+  account: AccountLine;
+  rubro: string;
+  current: number;
+  prior: number;
+}
+
+const pairLines = (current: RubroGroup[], prior: RubroGroup[]): LinePair[] => {
+  const pairs = new Map<string, LinePair>();
+  const add = (groups: RubroGroup[], side: 'current' | 'prior') => groups.forEach(g => g.accounts.forEach(acc => {
+    const key = lineKey(acc);
+    const pair = pairs.get(key) || { key, account: acc, rubro: g.name, current: 0, prior: 0 };
+    pair[side] += acc.balance;
+    pairs.set(key, pair);
+  }));
+  add(current, 'current');
+  add(prior, 'prior');
+  return Array.from(pairs.values());
+};
+
+const rubrosMatching = (groups: RubroGroup[] | undefined, pattern: RegExp): RubroGroup[] =>
+  (groups || []).filter(g => pattern.test(normalizeText(g.name)));
+
+// Opening plus additions less disposals must give the closing; whatever was not typed fills the gap
+interface ResolvedMovement {
+  additions: number;
+  disposals: number;
+  derived: boolean;
+  difference: number; // Opening + additions - disposals - closing, when both were typed
+}
+
+const resolveMovement = (opening: number, closing: number, additions?: number, disposals?: number): ResolvedMovement => {
+  if (additions !== undefined && disposals !== undefined) {
+    return { additions, disposals, derived: false, difference: round2(opening + additions - disposals - closing) };
+  }
+  if (additions !== undefined) return { additions, disposals: round2(opening + additions - closing), derived: true, difference: 0 };
+  if (disposals !== undefined) return { additions: round2(closing - opening + disposals), disposals, derived: true, difference: 0 };
+  const variation = round2(closing - opening);
+  return { additions: Math.max(variation, 0), disposals: Math.max(-variation, 0), derived: true, difference: 0 };
+};
+
+// --- Anexo A: Bienes de Uso ---
+
+export interface FixedAssetRow {
+  key: string; // Line key of the asset, or of the depreciation when no asset matches it
+  name: string;
+  rubro: string;
+  opening: number;
+  additions: number;
+  disposals: number;
+  closing: number;
+  depreciationOpening: number;
+  depreciationDisposals: number;
+  depreciationYear: number; // Derived: closing less opening plus what was retired
+  depreciationClosing: number;
+  net: number;
+  priorNet: number | null;
+  derived: boolean; // Additions or disposals were not typed
+  difference: number;
+}
+
+const isDepreciation = (pair: LinePair): boolean =>
+  DEPRECIATION.test(normalizeText(pair.account.name)) || (pair.current !== 0 ? pair.current : pair.prior) < 0;
+
+const bareName = (name: string): string =>
+  normalizeText(name).replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\b(amortizaciones?|amort|depreciaciones?|acumuladas?|acum|de|del|la|las|los)\b/g, ' ')
+    .replace(/\s+/g, ' ').trim();
+
+// "Amortización Acumulada Rodados" belongs to "Rodados"; the longest matching name wins
+const assetOf = (depreciation: LinePair, assets: LinePair[]): LinePair | undefined => {
+  const name = bareName(depreciation.account.name);
+  if (!name) return undefined;
+  return assets
+    .filter(a => {
+      const asset = bareName(a.account.name);
+      return !!asset && (asset === name || name.includes(asset) || asset.includes(name));
+    })
+    .sort((a, b) => b.account.name.length - a.account.name.length)[0];
+};
+
+export const buildFixedAssetsAnnex = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials | null,
+  inputs: AnnexInputs = {}
+): FixedAssetRow[] => {
+  const pairs = pairLines(rubrosMatching(current.assets, FIXED_ASSET_RUBRO), rubrosMatching(prior?.assets, FIXED_ASSET_RUBRO));
+  const assets = pairs.filter(p => !isDepreciation(p));
+  const depreciationsByAsset = new Map<string, LinePair[]>();
+  const unmatched: LinePair[] = [];
+  pairs.filter(isDepreciation).forEach(d => {
+    const asset = assetOf(d, assets);
+    if (asset) depreciationsByAsset.set(asset.key, [...(depreciationsByAsset.get(asset.key) || []), d]);
+    else unmatched.push(d);
+  });
+
+  const row = (key: string, name: string, rubro: string, asset: LinePair | null, depreciations: LinePair[]): FixedAssetRow => {
+    const m: AnnexMovement = inputs.movements?.[key] || {};
+    const opening = m.opening ?? (asset ? Math.abs(asset.prior) : 0);
+    const closing = asset ? Math.abs(asset.current) : 0;
+    const movement = resolveMovement(opening, closing, m.additions, m.disposals);
+    const depreciationOpening = m.depreciationOpening ?? depreciations.reduce((s, d) => s + Math.abs(d.prior), 0);
+    const depreciationClosing = depreciations.reduce((s, d) => s + Math.abs(d.current), 0);
+    const depreciationDisposals = m.depreciationDisposals ?? 0;
+    return {
+      key, name, rubro, opening, closing,
+      additions: movement.additions,
+      disposals: movement.disposals,
+      depreciationOpening,
+      depreciationDisposals,
+      depreciationYear: round2(depreciationClosing - depreciationOpening + depreciationDisposals),
+      depreciationClosing,
+      net: round2(closing - depreciationClosing),
+      priorNet: prior ? round2(opening - depreciationOpening) : null,
+      derived: movement.derived,
+      difference: movement.difference
+    };
+  };
+
+  return [
+    ...assets.map(a => row(a.key, a.account.name, a.rubro, a, depreciationsByAsset.get(a.key) || [])),
+    ...unmatched.map(d => row(d.key, d.account.name, d.rubro, null, [d]))
+  ].filter(r => r.opening !== 0 || r.closing !== 0 || r.depreciationOpening !== 0 || r.depreciationClosing !== 0);
+};
+
+// --- Anexo E: Previsiones ---
+
+export interface AllowanceRow {
+  key: string;
+  name: string;
+  rubro: string;
+  opening: number;
+  additions: number;
+  disposals: number;
+  closing: number;
+  derived: boolean;
+  difference: number;
+}
+
+export interface AllowanceSection {
+  title: string;
+  rows: AllowanceRow[];
+  opening: number;
+  additions: number;
+  disposals: number;
+  closing: number;
+}
+
+// A rubro of previsiones brings all its lines; elsewhere only the lines named as one
+const allowanceGroups = (groups: RubroGroup[] | undefined): RubroGroup[] => (groups || [])
+  .map(g => ALLOWANCE.test(normalizeText(g.name)) ? g : { ...g, accounts: g.accounts.filter(a => ALLOWANCE.test(normalizeText(a.name))) })
+  .filter(g => g.accounts.length > 0);
+
+export const buildAllowancesAnnex = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials | null,
+  inputs: AnnexInputs = {}
+): AllowanceSection[] => {
+  const section = (title: string, currentGroups: RubroGroup[], priorGroups: RubroGroup[]): AllowanceSection => {
+    const rows = pairLines(allowanceGroups(currentGroups), allowanceGroups(priorGroups))
+      .map((pair): AllowanceRow => {
+        const m: AnnexMovement = inputs.movements?.[pair.key] || {};
+        const opening = m.opening ?? Math.abs(pair.prior);
+        const closing = Math.abs(pair.current);
+        return { key: pair.key, name: pair.account.name, rubro: pair.rubro, opening, closing, ...resolveMovement(opening, closing, m.additions, m.disposals) };
+      })
+      .filter(r => r.opening !== 0 || r.closing !== 0);
+    const sum = (pick: (r: AllowanceRow) => number) => round2(rows.reduce((s, r) => s + pick(r), 0));
+    return { title, rows, opening: sum(r => r.opening), additions: sum(r => r.additions), disposals: sum(r => r.disposals), closing: sum(r => r.closing) };
+  };
+
+  return [
+    section('Deducidas del Activo', current.assets, prior?.assets || []),
+    section('Incluidas en el Pasivo', current.liabilities, prior?.liabilities || [])
+  ].filter(s => s.rows.length > 0);
+};
+
+// --- Anexo H: Gastos por función ---
+
+export interface ExpenseRow {
+  key: string;
+  name: string;
+  rubro: string;
+  fn: ExpenseFunction;
+  isDefault: boolean; // Function taken from the rubro, not chosen by hand
+  amount: number;
+  prior: number | null;
+}
+
+export interface ExpenseAnnex {
+  rows: ExpenseRow[]; // Excluded lines too, so their function can be changed
+  totals: Record<ExpenseFunction, number>;
+  total: number; // Reported columns only
+  priorTotal: number | null;
+}
+
+// The cost of sales rubro is the Anexo F result itself; taxes and other results are not expenses by function
+export const defaultExpenseFunction = (rubro: string): ExpenseFunction => {
+  const n = normalizeText(rubro);
+  if (/recpam|diferencia de cambio|tenencia/.test(n)) return 'EXCLUDED';
+  switch (classifyIncomeRubro(rubro, false)) {
+    case 'FINANCIAL': return 'FINANCE';
+    case 'SELLING': return 'SELLING';
+    case 'ADMIN': return 'ADMIN';
+    case 'OTHER': return /gasto/.test(n) ? 'ADMIN' : 'EXCLUDED';
+    default: return 'EXCLUDED';
+  }
+};
+
+export const buildExpensesAnnex = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials | null,
+  inputs: AnnexInputs = {}
+): ExpenseAnnex => {
+  const rows = pairLines(current.expenses, prior?.expenses || [])
+    .filter(pair => pair.current !== 0 || pair.prior !== 0)
+    .map((pair): ExpenseRow => {
+      const chosen = inputs.expenseFunctions?.[pair.key];
+      return {
+        key: pair.key,
+        name: pair.account.name,
+        rubro: pair.rubro,
+        fn: chosen || defaultExpenseFunction(pair.rubro),
+        isDefault: !chosen,
+        amount: pair.current,
+        prior: prior ? pair.prior : null
+      };
+    });
+
+  const reported = rows.filter(r => r.fn !== 'EXCLUDED');
+  const totals = { COST: 0, ADMIN: 0, SELLING: 0, FINANCE: 0, EXCLUDED: 0 } as Record<ExpenseFunction, number>;
+  rows.forEach(r => { totals[r.fn] = round2(totals[r.fn] + r.amount); });
+  return {
+    rows,
+    totals,
+    total: round2(reported.reduce((s, r) => s + r.amount, 0)),
+    priorTotal: prior ? round2(reported.reduce((s, r) => s + (r.prior || 0), 0)) : null
+  };
+};
+
+// --- Anexo F: Costo de Mercaderías Vendidas ---
+
+export interface CostOfSalesAnnex {
+  openingInventory: number;
+  purchases: number;
+  purchasesDerived: boolean; // Not typed: whatever makes the annex agree with the booked cost
+  productionCosts: number; // Costo de Producción column of Anexo H
+  closingInventory: number;
+  costOfSales: number;
+  booked: number; // Costo de Ventas of the Estado de Resultados
+  difference: number; // Annex less booked
+}
+
+const inventoryOf = (financials: GroupedFinancials): number =>
+  round2(rubrosMatching(financials.assets, INVENTORY_RUBRO).reduce((s, g) => s + rubroAmount(AccountType.ASSET, g), 0));
+
+export const buildCostOfSalesAnnex = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials | null,
+  expenses: ExpenseAnnex,
+  inputs: AnnexInputs = {}
+): CostOfSalesAnnex | null => {
+  const booked = round2(current.expenses
+    .filter(g => classifyIncomeRubro(g.name, false) === 'COST')
+    .reduce((s, g) => s + rubroAmount(AccountType.EXPENSE, g), 0));
+  const openingInventory = inputs.openingInventory ?? (prior ? inventoryOf(prior) : 0);
+  const closingInventory = inventoryOf(current);
+  const productionCosts = expenses.totals.COST;
+  if (booked === 0 && openingInventory === 0 && closingInventory === 0 && productionCosts === 0 && inputs.purchases === undefined) {
+    return null;
+  }
+
+  const purchases = inputs.purchases ?? round2(booked - productionCosts - openingInventory + closingInventory);
+  const costOfSales = round2(openingInventory + purchases + productionCosts - closingInventory);
+  return {
+    openingInventory,
+    purchases,
+    purchasesDerived: inputs.purchases === undefined,
+    productionCosts,
+    closingInventory,
+    costOfSales,
+    booked,
+    difference: round2(costOfSales - booked)
+  };
+};
+
+// --- All of them ---
+
+export interface StatutoryAnnexes {
+  fixedAssets: FixedAssetRow[];
+  allowances: AllowanceSection[];
+  costOfSales: CostOfSalesAnnex | null;
+  expenses: ExpenseAnnex;
+}
+
+export const buildStatutoryAnnexes = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials | null,
+  inputs: AnnexInputs = {}
+): StatutoryAnnexes => {
+  const expenses = buildExpensesAnnex(current, prior, inputs);
+  return {
+    fixedAssets: buildFixedAssetsAnnex(current, prior, inputs),
+    allowances: buildAllowancesAnnex(current, prior, inputs),
+    costOfSales: buildCostOfSalesAnnex(current, prior, expenses, inputs),
+    expenses
+  };
+};
+
+export const hasExpensesAnnex = (annex: ExpenseAnnex): boolean => annex.rows.some(r => r.fn !== 'EXCLUDED');
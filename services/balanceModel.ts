@@ -0,0 +1,190 @@
+import { AccountType, BalanceModel, ModelChapter, ModelRubro, ModelSubrubro, SignConvention } from "../types";
+import { normalizeText } from "./accountMapping";
+
+export const MODEL_CHAPTERS: AccountType[] = [
+  AccountType.ASSET,
+  AccountType.LIABILITY,
+  AccountType.EQUITY,
+  AccountType.REVENUE,
+  AccountType.EXPENSE
+];
+
+export const CHAPTER_LABELS: Record<AccountType, string> = {
+  [AccountType.ASSET]: 'Activo',
+  [AccountType.LIABILITY]: 'Pasivo',
+  [AccountType.EQUITY]: 'Patrimonio Neto',
+  [AccountType.REVENUE]: 'Ingresos',
+  [AccountType.EXPENSE]: 'Egresos',
+  [AccountType.UNCLASSIFIED]: 'Sin Clasificar'
+};
+
+export const SIGN_LABELS: Record<SignConvention, string> = {
+  DEBIT: 'Deudor',
+  CREDIT: 'Acreedor'
+};
+
+// Liabilities, equity and revenue are credit-natured, as the trial balance stores them
+export const NATURAL_SIGN: Record<AccountType, SignConvention> = {
+  [AccountType.ASSET]: 'DEBIT',
+  [AccountType.LIABILITY]: 'CREDIT',
+  [AccountType.EQUITY]: 'CREDIT',
+  [AccountType.REVENUE]: 'CREDIT',
+  [AccountType.EXPENSE]: 'DEBIT',
+  [AccountType.UNCLASSIFIED]: 'DEBIT'
+};
+
+export const createEmptyModel = (): BalanceModel => ({
+  chapters: MODEL_CHAPTERS.map(type => ({ type, rubros: [] }))
+});
+
+export const createRubro = (name: string, type: AccountType, subrubros: string[] = []): ModelRubro => ({
+  id: crypto.randomUUID(),
+  name,
+  sign: NATURAL_SIGN[type],
+  subrubros: subrubros.map(createSubrubro)
+});
+
+export const createSubrubro = (name: string): ModelSubrubro => ({ id: crypto.randomUUID(), name });
+
+export const isModelEmpty = (model?: BalanceModel | null): boolean =>
+  !model || model.chapters.every(c => c.rubros.length === 0);
+
+// Every chapter present exactly once and in the standard order, whatever was stored or extracted
+export const normalizeModel = (model: BalanceModel): BalanceModel => ({
+  chapters: MODEL_CHAPTERS.map(type => ({
+    type,
+    rubros: model.chapters.filter(c => c.type === type).flatMap(c => c.rubros)
+  }))
+});
+
+const CHAPTER_HEADINGS: { pattern: RegExp; type: AccountType }[] = [
+  { pattern: /^activo$/, type: AccountType.ASSET },
+  { pattern: /^pasivo$/, type: AccountType.LIABILITY },
+  { pattern: /^patrimonio neto$/, type: AccountType.EQUITY },
+  { pattern: /^(ingresos|resultados positivos)$/, type: AccountType.REVENUE },
+  { pattern: /^(egresos|gastos|resultados negativos|resultados)$/, type: AccountType.EXPENSE }
+];
+
+/**
+ * Reads the free-text model of earlier versions: chapter headings ("ACTIVO:") followed by
+ * "- Rubro" lines. Lines indented below a rubro become its subrubros.
+ */
+export const parseModelText = (text: string): BalanceModel => {
+  const model = createEmptyModel();
+  let chapter: ModelChapter | undefined;
+  let rubro: ModelRubro | undefined;
+
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.replace(/\s+$/, '');
+    if (!line.trim() || line.trim() === '...') return;
+    const indent = line.length - line.trimStart().length;
+    const name = line.trim().replace(/^[-*•]\s*/, '').replace(/:$/, '').trim();
+    if (!name) return;
+
+    const heading = CHAPTER_HEADINGS.find(h => h.pattern.test(normalizeText(name)));
+    if (heading && !/^[-*•]/.test(line.trim())) {
+      chapter = model.chapters.find(c => c.type === heading.type);
+      rubro = undefined;
+      return;
+    }
+    if (!chapter) return;
+    if (rubro && indent > 0) rubro.subrubros.push(createSubrubro(name));
+    else {
+      rubro = createRubro(name, chapter.type);
+      chapter.rubros.push(rubro);
+    }
+  });
+  return model;
+};
+
+// Text form handed to the AI when classifying, with the exact rubro names to use
+export const modelToText = (model: BalanceModel): string =>
+  normalizeModel(model).chapters
+    .filter(c => c.rubros.length > 0)
+    .map(c => [
+      `${CHAPTER_LABELS[c.type].toUpperCase()}:`,
+      ...c.rubros.flatMap(r => [
+        `- ${r.name}${r.sign !== NATURAL_SIGN[c.type] ? ` (regularizadora, saldo ${SIGN_LABELS[r.sign].toLowerCase()})` : ''}`,
+        ...r.subrubros.map(s => `    - ${s.name}`)
+      ])
+    ].join('\n'))
+    .join('\n\n');
+
+export interface RubroPlacement {
+  rubro: ModelRubro;
+  rubroIndex: number;
+  subrubroIndex: number; // -1 when the category is the rubro itself
+}
+
+/**
+ * Where a category of the given chapter sits in the model. A category named after a
+ * subrubro belongs to its rubro. Names match regardless of case and accents.
+ */
+export const findRubroPlacement = (model: BalanceModel, type: AccountType, category: string): RubroPlacement | null => {
+  const chapter = model.chapters.find(c => c.type === type);
+  if (!chapter) return null;
+  const wanted = normalizeText(category);
+  for (let rubroIndex = 0; rubroIndex < chapter.rubros.length; rubroIndex++) {
+    const rubro = chapter.rubros[rubroIndex];
+    if (normalizeText(rubro.name) === wanted) return { rubro, rubroIndex, subrubroIndex: -1 };
+    const subrubroIndex = rubro.subrubros.findIndex(s => normalizeText(s.name) === wanted);
+    if (subrubroIndex > -1) return { rubro, rubroIndex, subrubroIndex };
+  }
+  return null;
+};
+
+/**
+ * +1 for rubros on their chapter's natural side, -1 for regularizadoras, which the statements
+ * show as deductions. Rubros outside the model follow their chapter.
+ */
+export const presentationSign = (model: BalanceModel | undefined, type: AccountType, rubroName: string): 1 | -1 => {
+  const placement = model ? findRubroPlacement(model, type, rubroName) : null;
+  return placement && placement.rubro.sign !== NATURAL_SIGN[type] ? -1 : 1;
+};
+
+// --- Editing ---
+
+export const updateRubro = (model: BalanceModel, rubroId: string, changes: Partial<ModelRubro>): BalanceModel => ({
+  chapters: model.chapters.map(c => ({
+    ...c,
+    rubros: c.rubros.map(r => r.id === rubroId ? { ...r, ...changes } : r)
+  }))
+});
+
+export const removeRubro = (model: BalanceModel, rubroId: string): BalanceModel => ({
+  chapters: model.chapters.map(c => ({ ...c, rubros: c.rubros.filter(r => r.id !== rubroId) }))
+});
+
+/** Moves a rubro before `beforeId` in the target chapter, or to its end. */
+export const moveRubro = (model: BalanceModel, rubroId: string, toType: AccountType, beforeId?: string): BalanceModel => {
+  const moving = model.chapters.flatMap(c => c.rubros).find(r => r.id === rubroId);
+  if (!moving || rubroId === beforeId) return model;
+  const without = removeRubro(model, rubroId);
+  return {
+    chapters: without.chapters.map(c => {
+      if (c.type !== toType) return c;
+      const rubros = [...c.rubros];
+      const at = beforeId ? rubros.findIndex(r => r.id === beforeId) : -1;
+      rubros.splice(at > -1 ? at : rubros.length, 0, moving);
+      return { ...c, rubros };
+    })
+  };
+};
+
+/** Moves a subrubro before `beforeId` in the target rubro, or to its end. */
+export const moveSubrubro = (model: BalanceModel, subrubroId: string, toRubroId: string, beforeId?: string): BalanceModel => {
+  const moving = model.chapters.flatMap(c => c.rubros).flatMap(r => r.subrubros).find(s => s.id === subrubroId);
+  if (!moving || subrubroId === beforeId) return model;
+  return {
+    chapters: model.chapters.map(c => ({
+      ...c,
+      rubros: c.rubros.map(r => {
+        const subrubros = r.subrubros.filter(s => s.id !== subrubroId);
+        if (r.id !== toRubroId) return subrubros.length === r.subrubros.length ? r : { ...r, subrubros };
+        const at = beforeId ? subrubros.findIndex(s => s.id === beforeId) : -1;
+        subrubros.splice(at > -1 ? at : subrubros.length, 0, moving);
+        return { ...r, subrubros };
+      })
+    }))
+  };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType } from '../types';
+import { buildFixedAssetsAnnex } from './annexes';
+import { buildCashFlow } from './cashFlow';
+import { groupFinancials } from './financialStatements';
+import { rubroKey } from './review';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number): AccountLine => ({
+  id: code, code, name, type, category, balance,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  isGroup: false, manualOverride: false
+});
+
+// Loss of 100 in the prior year, absorbed by Resultados Acumulados in the current one
+const prior = groupFinancials([
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 500),
+  line('1.2', 'Mercaderías', AccountType.ASSET, 'Bienes de Cambio', 300),
+  line('2.1', 'Proveedores', AccountType.LIABILITY, 'Deudas Comerciales', -200),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000),
+  line('3.2', 'Resultados no asignados', AccountType.EQUITY, 'Resultados Acumulados', 300),
+  line('4.1', 'Ventas', AccountType.REVENUE, 'Ventas', -400),
+  line('5.1', 'Costo de mercaderías vendidas', AccountType.EXPENSE, 'Costo de Ventas', 500)
+]);
+
+// Another loss of 100, with an exchange loss booked in a revenue rubro and a new vehicle paid in part with a loan
+const current = groupFinancials([
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 200),
+  line('1.2', 'Mercaderías', AccountType.ASSET, 'Bienes de Cambio', 400),
+  line('1.3', 'Rodados', AccountType.ASSET, 'Bienes de Uso', 500),
+  line('1.4', 'Amortización acumulada rodados', AccountType.ASSET, 'Bienes de Uso', -100),
+  line('2.1', 'Proveedores', AccountType.LIABILITY, 'Deudas Comerciales', -300),
+  line('2.2', 'Préstamo bancario', AccountType.LIABILITY, 'Deudas Bancarias', -200),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000),
+  line('3.2', 'Resultados no asignados', AccountType.EQUITY, 'Resultados Acumulados', 400),
+  line('4.1', 'Ventas', AccountType.REVENUE, 'Ventas', -400),
+  line('4.2', 'Diferencia de cambio', AccountType.REVENUE, 'Resultados Financieros', 100),
+  line('5.1', 'Costo de mercaderías vendidas', AccountType.EXPENSE, 'Costo de Ventas', 300),
+  line('5.2', 'Amortizaciones de bienes de uso', AccountType.EXPENSE, 'Gastos de Administración', 100)
+]);
+
+// Anexo A pairs the accumulated depreciation with Rodados: 100 for the year
+const depreciation = buildFixedAssetsAnnex(current, prior);
+
+describe('buildCashFlow', () => {
+  const statement = buildCashFlow(current, prior, undefined, depreciation);
+  const section = (activity: string) => statement.sections.find(s => s.activity === activity)!;
+
+  it('explains the whole variation of efectivo', () => {
+    expect(statement.openingCash).toBe(500);
+    expect(statement.closingCash).toBe(200);
+    expect(statement.variation).toBe(-300);
+    expect(statement.difference).toBe(0);
+  });
+
+  it('starts operating activities from the loss and adds depreciation back', () => {
+    expect(section('OPERATING').lines).toEqual([
+      { label: 'Resultado del ejercicio', amount: -100 },
+      { label: 'Amortizaciones de bienes de uso', amount: 100 },
+      { label: 'Variación de Bienes de Cambio', amount: -100 },
+      { label: 'Variación de Deudas Comerciales', amount: 100 }
+    ]);
+    expect(section('INVESTING').total).toBe(-500);
+    expect(section('FINANCING').total).toBe(200);
+  });
+
+  it('absorbs the prior loss in Resultados Acumulados instead of reporting it as a movement', () => {
+    const labels = statement.sections.flatMap(s => s.lines.map(l => l.label));
+    expect(labels).not.toContain('Variación de Resultados Acumulados');
+    expect(labels).not.toContain('Asignación del resultado del ejercicio anterior');
+  });
+
+  it('follows the client mapping over the default activity', () => {
+    const mapped = buildCashFlow(current, prior, { [rubroKey(AccountType.LIABILITY, 'Deudas Bancarias')]: 'OPERATING' }, depreciation);
+    expect(mapped.sections.find(s => s.activity === 'OPERATING')!.total).toBe(200);
+    expect(mapped.sections.find(s => s.activity === 'FINANCING')!.total).toBe(0);
+    expect(mapped.difference).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { AccountType, CashFlowActivity } from "../types";
+import { normalizeText } from "./accountMapping";
+import { FixedAssetRow } from "./annexes";
+import { GroupedFinancials, RubroGroup } from "./financialStatements";
+import { rubroKey } from "./review";
+
+/**
+ * Estado de Flujo de Efectivo by the indirect method, from the balances of two periods. Every
+ * rubro that is not efectivo moves cash by its variation with the opposite sign; its activity
+ * comes from the client's mapping or, unset, from its name. Depreciation of the year is added
+ * back in operating activities and taken out of the fixed asset rubro it belongs to.
+ */
+
+export const CASH_FLOW_ACTIVITY_LABELS: Record<CashFlowActivity, string> = {
+  CASH: 'Efectivo',
+  OPERATING: 'Actividades Operativas',
+  INVESTING: 'Actividades de Inversión',
+  FINANCING: 'Actividades de Financiación'
+};
+
+export const CASH_FLOW_ACTIVITIES: CashFlowActivity[] = ['CASH', 'OPERATING', 'INVESTING', 'FINANCING'];
+
+const CASH_RUBRO = /caja|bancos|efectivo|disponibilidades/;
+const INVESTING_RUBRO = /bienes de uso|propiedad|intangible|llave de negocio|participaciones|inversion/;
+const FINANCING_RUBRO = /bancari|financier|prestamo|obligaciones negociables/;
+// Receives the result of the prior period when it is carried over
+const RETAINED_EARNINGS_RUBRO = /resultados (acumulados|no asignados)/;
+
+export const defaultCashFlowActivity = (type: AccountType, rubro: string): CashFlowActivity => {
+  const n = normalizeText(rubro);
+  if (type === AccountType.ASSET) {
+    if (CASH_RUBRO.test(n)) return 'CASH';
+    return INVESTING_RUBRO.test(n) ? 'INVESTING' : 'OPERATING';
+  }
+  if (type === AccountType.LIABILITY) return FINANCING_RUBRO.test(n) ? 'FINANCING' : 'OPERATING';
+  return 'FINANCING';
+};
+
+export const cashFlowActivity = (
+  mapping: Record<string, CashFlowActivity> | undefined,
+  type: AccountType,
+  rubro: string
+): CashFlowActivity => mapping?.[rubroKey(type, rubro)] || defaultCashFlowActivity(type, rubro);
+
+export interface CashFlowRubro {
+  key: string; // rubroKey of the chapter and rubro
+  type: AccountType;
+  name: string;
+}
+
+// Balance sheet rubros of both periods, current order first, for the mapping editor
+export const listCashFlowRubros = (current: GroupedFinancials, prior?: GroupedFinancials | null): CashFlowRubro[] => {
+  const rubros = new Map<string, CashFlowRubro>();
+  [current, prior].forEach(financials => {
+    if (!financials) return;
+    ([[AccountType.ASSET, financials.assets], [AccountType.LIABILITY, financials.liabilities], [AccountType.EQUITY, financials.equity]] as const)
+      .forEach(([type, groups]) => groups.forEach(g => {
+        const key = rubroKey(type, g.name);
+        if (!rubros.has(key)) rubros.set(key, { key, type, name: g.name });
+      }));
+  });
+  return Array.from(rubros.values());
+};
+
+export interface CashFlowLine {
+  label: string;
+  amount: number; // Positive = cash generated
+}
+
+export interface CashFlowSection {
+  activity: Exclude<CashFlowActivity, 'CASH'>;
+  lines: CashFlowLine[];
+  total: number;
+}
+
+export interface CashFlowStatement {
+  openingCash: number;
+  closingCash: number;
+  sections: CashFlowSection[];
+  variation: number; // Sum of the sections
+  difference: number; // Variation of efectivo the sections do not explain (unclassified lines, unbalanced trial balance)
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const sumGroups = (groups: RubroGroup[]): number => groups.reduce((s, g) => s + g.total, 0);
+
+export const buildCashFlow = (
+  current: GroupedFinancials,
+  prior: GroupedFinancials,
+  mapping: Record<string, CashFlowActivity> | undefined,
+  fixedAssets: FixedAssetRow[] = []
+): CashFlowStatement => {
+  const lines: Record<CashFlowSection['activity'], CashFlowLine[]> = { OPERATING: [], INVESTING: [], FINANCING: [] };
+  let openingCash = 0;
+  let closingCash = 0;
+
+  // Stored signs throughout: results add up to minus the result of the period
+  const netResult = round2(-(current.revenueTotal + current.expenseTotal));
+  const priorNetResult = round2(-(prior.revenueTotal + prior.expenseTotal));
+  lines.OPERATING.push({ label: 'Resultado del ejercicio', amount: netResult });
+
+  const depreciationByRubro = new Map<string, number>();
+  fixedAssets.forEach(r => depreciationByRubro.set(r.rubro, (depreciationByRubro.get(r.rubro) || 0) + r.depreciationYear));
+  const depreciation = round2(Array.from(depreciationByRubro.values()).reduce((s, d) => s + d, 0));
+  if (depreciation !== 0) lines.OPERATING.push({ label: 'Amortizaciones de bienes de uso', amount: depreciation });
+
+  let priorResultPlaced = false;
+  const chapters = [
+    [AccountType.ASSET, current.assets, prior.assets],
+    [AccountType.LIABILITY, current.liabilities, prior.liabilities],
+    [AccountType.EQUITY, current.equity, prior.equity]
+  ] as const;
+  chapters.forEach(([type, currentGroups, priorGroups]) => {
+    const names = [...currentGroups.map(g => g.name), ...priorGroups.map(g => g.name).filter(n => !currentGroups.some(g => g.name === n))];
+    names.forEach(name => {
+      const closing = sumGroups(currentGroups.filter(g => g.name === name));
+      let opening = sumGroups(priorGroups.filter(g => g.name === name));
+      const activity = cashFlowActivity(mapping, type, name);
+      if (activity === 'CASH') {
+        openingCash += opening;
+        closingCash += closing;
+        return;
+      }
+      // The prior result now sits in retained earnings; without it there, the change would count it twice
+      if (type === AccountType.EQUITY && !priorResultPlaced && RETAINED_EARNINGS_RUBRO.test(normalizeText(name))) {
+        opening -= priorNetResult;
+        priorResultPlaced = true;
+      }
+      const amount = round2(-(closing - opening) - (depreciationByRubro.get(name) || 0));
+      if (amount !== 0) lines[activity].push({ label: `Variación de ${name}`, amount });
+    });
+  });
+  if (!priorResultPlaced && priorNetResult !== 0) {
+    lines.FINANCING.push({ label: 'Asignación del resultado del ejercicio anterior', amount: -priorNetResult });
+  }
+
+  const sections = (Object.keys(lines) as CashFlowSection['activity'][]).map(activity => ({
+    activity,
+    lines: lines[activity],
+    total: round2(lines[activity].reduce((s, l) => s + l.amount, 0))
+  }));
+  const variation = round2(sections.reduce((s, section) => s + section.total, 0));
+  return {
+    openingCash: round2(openingCash),
+    closingCash: round2(closingCash),
+    sections,
+    variation,
+    difference: round2(closingCash - openingCash - variation)
+  };
+};
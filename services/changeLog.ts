@@ -0,0 +1,150 @@
+import { AccountLine, ChangeAction, ChangeLogEntry, ChangeValue, MonetaryNature, Term, TrackedField } from "../types";
+import { formatAmount } from "./financialStatements";
+import { TERM_LABELS } from "./terms";
+import { NATURE_LABELS, formatMonth } from "./inflation";
+
+export const CHANGE_ACTION_LABELS: Record<ChangeAction, string> = {
+  ADD: 'Alta',
+  EDIT: 'Modificación',
+  DELETE: 'Baja'
+};
+
+export const TRACKED_FIELD_LABELS: Record<TrackedField, string> = {
+  code: 'Código',
+  name: 'Cuenta',
+  type: 'Capítulo',
+  category: 'Rubro',
+  term: 'Plazo',
+  nature: 'Naturaleza',
+  originDate: 'Fecha de origen',
+  currency: 'Moneda',
+  originalAmount: 'Monto en moneda extranjera',
+  debit: 'Debe',
+  credit: 'Haber',
+  balance: 'Saldo',
+  isGroup: 'Agrupadora'
+};
+
+const TRACKED_FIELDS = Object.keys(TRACKED_FIELD_LABELS) as TrackedField[];
+const AMOUNT_FIELDS: TrackedField[] = ['originalAmount', 'debit', 'credit', 'balance'];
+
+// A change found on save, before the auditor signs it with a name and a note
+export type PendingChange = Pick<ChangeLogEntry, 'accountId' | 'accountLabel' | 'action' | 'field' | 'oldValue' | 'newValue'>;
+
+export const accountLabel = (acc: AccountLine): string => [acc.code, acc.name].filter(Boolean).join(' ');
+
+// Added and deleted lines are logged as a whole, with their chapter, rubro and balance
+const describeLine = (acc: AccountLine): string =>
+  `${acc.type} · ${acc.category} · $ ${formatAmount(acc.balance)}`;
+
+const sameValue = (field: TrackedField, a: ChangeValue, b: ChangeValue): boolean =>
+  AMOUNT_FIELDS.includes(field) ? Math.abs(Number(a || 0) - Number(b || 0)) < 0.005 : (a ?? '') === (b ?? '');
+
+/**
+ * Compares the saved accounts of a period with the ones on screen, line by line (by id).
+ * Keystrokes on the same field collapse into one change: only the saved and the final value count.
+ */
+export const diffManualChanges = (saved: AccountLine[], current: AccountLine[]): PendingChange[] => {
+  const savedById = new Map(saved.map(acc => [acc.id, acc]));
+  const currentIds = new Set(current.map(acc => acc.id));
+  const changes: PendingChange[] = [];
+
+  current.forEach(acc => {
+    const prev = savedById.get(acc.id);
+    if (!prev) {
+      changes.push({ accountId: acc.id, accountLabel: accountLabel(acc), action: 'ADD', oldValue: null, newValue: describeLine(acc) });
+      return;
+    }
+    TRACKED_FIELDS.forEach(field => {
+      const oldValue = (prev[field] ?? null) as ChangeValue;
+      const newValue = (acc[field] ?? null) as ChangeValue;
+      if (sameValue(field, oldValue, newValue)) return;
+      changes.push({ accountId: acc.id, accountLabel: accountLabel(acc), action: 'EDIT', field, oldValue, newValue });
+    });
+  });
+
+  saved.forEach(acc => {
+    if (currentIds.has(acc.id)) return;
+    changes.push({ accountId: acc.id, accountLabel: accountLabel(acc), action: 'DELETE', oldValue: describeLine(acc), newValue: null });
+  });
+
+  return changes;
+};
+
+// Appends the changes to the log; earlier entries are never touched
+export const appendChanges = (
+  log: ChangeLogEntry[] | undefined,
+  changes: PendingChange[],
+  periodId: string,
+  user: string,
+  note?: string
+): ChangeLogEntry[] => {
+  const timestamp = new Date().toISOString();
+  return [
+    ...(log || []),
+    ...changes.map(change => ({
+      ...change,
+      id: crypto.randomUUID(),
+      periodId,
+      user,
+      timestamp,
+      note: note || undefined
+    }))
+  ];
+};
+
+export const formatChangeValue = (value: ChangeValue, field?: TrackedField): string => {
+  if (value === null || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (field && AMOUNT_FIELDS.includes(field)) return formatAmount(Number(value));
+  if (field === 'term') return TERM_LABELS[value as Term] || String(value);
+  if (field === 'nature') return NATURE_LABELS[value as MonetaryNature] || String(value);
+  if (field === 'originDate') return formatMonth(String(value));
+  return String(value);
+};
+
+// --- Viewing and export ---
+
+export interface ChangeLogFilters {
+  periodId: string; // '' = every period
+  query: string; // Account code or name
+  action: ChangeAction | '';
+  field: TrackedField | '';
+  user: string;
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;
+}
+
+export const EMPTY_CHANGE_FILTERS: ChangeLogFilters = { periodId: '', query: '', action: '', field: '', user: '', from: '', to: '' };
+
+// Newest first
+export const filterChangeLog = (log: ChangeLogEntry[], filters: ChangeLogFilters): ChangeLogEntry[] => {
+  const query = filters.query.trim().toLowerCase();
+  return log
+    .filter(e => !filters.periodId || e.periodId === filters.periodId)
+    .filter(e => !query || e.accountLabel.toLowerCase().includes(query))
+    .filter(e => !filters.action || e.action === filters.action)
+    .filter(e => !filters.field || e.field === filters.field)
+    .filter(e => !filters.user || e.user === filters.user)
+    .filter(e => !filters.from || e.timestamp.substring(0, 10) >= filters.from)
+    .filter(e => !filters.to || e.timestamp.substring(0, 10) <= filters.to)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export const listChangeUsers = (log: ChangeLogEntry[]): string[] =>
+  Array.from(new Set(log.map(e => e.user))).sort((a, b) => a.localeCompare(b, 'es'));
+
+export const CHANGE_LOG_COLUMNS = ['Fecha', 'Usuario', 'Cuenta', 'Acción', 'Campo', 'Valor anterior', 'Valor nuevo', 'Justificación'];
+
+// Same rows for the Excel sheet and the PDF table
+export const changeLogRows = (entries: ChangeLogEntry[]): string[][] =>
+  entries.map(e => [
+    new Date(e.timestamp).toLocaleString('es-AR'),
+    e.user,
+    e.accountLabel,
+    CHANGE_ACTION_LABELS[e.action],
+    e.field ? TRACKED_FIELD_LABELS[e.field] : '-',
+    formatChangeValue(e.oldValue, e.field),
+    formatChangeValue(e.newValue, e.field),
+    e.note || ''
+  ]);
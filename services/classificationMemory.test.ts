@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType } from '../types';
+import { getDetailLines } from './accountTree';
+import { applyClassificationMemory, mergeWithMemory, recallClassification, rememberOverrides } from './classificationMemory';
+
+const classified = (line: Partial<AccountLine>, type: AccountType, category: string): AccountLine => ({
+  id: crypto.randomUUID(),
+  code: line.code || '',
+  name: line.name || '',
+  debit: line.debit || 0,
+  credit: line.credit || 0,
+  balance: line.balance || 0,
+  type,
+  category,
+  isGroup: false,
+  indent: line.indent,
+  manualOverride: false
+});
+
+// Uncoded plan: the tree comes from the indentation of the names
+const indentedImport: Partial<AccountLine>[] = [
+  { code: '', name: 'Activo', debit: 0, credit: 0, balance: 0, indent: 0 },
+  { code: '', name: 'Caja', debit: 100, credit: 0, balance: 100, indent: 2 },
+  { code: '', name: 'Banco', debit: 50, credit: 0, balance: 50, indent: 2 },
+  { code: '', name: 'Clientes', debit: 200, credit: 0, balance: 200, indent: 2 }
+];
+
+describe('applyClassificationMemory', () => {
+  const memory = rememberOverrides([
+    { ...classified({ name: 'Banco' }, AccountType.ASSET, 'Caja y Bancos'), manualOverride: true }
+  ], []);
+
+  it('classifies remembered lines and leaves the rest pending', () => {
+    const { remembered, pending } = applyClassificationMemory(indentedImport, memory);
+    expect(remembered[2]).toMatchObject({ name: 'Banco', type: AccountType.ASSET, category: 'Caja y Bancos', classificationSource: 'MEMORY' });
+    expect(pending.map(l => l.name)).toEqual(['Activo', 'Caja', 'Clientes']);
+  });
+
+  it('keeps the indentation of remembered lines, so they stay detail lines', () => {
+    const { remembered, pending } = applyClassificationMemory(indentedImport, memory);
+    const accounts = mergeWithMemory(remembered, pending.map(l => classified(l, AccountType.ASSET, 'Caja y Bancos')));
+    expect(accounts[2].indent).toBe(2);
+    expect(getDetailLines(accounts).map(a => a.name)).toEqual(['Caja', 'Banco', 'Clientes']);
+  });
+});
+
+describe('recallClassification', () => {
+  const memory = rememberOverrides([
+    { ...classified({ code: '1.4.01', name: 'Varios' }, AccountType.ASSET, 'Otros Créditos'), manualOverride: true }
+  ], []);
+
+  it('recognizes a coded line by its code', () => {
+    expect(recallClassification({ code: '1.4.01', name: 'Deudores varios' }, memory)).toMatchObject({ category: 'Otros Créditos' });
+  });
+
+  it('does not lend a generic name to a line with another code', () => {
+    expect(recallClassification({ code: '2.5.01', name: 'Varios' }, memory)).toBeUndefined();
+  });
+
+  it('falls back to the name when the line has no code', () => {
+    expect(recallClassification({ code: '', name: 'Varios' }, memory)).toMatchObject({ category: 'Otros Créditos' });
+  });
+});
+
+describe('rememberOverrides', () => {
+  const saved = [classified({ code: '1.1', name: 'Caja', balance: 100 }, AccountType.ASSET, 'Caja y Bancos')];
+
+  it('skips lines whose only manual change was an amount', () => {
+    const edited = [{ ...saved[0], debit: 150, balance: 150, manualOverride: true }];
+    expect(rememberOverrides(edited, saved)).toEqual({});
+  });
+
+  it('remembers lines reclassified by hand', () => {
+    const edited = [{ ...saved[0], category: 'Inversiones', manualOverride: true }];
+    expect(Object.keys(rememberOverrides(edited, saved))).toEqual(['code:1.1', 'name:caja']);
+  });
+});
@@ -0,0 +1,98 @@
+import { AccountLine, AccountType, ClassificationMemoryEntry } from "../types";
+import { normalizeText } from "./accountMapping";
+
+type Memory = Record<string, ClassificationMemoryEntry>;
+
+const codeKey = (line: Partial<AccountLine>): string | null => {
+  const code = (line.code || '').trim();
+  return code ? `code:${code}` : null;
+};
+
+const nameKey = (line: Partial<AccountLine>): string | null => {
+  const name = normalizeText(line.name || '');
+  return name ? `name:${name}` : null;
+};
+
+// Both keys are stored: the code survives renames, the name serves plans without codes
+const memoryKeys = (line: Partial<AccountLine>): string[] =>
+  [codeKey(line), nameKey(line)].filter((k): k is string => k !== null);
+
+// Generic names ("Varios", "Otros", "Anticipos") repeat across unrelated accounts, so a coded
+// line is only recognized by its code
+export const recallClassification = (line: Partial<AccountLine>, memory: Memory = {}): ClassificationMemoryEntry | undefined => {
+  const key = codeKey(line) || nameKey(line);
+  return key ? memory[key] : undefined;
+};
+
+// Amount, currency or inflation edits also mark a line as manual; only the classification counts here
+const classificationChanged = (before: AccountLine | undefined, after: AccountLine): boolean =>
+  !before || before.type !== after.type || before.category !== after.category || before.term !== after.term;
+
+// Lines the auditor classified by hand since `saved` (the period as last stored) are remembered as left
+export const rememberOverrides = (accounts: AccountLine[], saved: AccountLine[], memory: Memory = {}): Memory => {
+  const updated = { ...memory };
+  const now = new Date().toISOString();
+  const savedById = new Map<string, AccountLine>(saved.map(a => [a.id, a]));
+  accounts
+    .filter(a => a.manualOverride && a.type !== AccountType.UNCLASSIFIED && classificationChanged(savedById.get(a.id), a))
+    .forEach(a => {
+      memoryKeys(a).forEach(key => {
+        updated[key] = {
+          key,
+          label: a.code ? `${a.code} ${a.name}` : a.name,
+          type: a.type,
+          category: a.category,
+          isGroup: a.isGroup,
+          term: a.term,
+          updatedAt: now
+        };
+      });
+    });
+  return updated;
+};
+
+export const forgetEntry = (memory: Memory, key: string): Memory => {
+  const { [key]: _removed, ...rest } = memory;
+  return rest;
+};
+
+/**
+ * Splits freshly parsed lines into those the client memory already knows (returned fully
+ * classified, in place) and those that still need `classifyAccounts`.
+ */
+export const applyClassificationMemory = (
+  lines: Partial<AccountLine>[],
+  memory: Memory = {}
+): { remembered: (AccountLine | null)[]; pending: Partial<AccountLine>[] } => {
+  const pending: Partial<AccountLine>[] = [];
+  const remembered = lines.map(line => {
+    const entry = recallClassification(line, memory);
+    if (!entry) {
+      pending.push(line);
+      return null;
+    }
+    return {
+      id: crypto.randomUUID(),
+      code: line.code || '',
+      name: line.name || 'Cuenta Desconocida',
+      debit: line.debit || 0,
+      credit: line.credit || 0,
+      balance: line.balance || (line.debit || 0) - (line.credit || 0),
+      type: entry.type,
+      category: entry.category,
+      isGroup: entry.isGroup,
+      term: entry.term,
+      // Structure comes from the file, not from memory: the tree is rebuilt from it
+      indent: line.indent,
+      manualOverride: false,
+      classificationSource: 'MEMORY' as const
+    };
+  });
+  return { remembered, pending };
+};
+
+// Puts the classified pending lines back in the slots left empty by `applyClassificationMemory`
+export const mergeWithMemory = (remembered: (AccountLine | null)[], classified: AccountLine[]): AccountLine[] => {
+  let next = 0;
+  return remembered.map(line => line || classified[next++]);
+};
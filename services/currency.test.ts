@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType, AdjustingEntry, ExchangeRateTable } from '../types';
+import { applyAdjustments, isBalanced } from './adjustments';
+import { buildExchangeDifferenceEntry, convertForeignCurrency, findExchangeDifferenceLine } from './currency';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number): AccountLine => ({
+  id: code, code, name, type, category, balance,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  isGroup: false, manualOverride: false
+});
+
+// USD 10 booked at 100, with 100 more added by an adjusting entry before the closing rate of 120
+const accounts: AccountLine[] = [
+  { ...line('1.1', 'Banco cuenta en dólares', AccountType.ASSET, 'Caja y Bancos', 1000), currency: 'USD', originalAmount: 10 },
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000),
+  line('4.1', 'Diferencia de cambio', AccountType.REVENUE, 'Resultados Financieros', 0)
+];
+
+const rates: ExchangeRateTable = { rates: [{ currency: 'USD', date: '2024-12-31', rate: 120 }], updatedAt: '2025-01-01' };
+
+const booked: AdjustingEntry = {
+  id: 'e1', number: 1, date: '2024-12-31', description: 'Intereses', reference: 'PT 1',
+  lines: [{ accountKey: 'c:1.1', debit: 100, credit: 0 }, { accountKey: 'c:3.1', debit: 0, credit: 100 }],
+  createdAt: '2025-01-01'
+};
+
+describe('buildExchangeDifferenceEntry', () => {
+  const adjusted = applyAdjustments(accounts, [booked]);
+  const conversions = convertForeignCurrency(adjusted, '2024-12-31', rates);
+  const counterpart = findExchangeDifferenceLine(adjusted)!;
+  const entry = buildExchangeDifferenceEntry(conversions, counterpart, [booked], '2024-12-31', 'auditor')!;
+
+  it('books only the difference left after the entries already recorded', () => {
+    expect(entry.number).toBe(2);
+    expect(isBalanced(entry)).toBe(true);
+    expect(entry.lines).toEqual([
+      { accountKey: 'c:1.1', debit: 100, credit: 0 },
+      { accountKey: 'c:4.1', debit: 0, credit: 100 }
+    ]);
+  });
+
+  it('brings the line to its closing rate without touching the imported balance', () => {
+    const result = applyAdjustments(accounts, [booked, entry]);
+    expect(result.find(a => a.code === '1.1')!.balance).toBe(1200);
+    expect(accounts[0].balance).toBe(1000);
+    expect(buildExchangeDifferenceEntry(convertForeignCurrency(result, '2024-12-31', rates), counterpart, [booked, entry], '2024-12-31')).toBeNull();
+  });
+});
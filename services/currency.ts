@@ -0,0 +1,235 @@
+import * as XLSX from "xlsx";
+import { AccountLine, AccountType, AdjustingEntry, ExchangeRate, ExchangeRateTable } from "../types";
+import { normalizeText } from "./accountMapping";
+import { getDetailLines } from "./accountTree";
+import { nextEntryNumber } from "./adjustments";
+import { detectAmountFormat, parseAmount } from "./amountParser";
+import { lineKey } from "./financialStatements";
+
+/**
+ * Foreign currency lines: the trial balance carries them in pesos, next to their amount in the
+ * original currency. At the closing date they are measured at the exchange rate in force
+ * (the last one published on or before the closing), as Anexo G reports them.
+ */
+
+export const LOCAL_CURRENCY = 'ARS';
+
+export const CURRENCY_LABELS: Record<string, string> = {
+  USD: 'Dólar estadounidense',
+  EUR: 'Euro',
+  BRL: 'Real',
+  GBP: 'Libra esterlina',
+  CHF: 'Franco suizo',
+  CNY: 'Yuan',
+  UYU: 'Peso uruguayo'
+};
+
+export const currencyLabel = (code: string): string => CURRENCY_LABELS[code] || code;
+
+// Account names that give their currency away: "Banco USD", "Deudas en moneda extranjera"
+export const suggestCurrency = (name: string): string | undefined => {
+  const n = normalizeText(name);
+  if (/\beur\b|\beuros?\b/.test(n)) return 'EUR';
+  if (/\bbrl\b|\breales\b/.test(n)) return 'BRL';
+  if (/\busd\b|u\$s|us\$|\bdolar(es)?\b|moneda extranjera/.test(n)) return 'USD';
+  return undefined;
+};
+
+// --- Rate table ---
+
+const dateKey = (year: number, month: number, day: number): string | null =>
+  year >= 1900 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= 31
+    ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    : null;
+
+// A day in a single cell: Excel date, "02/01/2024", "2024-01-02" or "20240102"
+const parseDateCell = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 19000101 && value <= 21001231) {
+      return dateKey(Math.floor(value / 10000), Math.floor(value / 100) % 100, value % 100);
+    }
+    if (!Number.isInteger(value) || value < 20000 || value > 80000) return null;
+    const date = XLSX.SSF.parse_date_code(value);
+    return date ? dateKey(date.y, date.m, date.d) : null;
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  let match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return dateKey(Number(match[3]), Number(match[2]), Number(match[1]));
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return dateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return dateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+  return null;
+};
+
+/**
+ * Reads the BCRA Comunicación A 3500 file (Excel or CSV: one day per row, the date and then the
+ * reference rate) or any sheet with that layout. Every rate is read as pesos per unit of `currency`.
+ */
+export const parseExchangeRateRows = (rows: any[][], currency = 'USD'): ExchangeRate[] => {
+  const found: { date: string; raw: unknown }[] = [];
+  rows.forEach(row => {
+    const cells = row || [];
+    const dateIndex = cells.findIndex(c => parseDateCell(c) !== null);
+    if (dateIndex === -1) return;
+    const raw = cells.slice(dateIndex + 1).find(c => c !== undefined && c !== null && String(c).trim() !== '');
+    if (raw !== undefined) found.push({ date: parseDateCell(cells[dateIndex])!, raw });
+  });
+
+  const format = detectAmountFormat(found.map(f => f.raw).filter(v => typeof v === 'string')) || 'ES_AR';
+  const byDate = new Map<string, number>();
+  found.forEach(({ date, raw }) => {
+    const rate = typeof raw === 'number' ? raw : parseAmount(raw, format).value;
+    if (Number.isFinite(rate) && rate > 0) byDate.set(date, rate);
+  });
+  return Array.from(byDate, ([date, rate]) => ({ currency, date, rate })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const rateKey = (r: ExchangeRate) => `${r.currency}|${r.date}`;
+
+// Imported or typed rates replace the ones for the same currency and day; the rest are kept
+export const mergeExchangeRates = (table: ExchangeRateTable | null, rates: ExchangeRate[], source?: string): ExchangeRateTable => {
+  const byKey = new Map((table?.rates || []).map(r => [rateKey(r), r]));
+  rates.forEach(r => byKey.set(rateKey(r), r));
+  return {
+    rates: Array.from(byKey.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date)),
+    source: source ?? table?.source,
+    updatedAt: new Date().toISOString()
+  };
+};
+
+export const listCurrencies = (table: ExchangeRateTable | null): string[] =>
+  Array.from(new Set((table?.rates || []).map(r => r.currency)));
+
+// Rate in force on `date`: the last one published on or before it
+export const findRate = (table: ExchangeRateTable | null, currency: string, date: string): ExchangeRate | null =>
+  (table?.rates || [])
+    .filter(r => r.currency === currency && r.date <= date)
+    .reduce<ExchangeRate | null>((last, r) => !last || r.date > last.date ? r : last, null);
+
+// --- Conversion ---
+
+export interface ForeignCurrencyLine {
+  account: AccountLine;
+  currency: string;
+  rate: ExchangeRate | null;
+  converted: number | null; // Original amount at the closing rate; null without amount or rate
+  difference: number | null; // Converted minus booked balance
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const isForeignCurrency = (acc: Pick<AccountLine, 'currency'>): boolean =>
+  !!acc.currency && acc.currency !== LOCAL_CURRENCY;
+
+export const convertForeignCurrency = (
+  accounts: AccountLine[],
+  closingDate: string,
+  table: ExchangeRateTable | null
+): ForeignCurrencyLine[] => getDetailLines(accounts)
+  .filter(isForeignCurrency)
+  .map(account => {
+    const currency = account.currency!;
+    const rate = findRate(table, currency, closingDate);
+    const converted = rate && account.originalAmount !== undefined ? round2(account.originalAmount * rate.rate) : null;
+    return { account, currency, rate, converted, difference: converted === null ? null : round2(converted - account.balance) };
+  });
+
+// --- Exchange difference ---
+
+// Result line that takes the exchange difference: the first one named after it
+export const findExchangeDifferenceLine = (accounts: AccountLine[]): AccountLine | undefined =>
+  getDetailLines(accounts).find(acc =>
+    (acc.type === AccountType.REVENUE || acc.type === AccountType.EXPENSE) &&
+    /diferencias? de cambio/.test(normalizeText(acc.name))
+  );
+
+/**
+ * Adjusting entry that brings every converted line to its closing rate, against the exchange
+ * difference line. Differences are measured on the adjusted balance, so entries already booked
+ * are not counted twice. Null when no line has a difference.
+ */
+export const buildExchangeDifferenceEntry = (
+  conversions: ForeignCurrencyLine[],
+  counterpart: AccountLine,
+  entries: AdjustingEntry[],
+  date: string,
+  user?: string
+): AdjustingEntry | null => {
+  const pending = conversions.filter(c => c.difference !== null && Math.abs(c.difference) >= 0.005);
+  if (pending.length === 0) return null;
+  const lines = pending.map(c => ({
+    accountKey: lineKey(c.account),
+    debit: c.difference! > 0 ? c.difference! : 0,
+    credit: c.difference! < 0 ? -c.difference! : 0
+  }));
+  const net = round2(pending.reduce((s, c) => s + c.difference!, 0));
+  if (net !== 0) lines.push({ accountKey: lineKey(counterpart), debit: net < 0 ? -net : 0, credit: net > 0 ? net : 0 });
+  return {
+    id: crypto.randomUUID(),
+    number: nextEntryNumber(entries),
+    date,
+    description: 'Diferencia de cambio al tipo de cambio de cierre',
+    reference: 'Anexo G',
+    lines,
+    createdBy: user || undefined,
+    createdAt: new Date().toISOString()
+  };
+};
+
+// --- Anexo G ---
+
+export interface AnnexGRow {
+  account: AccountLine;
+  currency: string;
+  originalAmount: number | null;
+  rate: number | null;
+  amount: number; // In pesos at the closing rate; the booked balance when it cannot be converted
+  prior: number | null; // Pesos of the same account in the prior period
+}
+
+export interface AnnexGSection {
+  title: 'ACTIVO' | 'PASIVO';
+  rubros: { name: string; rows: AnnexGRow[]; total: number; priorTotal: number | null }[];
+  total: number;
+  priorTotal: number | null;
+}
+
+// Foreign currency assets and liabilities by rubro, in absolute values as presented
+export const buildAnnexG = (lines: ForeignCurrencyLine[], priorAccounts?: AccountLine[]): AnnexGSection[] => {
+  const priorByKey = priorAccounts ? new Map(getDetailLines(priorAccounts).map(acc => [lineKey(acc), acc])) : null;
+  const sections: AnnexGSection[] = [];
+  ([[AccountType.ASSET, 'ACTIVO'], [AccountType.LIABILITY, 'PASIVO']] as const).forEach(([type, title]) => {
+    const rubros = new Map<string, AnnexGRow[]>();
+    lines.filter(l => l.account.type === type).forEach(l => {
+      const prior = priorByKey?.get(lineKey(l.account));
+      const row: AnnexGRow = {
+        account: l.account,
+        currency: l.currency,
+        originalAmount: l.account.originalAmount === undefined ? null : Math.abs(l.account.originalAmount),
+        rate: l.rate?.rate ?? null,
+        amount: Math.abs(l.converted ?? l.account.balance),
+        prior: priorByKey ? (prior ? Math.abs(prior.balance) : 0) : null
+      };
+      rubros.set(l.account.category, [...(rubros.get(l.account.category) || []), row]);
+    });
+    if (rubros.size === 0) return;
+
+    const sumPrior = (rows: AnnexGRow[]) => priorByKey ? rows.reduce((s, r) => s + (r.prior || 0), 0) : null;
+    const grouped = Array.from(rubros, ([name, rows]) => ({
+      name,
+      rows,
+      total: rows.reduce((s, r) => s + r.amount, 0),
+      priorTotal: sumPrior(rows)
+    }));
+    const allRows = grouped.flatMap(g => g.rows);
+    sections.push({
+      title,
+      rubros: grouped,
+      total: grouped.reduce((s, g) => s + g.total, 0),
+      priorTotal: sumPrior(allRows)
+    });
+  });
+  return sections;
+};
@@ -0,0 +1,35 @@
+import { SourceDocument } from "../types";
+
+// SHA-256 of the file content, hex encoded. Identical uploads share one stored original.
+export const hashContent = async (content: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await content.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Base64 payload (without the data: prefix), as the AI services expect it
+export const blobToBase64 = (content: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(new Error("Error crítico al leer el archivo del disco."));
+  reader.readAsDataURL(content);
+});
+
+export const downloadBlob = (content: Blob, filename: string) => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Newest first
+export const sortDocuments = (files: SourceDocument[]): SourceDocument[] =>
+  [...files].sort((a, b) => b.date.localeCompare(a.date));
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType } from '../types';
+import { buildEquityChanges, buildIncomeStatement, equityWithResult, groupFinancials, incomeSummary, liabilitiesAndEquity, naturalAmount, rubroAmount } from './financialStatements';
+import { runInconsistencyRules } from './inconsistencyRules';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number): AccountLine => ({
+  id: code, code, name, type, category, balance,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  isGroup: false, manualOverride: false
+});
+
+// Balanced trial balance with a loss of 100, an exchange loss in a revenue rubro and accumulated losses
+const lossMaking: AccountLine[] = [
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 1000),
+  line('2.1', 'Proveedores', AccountType.LIABILITY, 'Deudas Comerciales', -300),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000),
+  line('3.2', 'Resultados no asignados', AccountType.EQUITY, 'Resultados Acumulados', 200),
+  line('4.1', 'Ventas', AccountType.REVENUE, 'Ventas', -500),
+  line('4.2', 'Diferencia de cambio', AccountType.REVENUE, 'Resultados Financieros', 100),
+  line('5.1', 'Costo de mercaderías vendidas', AccountType.EXPENSE, 'Costo de Ventas', 300),
+  line('5.2', 'Honorarios', AccountType.EXPENSE, 'Gastos de Administración', 200)
+];
+
+describe('groupFinancials', () => {
+  it('takes a debit balance in a revenue rubro as a loss', () => {
+    expect(groupFinancials(lossMaking).netResult).toBe(-100);
+  });
+
+  it('keeps a balanced trial balance free of equation issues', () => {
+    const issues = runInconsistencyRules(lossMaking, groupFinancials(lossMaking));
+    expect(issues.find(i => i.id === 'equation')).toBeUndefined();
+  });
+
+  it('presents accumulated losses as a deduction of Patrimonio Neto', () => {
+    const financials = groupFinancials(lossMaking);
+    const losses = financials.equity.find(g => g.name === 'Resultados Acumulados')!;
+    expect(rubroAmount(AccountType.EQUITY, losses)).toBe(-200);
+    expect(naturalAmount(AccountType.EQUITY, losses.accounts[0].balance)).toBe(-200);
+    expect(naturalAmount(AccountType.LIABILITY, financials.liabilitiesTotal)).toBe(300);
+  });
+});
+
+describe('buildIncomeStatement', () => {
+  it('reports the exchange loss as a negative financial result', () => {
+    const lines = buildIncomeStatement(groupFinancials(lossMaking));
+    const amount = (label: string) => lines.find(l => l.label === label)!.current;
+    expect(amount('Ventas Netas')).toBe(500);
+    expect(amount('Resultado Bruto')).toBe(200);
+    expect(amount('Resultados Financieros y por Tenencia')).toBe(-100);
+    expect(amount('Resultado del Ejercicio')).toBe(-100);
+  });
+
+  it('agrees with the net result of the grouping', () => {
+    const financials = groupFinancials(lossMaking);
+    expect(incomeSummary(financials).netResult).toBe(financials.netResult);
+  });
+});
+
+describe('buildEquityChanges', () => {
+  it('deducts accumulated losses so the closing PN matches the balance sheet', () => {
+    const statement = buildEquityChanges(groupFinancials(lossMaking));
+    const closing = statement.rows[statement.rows.length - 1];
+    expect(closing.values).toEqual([1000, -200, -100, 700]);
+  });
+
+  it('closes on the same Patrimonio Neto the balance sheet shows', () => {
+    const financials = groupFinancials(lossMaking);
+    const statement = buildEquityChanges(financials);
+    const closing = statement.rows[statement.rows.length - 1];
+    expect(equityWithResult(financials)).toBe(closing.values[closing.values.length - 1]);
+    expect(liabilitiesAndEquity(financials)).toBe(financials.assetsTotal);
+  });
+});
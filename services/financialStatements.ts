@@ -0,0 +1,347 @@
+import { AccountLine, AccountType, BalanceModel, Term } from "../types";
+import { getDetailLines } from "./accountTree";
+import { NATURAL_SIGN, findRubroPlacement, presentationSign } from "./balanceModel";
+import { TERM_LABELS, lineTerm } from "./terms";
+
+export interface RubroGroup {
+  name: string;
+  accounts: AccountLine[];
+  total: number;
+  sign: 1 | -1; // -1 for regularizadoras of the balance model, presented as deductions
+}
+
+// Activo and Pasivo split by term; a rubro with lines on both sides appears in both
+export interface TermSections {
+  current: RubroGroup[];
+  currentTotal: number;
+  nonCurrent: RubroGroup[];
+  nonCurrentTotal: number;
+}
+
+export interface GroupedFinancials {
+  assets: RubroGroup[];
+  assetsTotal: number;
+  assetTerms: TermSections;
+  liabilities: RubroGroup[];
+  liabilitiesTotal: number;
+  liabilityTerms: TermSections;
+  equity: RubroGroup[];
+  equityTotal: number;
+  revenue: RubroGroup[];
+  revenueTotal: number;
+  expenses: RubroGroup[];
+  expenseTotal: number;
+  netResult: number;
+}
+
+/**
+ * Amount of a rubro on the natural side of its chapter, from the stored sign: positive for the
+ * usual balance, negative otherwise (a loss in a revenue rubro, accumulated losses in equity).
+ * Regularizadoras carry their balance on the other side, so they come out deducted already.
+ */
+export const rubroAmount = (type: AccountType, g: RubroGroup): number => naturalAmount(type, g.total);
+
+// The same for any stored amount of the chapter: a line, a rubro or a section total
+export const naturalAmount = (type: AccountType, value: number): number =>
+  NATURAL_SIGN[type] === 'CREDIT' ? -value : value;
+
+// Default order map (CNV) - used only if no custom model is present or as fallback
+const defaultOrderMap: Record<string, number> = {
+    // Activo
+    'Caja y Bancos': 1, 'Inversiones': 2, 'Créditos por Ventas': 3, 'Otros Créditos': 4,
+    'Bienes de Cambio': 5, 'Bienes de Uso': 6, 'Activos Intangibles': 7,
+    // Pasivo
+    'Deudas Comerciales': 1, 'Deudas Bancarias': 2, 'Deudas Sociales y Fiscales': 3,
+    'Otras Deudas': 4, 'Previsiones': 5,
+    // PN
+    'Capital Social': 1, 'Reservas': 2, 'Resultados Acumulados': 3
+};
+
+/**
+ * Groups detail lines by rubro. With a balance model, rubros follow its order exactly and
+ * categories named after a subrubro join their rubro, ordered by subrubro; categories outside
+ * the model go last. Without one, the CNV default order applies.
+ */
+export const groupFinancials = (accounts: AccountLine[], model?: BalanceModel): GroupedFinancials => {
+    // Headers and totals only repeat what their sub-accounts add up to
+    const details = getDetailLines(accounts);
+
+    const groupByTypeAndCategory = (type: AccountType, term?: Term): RubroGroup[] => {
+        const filtered = details.filter(a => a.type === type && (!term || lineTerm(a) === term));
+
+        const groups: Record<string, { accounts: AccountLine[]; order: number }> = {};
+        const subrubroOrder = new Map<string, number>();
+        filtered.forEach(acc => {
+            const category = acc.category || 'Otros';
+            const placement = model ? findRubroPlacement(model, type, category) : null;
+            const name = placement ? placement.rubro.name : category;
+            const order = placement ? placement.rubroIndex : 1000 + (defaultOrderMap[category] || 99);
+            if (!groups[name]) groups[name] = { accounts: [], order };
+            groups[name].accounts.push(acc);
+            subrubroOrder.set(acc.id, placement ? placement.subrubroIndex : -1);
+        });
+
+        const sortedCategories = Object.keys(groups).sort((a, b) =>
+            groups[a].order - groups[b].order || a.localeCompare(b, 'es')
+        );
+
+        return sortedCategories.map(cat => ({
+            name: cat,
+            // Stable sort: file order within each subrubro
+            accounts: [...groups[cat].accounts].sort((a, b) => subrubroOrder.get(a.id)! - subrubroOrder.get(b.id)!),
+            total: groups[cat].accounts.reduce((sum, a) => sum + a.balance, 0),
+            sign: presentationSign(model, type, cat)
+        }));
+    };
+
+    const sumTotals = (groups: RubroGroup[]) => groups.reduce((s, g) => s + g.total, 0);
+
+    const splitByTerm = (type: AccountType): TermSections => {
+        const current = groupByTypeAndCategory(type, 'CURRENT');
+        const nonCurrent = groupByTypeAndCategory(type, 'NON_CURRENT');
+        return { current, currentTotal: sumTotals(current), nonCurrent, nonCurrentTotal: sumTotals(nonCurrent) };
+    };
+
+    const assets = groupByTypeAndCategory(AccountType.ASSET);
+    const liabilities = groupByTypeAndCategory(AccountType.LIABILITY);
+    const equity = groupByTypeAndCategory(AccountType.EQUITY);
+    const revenue = groupByTypeAndCategory(AccountType.REVENUE);
+    const expenses = groupByTypeAndCategory(AccountType.EXPENSE);
+
+    const assetsTotal = sumTotals(assets);
+    const liabilitiesTotal = sumTotals(liabilities);
+    const equityTotal = sumTotals(equity);
+    const revenueTotal = sumTotals(revenue);
+    const expenseTotal = sumTotals(expenses);
+
+    // Revenue is stored negative and expenses positive: the result is minus their sum
+    const netResult = -(revenueTotal + expenseTotal);
+
+    return {
+        assets, assetsTotal, assetTerms: splitByTerm(AccountType.ASSET),
+        liabilities, liabilitiesTotal, liabilityTerms: splitByTerm(AccountType.LIABILITY),
+        equity, equityTotal,
+        revenue, revenueTotal,
+        expenses, expenseTotal,
+        netResult
+    };
+};
+
+// Patrimonio Neto with the result of the period, on its natural side: negative only in deficit
+export const equityWithResult = (financials: GroupedFinancials): number =>
+  -financials.equityTotal + financials.netResult;
+
+// Total Pasivo + Patrimonio Neto, comparable with the Total Activo
+export const liabilitiesAndEquity = (financials: GroupedFinancials): number =>
+  -financials.liabilitiesTotal + equityWithResult(financials);
+
+// --- Comparative (Ejercicio actual / Ejercicio anterior) ---
+
+export interface ComparativeLine {
+  key: string;
+  name: string;
+  current: number;
+  prior: number | null; // null = the account did not exist in the prior period
+}
+
+export interface ComparativeRubro {
+  name: string;
+  sign: 1 | -1; // Presentation sign of the rubro, see RubroGroup
+  lines: ComparativeLine[];
+  current: number;
+  prior: number | null;
+}
+
+// Accounts are matched across periods by code, falling back to the name when the plan has no codes
+export const lineKey = (acc: AccountLine): string =>
+  acc.code.trim() ? `c:${acc.code.trim()}` : `n:${acc.name.trim().toLowerCase()}`;
+
+export const buildComparativeRubros = (current: RubroGroup[], prior?: RubroGroup[]): ComparativeRubro[] => {
+  const priorByName = new Map((prior || []).map(g => [g.name, g]));
+  const rubros: ComparativeRubro[] = [];
+
+  const toRubro = (name: string, currentGroup?: RubroGroup, priorGroup?: RubroGroup): ComparativeRubro => {
+    const lines = new Map<string, ComparativeLine>();
+    (currentGroup?.accounts || []).forEach(acc => {
+      const key = lineKey(acc);
+      const existing = lines.get(key);
+      if (existing) existing.current += acc.balance;
+      else lines.set(key, { key, name: acc.name, current: acc.balance, prior: prior ? 0 : null });
+    });
+    (priorGroup?.accounts || []).forEach(acc => {
+      const key = lineKey(acc);
+      const existing = lines.get(key);
+      if (existing) existing.prior = (existing.prior || 0) + acc.balance;
+      else lines.set(key, { key, name: acc.name, current: 0, prior: acc.balance });
+    });
+
+    return {
+      name,
+      sign: (currentGroup || priorGroup)?.sign || 1,
+      lines: Array.from(lines.values()),
+      current: currentGroup?.total || 0,
+      prior: prior ? (priorGroup?.total || 0) : null
+    };
+  };
+
+  // Current period order wins; rubros that only exist in the prior period go last
+  current.forEach(g => rubros.push(toRubro(g.name, g, priorByName.get(g.name))));
+  (prior || [])
+    .filter(g => !current.some(c => c.name === g.name))
+    .forEach(g => rubros.push(toRubro(g.name, undefined, g)));
+
+  return rubros;
+};
+
+export interface ComparativeTermSection {
+  title: string; // e.g. "ACTIVO CORRIENTE"
+  rubros: ComparativeRubro[];
+  current: number;
+  prior: number | null;
+}
+
+// Corriente first, then No Corriente, as RT 9 presents them
+export const buildComparativeTerms = (title: string, current: TermSections, prior?: TermSections): ComparativeTermSection[] => [
+  {
+    title: `${title} ${TERM_LABELS.CURRENT.toUpperCase()}`,
+    rubros: buildComparativeRubros(current.current, prior?.current),
+    current: current.currentTotal,
+    prior: prior ? prior.currentTotal : null
+  },
+  {
+    title: `${title} ${TERM_LABELS.NON_CURRENT.toUpperCase()}`,
+    rubros: buildComparativeRubros(current.nonCurrent, prior?.nonCurrent),
+    current: current.nonCurrentTotal,
+    prior: prior ? prior.nonCurrentTotal : null
+  }
+];
+
+// --- Estado de Resultados ---
+
+export interface StatementLine {
+  label: string;
+  current: number;
+  prior: number | null;
+  isSubtotal: boolean;
+}
+
+export type IncomeSection = 'SALES' | 'COST' | 'SELLING' | 'ADMIN' | 'OTHER' | 'FINANCIAL' | 'TAX';
+
+// Result rubros are matched by name so custom models ("Ventas Netas", "CMV", ...) still land in the right line
+export const classifyIncomeRubro = (name: string, isRevenue: boolean): IncomeSection => {
+  const n = name.toLowerCase();
+  if (/impuesto a las ganancias|ganancia m[ií]nima/.test(n)) return 'TAX';
+  if (/financ|intereses|diferencia de cambio|tenencia|recpam/.test(n)) return 'FINANCIAL';
+  if (/costo|cmv/.test(n)) return 'COST';
+  if (/comercializ/.test(n)) return 'SELLING';
+  if (/administr/.test(n)) return 'ADMIN';
+  if (isRevenue && /venta|servicios prestados|ingresos operativos/.test(n)) return 'SALES';
+  return 'OTHER';
+};
+
+const incomeSectionAmounts = (financials: GroupedFinancials): Record<IncomeSection, number> => {
+  const amounts: Record<IncomeSection, number> = { SALES: 0, COST: 0, SELLING: 0, ADMIN: 0, OTHER: 0, FINANCIAL: 0, TAX: 0 };
+  financials.revenue.forEach(g => { amounts[classifyIncomeRubro(g.name, true)] += rubroAmount(AccountType.REVENUE, g); });
+  financials.expenses.forEach(g => { amounts[classifyIncomeRubro(g.name, false)] -= rubroAmount(AccountType.EXPENSE, g); });
+  return amounts;
+};
+
+export const buildIncomeStatement = (current: GroupedFinancials, prior?: GroupedFinancials | null): StatementLine[] => {
+  const cur = incomeSectionAmounts(current);
+  const pri = prior ? incomeSectionAmounts(prior) : null;
+
+  const line = (label: string, pick: (a: Record<IncomeSection, number>) => number, isSubtotal = false): StatementLine => ({
+    label,
+    current: pick(cur),
+    prior: pri ? pick(pri) : null,
+    isSubtotal
+  });
+
+  const gross = (a: Record<IncomeSection, number>) => a.SALES + a.COST;
+  const beforeTax = (a: Record<IncomeSection, number>) => gross(a) + a.SELLING + a.ADMIN + a.OTHER + a.FINANCIAL;
+
+  return [
+    line('Ventas Netas', a => a.SALES),
+    line('Costo de Ventas', a => a.COST),
+    line('Resultado Bruto', gross, true),
+    line('Gastos de Comercialización', a => a.SELLING),
+    line('Gastos de Administración', a => a.ADMIN),
+    line('Otros Ingresos y Egresos', a => a.OTHER),
+    line('Resultados Financieros y por Tenencia', a => a.FINANCIAL),
+    line('Resultado antes de Impuesto a las Ganancias', beforeTax, true),
+    line('Impuesto a las Ganancias', a => a.TAX),
+    line('Resultado del Ejercicio', a => beforeTax(a) + a.TAX, true)
+  ];
+};
+
+export interface IncomeSummary {
+  sales: number;
+  grossResult: number;
+  operatingResult: number; // After selling and administrative expenses
+  netResult: number;
+}
+
+// Key lines of the Estado de Resultados, for ratios
+export const incomeSummary = (financials: GroupedFinancials): IncomeSummary => {
+  const a = incomeSectionAmounts(financials);
+  const grossResult = a.SALES + a.COST;
+  return {
+    sales: a.SALES,
+    grossResult,
+    operatingResult: grossResult + a.SELLING + a.ADMIN,
+    netResult: grossResult + a.SELLING + a.ADMIN + a.OTHER + a.FINANCIAL + a.TAX
+  };
+};
+
+// --- Estado de Evolución del Patrimonio Neto ---
+
+export interface EquityChangesRow {
+  label: string;
+  values: number[]; // One per column, the last one being the row total
+  isTotal: boolean;
+}
+
+export interface EquityChangesStatement {
+  columns: string[]; // Equity rubros, then "Resultado del Ejercicio" and "Total"
+  rows: EquityChangesRow[];
+  hasOpeningBalances: boolean;
+}
+
+// Opening balances come from the prior period; without one the whole closing balance shows as movements
+export const buildEquityChanges = (current: GroupedFinancials, prior?: GroupedFinancials | null): EquityChangesStatement => {
+  const rubroNames = [
+    ...current.equity.map(g => g.name),
+    ...(prior?.equity || []).map(g => g.name).filter(n => !current.equity.some(g => g.name === n))
+  ];
+
+  const rubroAmounts = (financials?: GroupedFinancials | null) =>
+    rubroNames.map(n => {
+      const group = financials?.equity.find(g => g.name === n);
+      return group ? rubroAmount(AccountType.EQUITY, group) : 0;
+    });
+
+  const opening = rubroAmounts(prior);
+  const closing = rubroAmounts(current);
+  const priorResult = prior ? prior.netResult : 0;
+
+  const row = (label: string, rubros: number[], result: number, isTotal = false): EquityChangesRow => ({
+    label,
+    values: [...rubros, result, rubros.reduce((s, v) => s + v, 0) + result],
+    isTotal
+  });
+
+  return {
+    columns: [...rubroNames, 'Resultado del Ejercicio', 'Total'],
+    rows: [
+      row('Saldos al inicio del ejercicio', opening, priorResult, true),
+      // Appropriation of the prior result (dividends, reserves) and capital movements, by difference
+      row('Asignación de resultados y otros movimientos', closing.map((v, i) => v - opening[i]), -priorResult),
+      row('Resultado del ejercicio', rubroNames.map(() => 0), current.netResult),
+      row('Saldos al cierre del ejercicio', closing, current.netResult, true)
+    ],
+    hasOpeningBalances: !!prior
+  };
+};
+
+export const formatAmount = (value: number): string =>
+  value.toLocaleString('es-AR', {minimumFractionDigits: 2});
@@ -0,0 +1,106 @@
+import { AccountLine, ClientData, LedgerEntry, SnapshotKind } from "../types";
+import { lineKey } from "./financialStatements";
+import { saveSnapshot } from "./storage";
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+  IMPORT: 'Importación',
+  SAVE: 'Guardado',
+  RESTORE: 'Restauración',
+  RECLASSIFY: 'Reclasificación'
+};
+
+/**
+ * Stores the period's accounts as a new version and returns the ledger entry describing it.
+ * The caller appends the entry to `client.ledger` together with the rest of its changes.
+ */
+export const recordSnapshot = async (
+  client: ClientData,
+  periodId: string,
+  accounts: AccountLine[],
+  kind: SnapshotKind,
+  description: string,
+  documentId?: string
+): Promise<LedgerEntry> => {
+  const entry: LedgerEntry = {
+    id: crypto.randomUUID(),
+    periodId,
+    kind,
+    createdAt: new Date().toISOString(),
+    description,
+    lineCount: accounts.length,
+    documentId
+  };
+  await saveSnapshot({ id: entry.id, clientId: client.id, periodId, accounts });
+  return entry;
+};
+
+// Newest first
+export const getPeriodLedger = (client: ClientData, periodId?: string): LedgerEntry[] =>
+  (client.ledger || [])
+    .filter(e => e.periodId === periodId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// --- Diff between two versions ---
+
+export type LineChangeKind = 'ADDED' | 'REMOVED' | 'RECLASSIFIED' | 'BALANCE';
+
+export interface LineChange {
+  key: string;
+  code: string;
+  name: string;
+  kinds: LineChangeKind[];
+  before?: AccountLine;
+  after?: AccountLine;
+  balanceDelta: number; // after - before
+}
+
+export interface SnapshotDiff {
+  changes: LineChange[];
+  counts: Record<LineChangeKind, number>;
+}
+
+// Same key as the comparative statements; repeated codes are told apart by their position
+const keyLines = (accounts: AccountLine[]): Map<string, AccountLine> => {
+  const keyed = new Map<string, AccountLine>();
+  const seen: Record<string, number> = {};
+  accounts.forEach(acc => {
+    const base = lineKey(acc);
+    seen[base] = (seen[base] || 0) + 1;
+    keyed.set(seen[base] > 1 ? `${base}#${seen[base]}` : base, acc);
+  });
+  return keyed;
+};
+
+// Below a cent the difference is rounding, not a change
+const BALANCE_TOLERANCE = 0.005;
+
+export const diffSnapshots = (before: AccountLine[], after: AccountLine[]): SnapshotDiff => {
+  const beforeLines = keyLines(before);
+  const afterLines = keyLines(after);
+  const changes: LineChange[] = [];
+
+  afterLines.forEach((next, key) => {
+    const prev = beforeLines.get(key);
+    const kinds: LineChangeKind[] = [];
+    if (!prev) {
+      kinds.push('ADDED');
+    } else {
+      if (prev.type !== next.type || prev.category !== next.category || prev.isGroup !== next.isGroup) kinds.push('RECLASSIFIED');
+      if (Math.abs(next.balance - prev.balance) > BALANCE_TOLERANCE) kinds.push('BALANCE');
+    }
+    if (kinds.length > 0) {
+      changes.push({ key, code: next.code, name: next.name, kinds, before: prev, after: next, balanceDelta: next.balance - (prev?.balance || 0) });
+    }
+  });
+
+  beforeLines.forEach((prev, key) => {
+    if (afterLines.has(key)) return;
+    changes.push({ key, code: prev.code, name: prev.name, kinds: ['REMOVED'], before: prev, balanceDelta: -prev.balance });
+  });
+
+  const counts: Record<LineChangeKind, number> = { ADDED: 0, REMOVED: 0, RECLASSIFIED: 0, BALANCE: 0 };
+  changes.forEach(c => c.kinds.forEach(k => counts[k]++));
+
+  changes.sort((a, b) => (a.code || a.name).localeCompare(b.code || b.name, 'es', { numeric: true }));
+  return { changes, counts };
+};
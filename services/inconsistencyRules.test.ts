@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType, AdjustingEntry } from '../types';
+import { applyAdjustments } from './adjustments';
+import { groupFinancials } from './financialStatements';
+import { runInconsistencyRules } from './inconsistencyRules';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number, isGroup = false): AccountLine => ({
+  id: code, code, name, type, category, balance, isGroup,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  manualOverride: false
+});
+
+// Coded plan whose headers carry the imported totals of their chapter
+const imported: AccountLine[] = [
+  line('1', 'Activo', AccountType.ASSET, 'Caja y Bancos', 1000, true),
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 1000),
+  line('3', 'Patrimonio Neto', AccountType.EQUITY, 'Capital Social', -1000, true),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000)
+];
+
+const entry: AdjustingEntry = {
+  id: 'e1', number: 1, date: '2024-12-31', description: 'Aporte no registrado', reference: 'PT A-1',
+  lines: [{ accountKey: 'c:1.1', debit: 50, credit: 0 }, { accountKey: 'c:3.1', debit: 0, credit: 50 }],
+  createdAt: '2025-01-10T00:00:00.000Z'
+};
+
+const ids = (accounts: AccountLine[], importedAccounts: AccountLine[]) =>
+  runInconsistencyRules(accounts, groupFinancials(accounts), [], importedAccounts).map(i => i.id);
+
+describe('runInconsistencyRules', () => {
+  it('checks imported totals against the imported lines, not the adjusted ones', () => {
+    const adjusted = applyAdjustments(imported, [entry]);
+    expect(ids(adjusted, imported)).toEqual([]);
+  });
+
+  it('still reports headers that disagree with their imported sub-accounts', () => {
+    const wrongTotal = imported.map(a => a.id === '1' ? { ...a, debit: 900, balance: 900 } : a);
+    expect(ids(wrongTotal, wrongTotal)).toContain('group-total-1');
+  });
+
+  it('checks the equation on the adjusted lines', () => {
+    const unbalanced = applyAdjustments(imported, [{ ...entry, lines: [entry.lines[0]] }]);
+    expect(ids(unbalanced, imported)).toEqual(expect.arrayContaining(['diff-balance', 'equation']));
+  });
+});
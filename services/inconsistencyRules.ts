@@ -0,0 +1,211 @@
+import { AccountLine, AccountType, Inconsistency } from "../types";
+import { GroupedFinancials, equityWithResult, formatAmount } from "./financialStatements";
+import { AccountNode, buildAccountTree, collectDetails, getDetailLines } from "./accountTree";
+import { ForeignCurrencyLine } from "./currency";
+
+export interface RuleContext {
+  accounts: AccountLine[]; // Lines the statements are built from: adjusted and, when shown so, restated
+  importedAccounts: AccountLine[]; // As imported; only detail lines take adjustments, so headers and totals are checked here
+  financials: GroupedFinancials;
+  materiality: number; // Minimum absolute balance considered significant
+  foreignCurrency: ForeignCurrencyLine[]; // Foreign currency lines converted at the closing rate
+}
+
+export interface InconsistencyRule {
+  id: string;
+  description: string;
+  check: (ctx: RuleContext) => Inconsistency[];
+}
+
+// Rounding tolerance for totals coming from spreadsheets
+const TOLERANCE = 1;
+
+// Materiality as a share of total assets, so small clients are not flooded with findings
+const MATERIALITY_RATE = 0.005;
+
+const detailLines = getDetailLines;
+
+const accountLabel = (acc: AccountLine) => acc.code ? `${acc.code} ${acc.name}` : acc.name;
+
+const trialBalanceRule: InconsistencyRule = {
+  id: 'diff-balance',
+  description: 'El balance de sumas y saldos debe cerrar en cero',
+  check: ({ accounts }) => {
+    const grandTotal = detailLines(accounts).reduce((s, a) => s + a.balance, 0);
+    if (Math.abs(grandTotal) <= TOLERANCE) return [];
+    return [{
+      id: 'diff-balance',
+      severity: 'high',
+      message: `El balance no da cero (Diferencia: ${grandTotal.toFixed(2)}). Revisar asientos.`,
+      relatedAccountIds: []
+    }];
+  }
+};
+
+const assetCreditBalanceRule: InconsistencyRule = {
+  id: 'asset-credit',
+  description: 'Cuentas de Activo con saldo acreedor',
+  check: ({ accounts }) => detailLines(accounts)
+    .filter(a => a.type === AccountType.ASSET && a.balance < -TOLERANCE)
+    .map(a => ({
+      id: `asset-credit-${a.id}`,
+      severity: 'medium',
+      message: `Activo con saldo acreedor: ${accountLabel(a)} (${formatAmount(a.balance)}). Verificar si corresponde a una regularizadora o reclasificar a Pasivo.`,
+      relatedAccountIds: [a.id]
+    }))
+};
+
+const liabilityDebitBalanceRule: InconsistencyRule = {
+  id: 'liability-debit',
+  description: 'Cuentas de Pasivo con saldo deudor',
+  check: ({ accounts }) => detailLines(accounts)
+    .filter(a => a.type === AccountType.LIABILITY && a.balance > TOLERANCE)
+    .map(a => ({
+      id: `liability-debit-${a.id}`,
+      severity: 'medium',
+      message: `Pasivo con saldo deudor: ${accountLabel(a)} (${formatAmount(a.balance)}). Verificar anticipos o reclasificar a Activo.`,
+      relatedAccountIds: [a.id]
+    }))
+};
+
+// Headers imported without amounts have no total of their own to check
+const hasAmounts = (acc: AccountLine) => acc.debit !== 0 || acc.credit !== 0 || acc.balance !== 0;
+
+const flattenNodes = (nodes: AccountNode[]): AccountNode[] =>
+  nodes.flatMap(node => [node, ...flattenNodes(node.children)]);
+
+// Headers in the tree are checked against the roll-up of their sub-accounts; a "TOTAL ..."
+// line outside the tree falls back to the detail lines of its rubro
+const headerChildren = (node: AccountNode, accounts: AccountLine[]): AccountLine[] => {
+  if (node.children.length > 0) return collectDetails(node);
+  const header = node.account;
+  return detailLines(accounts).filter(a => a.type === header.type && a.category === header.category);
+};
+
+const groupTotalRule: InconsistencyRule = {
+  id: 'group-total',
+  description: 'Los totales de rubro importados deben coincidir con la suma de sus subcuentas',
+  check: ({ importedAccounts }) => flattenNodes(buildAccountTree(importedAccounts))
+    .filter(node => (node.children.length > 0 || node.account.isGroup) && hasAmounts(node.account))
+    .flatMap(node => {
+      const header = node.account;
+      const children = headerChildren(node, importedAccounts);
+      if (children.length === 0) return [];
+      const computed = children.reduce((s, a) => s + a.balance, 0);
+      if (Math.abs(computed - header.balance) <= TOLERANCE) return [];
+      return [{
+        id: `group-total-${header.id}`,
+        severity: 'high' as const,
+        message: `El total de ${accountLabel(header)} (${formatAmount(header.balance)}) no coincide con la suma de sus subcuentas (${formatAmount(computed)}).`,
+        relatedAccountIds: [header.id, ...children.map(c => c.id)]
+      }];
+    })
+};
+
+const duplicateCodeRule: InconsistencyRule = {
+  id: 'duplicate-code',
+  description: 'Códigos de cuenta duplicados',
+  check: ({ importedAccounts }) => {
+    const byCode: Record<string, AccountLine[]> = {};
+    importedAccounts.forEach(a => {
+      const code = a.code.trim();
+      if (!code) return;
+      if (!byCode[code]) byCode[code] = [];
+      byCode[code].push(a);
+    });
+    return Object.entries(byCode)
+      .filter(([, lines]) => lines.length > 1)
+      .map(([code, lines]) => ({
+        id: `duplicate-code-${code}`,
+        severity: 'medium',
+        message: `El código ${code} está repetido en ${lines.length} líneas (${lines.map(l => l.name).join(', ')}).`,
+        relatedAccountIds: lines.map(l => l.id)
+      }));
+  }
+};
+
+const unclassifiedRule: InconsistencyRule = {
+  id: 'unclassified',
+  description: 'Líneas sin clasificar con saldos significativos',
+  check: ({ accounts, materiality }) => detailLines(accounts)
+    .filter(a => a.type === AccountType.UNCLASSIFIED && Math.abs(a.balance) >= materiality)
+    .map(a => ({
+      id: `unclassified-${a.id}`,
+      severity: 'high',
+      message: `Cuenta sin clasificar con saldo significativo: ${accountLabel(a)} (${formatAmount(a.balance)}). No se incluye en los estados contables.`,
+      relatedAccountIds: [a.id]
+    }))
+};
+
+const equationRule: InconsistencyRule = {
+  id: 'equation',
+  description: 'Activo = Pasivo + Patrimonio Neto',
+  check: ({ financials }) => {
+    // Credit-natured chapters are stored negative in the trial balance
+    const activo = financials.assetsTotal;
+    const pasivo = -financials.liabilitiesTotal;
+    const patrimonio = equityWithResult(financials);
+    const diff = activo - pasivo - patrimonio;
+    if (Math.abs(diff) <= TOLERANCE) return [];
+    return [{
+      id: 'equation',
+      severity: 'high',
+      message: `Activo (${formatAmount(activo)}) ≠ Pasivo + PN (${formatAmount(pasivo + patrimonio)}). Diferencia: ${formatAmount(diff)}.`,
+      relatedAccountIds: []
+    }];
+  }
+};
+
+const foreignCurrencyRule: InconsistencyRule = {
+  id: 'fx-conversion',
+  description: 'Cuentas en moneda extranjera valuadas al tipo de cambio de cierre',
+  check: ({ foreignCurrency }) => foreignCurrency.flatMap((l): Inconsistency[] => {
+    if (l.converted === null) {
+      return [{
+        id: `fx-missing-${l.account.id}`,
+        severity: 'low',
+        message: `${accountLabel(l.account)} está en ${l.currency} pero ${l.rate ? 'falta el monto en moneda original' : 'no hay cotización al cierre'}.`,
+        relatedAccountIds: [l.account.id]
+      }];
+    }
+    if (Math.abs(l.difference!) <= TOLERANCE) return [];
+    return [{
+      id: `fx-diff-${l.account.id}`,
+      severity: 'medium',
+      message: `${accountLabel(l.account)}: el saldo en pesos (${formatAmount(l.account.balance)}) difiere de su conversión al cierre (${formatAmount(l.converted)}). Diferencia de cambio sin registrar: ${formatAmount(l.difference!)}.`,
+      relatedAccountIds: [l.account.id]
+    }];
+  })
+};
+
+export const DEFAULT_RULES: InconsistencyRule[] = [
+  trialBalanceRule,
+  equationRule,
+  groupTotalRule,
+  unclassifiedRule,
+  assetCreditBalanceRule,
+  liabilityDebitBalanceRule,
+  duplicateCodeRule,
+  foreignCurrencyRule
+];
+
+const severityOrder: Record<Inconsistency['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+export const runInconsistencyRules = (
+  accounts: AccountLine[],
+  financials: GroupedFinancials,
+  foreignCurrency: ForeignCurrencyLine[] = [],
+  importedAccounts: AccountLine[] = accounts,
+  rules: InconsistencyRule[] = DEFAULT_RULES
+): Inconsistency[] => {
+  const ctx: RuleContext = {
+    accounts,
+    importedAccounts,
+    financials,
+    materiality: Math.max(TOLERANCE, Math.abs(financials.assetsTotal) * MATERIALITY_RATE),
+    foreignCurrency
+  };
+  return rules
+    .flatMap(rule => rule.check(ctx))
+    .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType, PriceIndexTable } from '../types';
+import { groupFinancials } from './financialStatements';
+import { runInconsistencyRules } from './inconsistencyRules';
+import { RECPAM_ACCOUNT_ID, carryForward, restateAccounts } from './inflation';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number, originDate?: string): AccountLine => ({
+  id: code, code, name, type, category, balance, originDate,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  isGroup: false, manualOverride: false
+});
+
+const table: PriceIndexTable = {
+  indices: [
+    { month: '2020-01', value: 50 },
+    { month: '2024-06', value: 100 },
+    { month: '2024-12', value: 200 }
+  ],
+  updatedAt: '2025-01-01T00:00:00.000Z'
+};
+
+// Loss-making period with accumulated losses; net monetary assets of 300
+const lossMaking: AccountLine[] = [
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 600),
+  line('1.2', 'Mercaderías', AccountType.ASSET, 'Bienes de Cambio', 400, '2024-06'),
+  line('2.1', 'Proveedores', AccountType.LIABILITY, 'Deudas Comerciales', -300),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000, '2020-01'),
+  line('3.2', 'Resultados no asignados', AccountType.EQUITY, 'Resultados Acumulados', 200, '2020-01'),
+  line('4.1', 'Ventas', AccountType.REVENUE, 'Ventas', -500, '2024-06'),
+  line('4.2', 'Diferencia de cambio', AccountType.REVENUE, 'Resultados Financieros', 100, '2024-06'),
+  line('5.1', 'Costo de mercaderías vendidas', AccountType.EXPENSE, 'Costo de Ventas', 300, '2024-06'),
+  line('5.2', 'Honorarios', AccountType.EXPENSE, 'Gastos de Administración', 200, '2024-06')
+];
+
+describe('restateAccounts', () => {
+  const restatement = restateAccounts(lossMaking, '2024-12-31', table);
+  const balanceOf = (id: string) => restatement.accounts.find(a => a.id === id)!.balance;
+
+  it('restates non-monetary lines from their origin month and leaves monetary ones', () => {
+    expect(balanceOf('1.1')).toBe(600);
+    expect(balanceOf('1.2')).toBe(800);
+    expect(balanceOf('3.1')).toBe(-4000);
+    expect(balanceOf('3.2')).toBe(800);
+    expect(balanceOf('4.2')).toBe(200);
+  });
+
+  it('books the loss on net monetary assets as a RECPAM expense that keeps the balance at zero', () => {
+    expect(restatement.recpam).toBe(-1900);
+    expect(restatement.accounts.find(a => a.id === RECPAM_ACCOUNT_ID)).toMatchObject({ type: AccountType.EXPENSE, balance: 1900 });
+    expect(restatement.accounts.reduce((s, a) => s + a.balance, 0)).toBe(0);
+  });
+
+  it('yields statements where Activo equals Pasivo plus PN', () => {
+    const financials = groupFinancials(restatement.accounts);
+    expect(financials.netResult).toBe(-2100);
+    expect(runInconsistencyRules(restatement.accounts, financials).find(i => i.id === 'equation')).toBeUndefined();
+  });
+
+  it('leaves lines without an origin month historical and reports them', () => {
+    const withoutOrigin = restateAccounts(lossMaking.map(a => a.id === '1.2' ? { ...a, originDate: undefined } : a), '2024-12-31', table);
+    const merchandise = withoutOrigin.lines.find(l => l.account.id === '1.2')!;
+    expect(merchandise).toMatchObject({ coefficient: null, restated: 400, issue: 'Falta la fecha de origen' });
+    expect(withoutOrigin.issueCount).toBe(1);
+  });
+});
+
+describe('carryForward', () => {
+  it('moves a prior closing to the current currency, or gives up without both indices', () => {
+    expect(carryForward(lossMaking, '2024-06-30', '2024-12-31', table)!.map(a => a.balance)).toEqual(lossMaking.map(a => a.balance * 2));
+    expect(carryForward(lossMaking, '2023-12-31', '2024-12-31', table)).toBeNull();
+  });
+});
@@ -0,0 +1,281 @@
+import * as XLSX from "xlsx";
+import { AccountLine, AccountType, MonetaryNature, PriceIndex, PriceIndexTable } from "../types";
+import { normalizeText } from "./accountMapping";
+import { getDetailLines } from "./accountTree";
+import { detectAmountFormat, parseAmount } from "./amountParser";
+
+/**
+ * Inflation adjustment under RT 6 (FACPCE): non-monetary items are restated to closing currency
+ * with the coefficient between the price index of their origin month and that of the closing
+ * month. Monetary items already are in closing currency; what they lose or gain is the RECPAM.
+ */
+
+export const NATURE_LABELS: Record<MonetaryNature, string> = {
+  MONETARY: 'Monetaria',
+  NON_MONETARY: 'No Monetaria'
+};
+
+// Assets and liabilities fixed in goods rather than in pesos; any other rubro is monetary
+const NON_MONETARY_RUBRO = /bienes de cambio|bienes de uso|propiedad,? planta|propiedades de inversion|intangible|llave de negocio|participaciones permanentes|inversiones permanentes|anticipo/;
+
+export const defaultNature = (type: AccountType, category: string): MonetaryNature => {
+  if (type === AccountType.ASSET || type === AccountType.LIABILITY) {
+    return NON_MONETARY_RUBRO.test(normalizeText(category)) ? 'NON_MONETARY' : 'MONETARY';
+  }
+  // Equity and results are restated; unclassified lines are left as they are
+  return type === AccountType.UNCLASSIFIED ? 'MONETARY' : 'NON_MONETARY';
+};
+
+export const lineNature = (acc: Pick<AccountLine, 'type' | 'category' | 'nature'>): MonetaryNature =>
+  acc.nature || defaultNature(acc.type, acc.category);
+
+// --- Index table ---
+
+export const toMonth = (isoDate: string): string => isoDate.slice(0, 7);
+
+export const formatMonth = (month: string): string => {
+  const [year, m] = month.split('-');
+  return `${m}/${year}`;
+};
+
+const MONTH_NAMES = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic'];
+
+const monthKey = (year: number, month: number): string | null =>
+  month >= 1 && month <= 12 && year >= 1900 && year <= 2100 ? `${year}-${String(month).padStart(2, '0')}` : null;
+
+// "ene-17" is 2017 and "ene-43" 1943: the FACPCE series starts in 1943
+const fullYear = (year: number): number => year >= 100 ? year : year <= 50 ? 2000 + year : 1900 + year;
+
+const monthFromName = (text: string): number => {
+  const prefix = normalizeText(text).slice(0, 3);
+  return prefix === 'set' ? 9 : MONTH_NAMES.indexOf(prefix) + 1;
+};
+
+// A month in a single cell: Excel date, "2024-03", "03/2024", "31/03/2024", "mar-24", "Marzo 2024"
+const parseMonthCell = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value < 20000 || value > 80000) return null;
+    const date = XLSX.SSF.parse_date_code(value);
+    return date ? monthKey(date.y, date.m) : null;
+  }
+  if (typeof value !== 'string') return null;
+  const text = normalizeText(value);
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/);
+  if (match) return monthKey(Number(match[1]), Number(match[2]));
+  match = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (match) return monthKey(Number(match[2]), Number(match[1]));
+  match = text.match(/^\d{1,2}[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return monthKey(Number(match[2]), Number(match[1]));
+  match = text.match(/^([a-z]+)[\s\-/.]*(?:de\s+)?(\d{2}|\d{4})$/);
+  if (match) return monthKey(fullYear(Number(match[2])), monthFromName(match[1]));
+  return null;
+};
+
+// A month split over two cells: year, then month number or name
+const parseYearMonthCells = (yearCell: unknown, monthCell: unknown): string | null => {
+  const year = Number(yearCell);
+  if (!Number.isInteger(year) || year < 1900 || year > 2100) return null;
+  if (typeof monthCell === 'number') return monthKey(year, monthCell);
+  if (typeof monthCell !== 'string') return null;
+  const text = monthCell.trim();
+  return monthKey(year, /^\d{1,2}$/.test(text) ? Number(text) : monthFromName(text));
+};
+
+/**
+ * Reads the index table as published by FACPCE (Excel or CSV) or any sheet with one month per
+ * row and the index in the next non-empty column; a monthly variation after it is ignored.
+ * Header and note rows are skipped; the last value read for a month wins.
+ */
+export const parsePriceIndexRows = (rows: any[][]): PriceIndex[] => {
+  const found: { month: string; raw: unknown }[] = [];
+  rows.forEach(row => {
+    const cells = row || [];
+    for (let i = 0; i < cells.length; i++) {
+      let month = parseMonthCell(cells[i]);
+      let next = i + 1;
+      if (!month && i + 1 < cells.length) {
+        month = parseYearMonthCells(cells[i], cells[i + 1]);
+        next = i + 2;
+      }
+      if (!month) continue;
+      const raw = cells.slice(next).find(c => c !== undefined && c !== null && String(c).trim() !== '');
+      if (raw !== undefined) found.push({ month, raw });
+      return;
+    }
+  });
+
+  const format = detectAmountFormat(found.map(f => f.raw).filter(v => typeof v === 'string')) || 'ES_AR';
+  const byMonth = new Map<string, number>();
+  found.forEach(({ month, raw }) => {
+    const value = typeof raw === 'number' ? raw : parseAmount(raw, format).value;
+    if (Number.isFinite(value) && value > 0) byMonth.set(month, value);
+  });
+  return Array.from(byMonth, ([month, value]) => ({ month, value })).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// Imported or typed months replace the ones already in the table; the rest are kept
+export const mergePriceIndices = (table: PriceIndexTable | null, indices: PriceIndex[], source?: string): PriceIndexTable => {
+  const byMonth = new Map((table?.indices || []).map(i => [i.month, i.value]));
+  indices.forEach(i => byMonth.set(i.month, i.value));
+  return {
+    indices: Array.from(byMonth, ([month, value]) => ({ month, value })).sort((a, b) => a.month.localeCompare(b.month)),
+    source: source ?? table?.source,
+    updatedAt: new Date().toISOString()
+  };
+};
+
+export const findIndex = (table: PriceIndexTable | null, month: string): number | null =>
+  table?.indices.find(i => i.month === month)?.value ?? null;
+
+// The twelve months ending in `month`, oldest first
+const monthsEnding = (month: string, count = 12): string[] => {
+  const [year, m] = month.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(year, m - 1 - (count - 1 - i), 1);
+    return monthKey(date.getFullYear(), date.getMonth() + 1)!;
+  });
+};
+
+// --- Restatement ---
+
+export interface RestatedLine {
+  account: AccountLine;
+  nature: MonetaryNature;
+  coefficient: number | null; // null when it could not be computed; the line stays historical
+  historical: number;
+  restated: number;
+  issue?: string;
+}
+
+export interface Restatement {
+  closingMonth: string;
+  closingIndex: number | null;
+  lines: RestatedLine[]; // Detail lines only, in account order
+  recpam: number; // Result from exposure to inflation; positive = gain
+  accounts: AccountLine[]; // Restated balances, with the RECPAM as one more result line
+  issueCount: number;
+}
+
+export const RECPAM_ACCOUNT_ID = 'recpam';
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Restates the accounts of a period to the currency of `closingDate`. Results without an origin
+ * month are taken as accrued evenly over the year and restated with the average coefficient of
+ * its twelve months. RECPAM is whatever the restatement adds on the non-monetary side.
+ */
+export const restateAccounts = (accounts: AccountLine[], closingDate: string, table: PriceIndexTable | null): Restatement => {
+  const closingMonth = toMonth(closingDate);
+  const closingIndex = findIndex(table, closingMonth);
+
+  const coefficientFor = (month: string): number | null => {
+    const index = findIndex(table, month);
+    return closingIndex !== null && index !== null ? closingIndex / index : null;
+  };
+
+  const yearCoefficients = monthsEnding(closingMonth).map(coefficientFor);
+  const averageCoefficient = yearCoefficients.every(c => c !== null)
+    ? (yearCoefficients as number[]).reduce((s, c) => s + c, 0) / yearCoefficients.length
+    : null;
+
+  const lines: RestatedLine[] = getDetailLines(accounts).map(account => {
+    const nature = lineNature(account);
+    const historical = account.balance;
+    const line = (coefficient: number | null, issue?: string): RestatedLine => ({
+      account, nature, coefficient, historical,
+      restated: coefficient === null ? historical : round2(historical * coefficient),
+      issue
+    });
+
+    // A zero balance has nothing to restate, origin or not
+    if (nature === 'MONETARY' || historical === 0) return line(1);
+    if (closingIndex === null) return line(null, `Falta el índice de ${formatMonth(closingMonth)}`);
+    if (account.originDate) {
+      const coefficient = coefficientFor(account.originDate);
+      return coefficient === null ? line(null, `Falta el índice de ${formatMonth(account.originDate)}`) : line(coefficient);
+    }
+    if (account.type === AccountType.REVENUE || account.type === AccountType.EXPENSE) {
+      return averageCoefficient === null
+        ? line(null, 'Faltan índices del ejercicio para el coeficiente promedio')
+        : line(averageCoefficient);
+    }
+    return line(null, 'Falta la fecha de origen');
+  });
+
+  const restatedById = new Map(lines.map(l => [l.account.id, l.restated]));
+  const recpam = round2(lines.reduce((sum, l) => sum + (l.restated - l.historical), 0));
+
+  const restatedAccounts = accounts.map(acc => {
+    const restated = restatedById.get(acc.id);
+    if (restated === undefined || restated === acc.balance) return acc;
+    return { ...acc, debit: restated > 0 ? restated : 0, credit: restated < 0 ? -restated : 0, balance: restated };
+  });
+
+  // Gains are credits in the stored sign convention
+  if (Math.abs(recpam) >= 0.005) {
+    restatedAccounts.push({
+      id: RECPAM_ACCOUNT_ID,
+      code: '',
+      name: 'RECPAM',
+      debit: recpam < 0 ? -recpam : 0,
+      credit: recpam > 0 ? recpam : 0,
+      balance: -recpam,
+      type: recpam > 0 ? AccountType.REVENUE : AccountType.EXPENSE,
+      category: 'RECPAM',
+      isGroup: false,
+      manualOverride: false
+    });
+  }
+
+  return {
+    closingMonth,
+    closingIndex,
+    lines,
+    recpam,
+    accounts: restatedAccounts,
+    issueCount: lines.filter(l => l.issue).length
+  };
+};
+
+/**
+ * Carries restated accounts of an earlier closing to a later one, so comparative figures are
+ * in the same currency as the current period. Null when either index is missing.
+ */
+export const carryForward = (
+  accounts: AccountLine[],
+  fromDate: string,
+  toDate: string,
+  table: PriceIndexTable | null
+): AccountLine[] | null => {
+  const from = findIndex(table, toMonth(fromDate));
+  const to = findIndex(table, toMonth(toDate));
+  if (from === null || to === null) return null;
+  const coefficient = to / from;
+  return accounts.map(acc => ({
+    ...acc,
+    debit: round2(acc.debit * coefficient),
+    credit: round2(acc.credit * coefficient),
+    balance: round2(acc.balance * coefficient)
+  }));
+};
+
+export interface RubroRestatement {
+  type: AccountType;
+  category: string;
+  historical: number;
+  restated: number;
+}
+
+// Restatement by rubro, in account order, for the annex of the exports
+export const summarizeRestatement = (restatement: Restatement): RubroRestatement[] => {
+  const rubros = new Map<string, RubroRestatement>();
+  restatement.lines.forEach(l => {
+    const key = `${l.account.type}|${l.account.category}`;
+    const rubro = rubros.get(key) || { type: l.account.type, category: l.account.category, historical: 0, restated: 0 };
+    rubro.historical += l.historical;
+    rubro.restated += l.restated;
+    rubros.set(key, rubro);
+  });
+  return Array.from(rubros.values());
+};
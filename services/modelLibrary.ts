@@ -0,0 +1,201 @@
+import { BalanceModel, ClientData, FiscalPeriod, LibraryModel, ModelLibrary, ModelRef, ModelVersion } from "../types";
+import { createEmptyModel, isModelEmpty, normalizeModel, parseModelText } from "./balanceModel";
+
+// Models every new library starts with; the firm edits them like any other
+const BUILTIN_MODELS: { id: string; name: string; description: string; text: string }[] = [
+  {
+    id: 'cnv-comercial',
+    name: 'CNV Comercial',
+    description: 'Sociedades comerciales e industriales (RT 8 y RT 9, normas CNV).',
+    text: `ACTIVO:
+- Caja y Bancos
+- Inversiones
+- Créditos por Ventas
+- Otros Créditos
+- Bienes de Cambio
+- Bienes de Uso
+- Activos Intangibles
+PASIVO:
+- Deudas Comerciales
+- Deudas Bancarias
+- Deudas Sociales y Fiscales
+- Otras Deudas
+- Previsiones
+PATRIMONIO NETO:
+- Capital Social
+- Reservas
+- Resultados Acumulados
+INGRESOS:
+- Ventas
+- Otros Ingresos
+EGRESOS:
+- Costo de Ventas
+- Gastos de Comercialización
+- Gastos de Administración
+- Resultados Financieros
+- Impuesto a las Ganancias`
+  },
+  {
+    id: 'bcra-entidades-financieras',
+    name: 'BCRA Entidades Financieras',
+    description: 'Entidades financieras bajo el régimen informativo del BCRA.',
+    text: `ACTIVO:
+- Efectivo y Depósitos en Bancos
+- Títulos de Deuda
+- Préstamos y Otras Financiaciones
+    - Sector Público no Financiero
+    - Sector Financiero
+    - Sector Privado no Financiero
+- Otros Activos Financieros
+- Propiedad, Planta y Equipo
+- Activos Intangibles
+- Otros Activos no Financieros
+PASIVO:
+- Depósitos
+    - Sector Público no Financiero
+    - Sector Financiero
+    - Sector Privado no Financiero
+- Obligaciones Negociables Emitidas
+- Financiaciones Recibidas del BCRA y Otras Instituciones
+- Otros Pasivos Financieros
+- Provisiones
+- Otros Pasivos no Financieros
+PATRIMONIO NETO:
+- Capital Social
+- Ajustes al Capital
+- Ganancias Reservadas
+- Resultados no Asignados
+INGRESOS:
+- Ingresos por Intereses
+- Ingresos por Comisiones
+- Otros Ingresos Operativos
+EGRESOS:
+- Egresos por Intereses
+- Egresos por Comisiones
+- Cargo por Incobrabilidad
+- Beneficios al Personal
+- Gastos de Administración
+- Otros Gastos Operativos
+- Impuesto a las Ganancias`
+  },
+  {
+    id: 'rt11-sin-fines-de-lucro',
+    name: 'RT 11 Sin fines de lucro',
+    description: 'Asociaciones civiles, fundaciones y cooperadoras (RT 11).',
+    text: `ACTIVO:
+- Caja y Bancos
+- Inversiones
+- Créditos
+    - Cuotas Sociales a Cobrar
+    - Otros Créditos
+- Bienes para Consumo o Comercialización
+- Bienes de Uso
+PASIVO:
+- Deudas
+    - Remuneraciones y Cargas Sociales
+    - Cargas Fiscales
+    - Otras Deudas
+- Fondos con Destino Específico
+- Previsiones
+PATRIMONIO NETO:
+- Capital Institucional
+- Reservas
+- Superávit / Déficit Acumulados
+INGRESOS:
+- Recursos Ordinarios
+    - Cuotas Sociales
+    - Donaciones
+    - Subsidios
+- Recursos Específicos
+- Resultados Financieros
+EGRESOS:
+- Gastos Generales de Administración
+- Gastos Específicos de Sectores
+- Depreciaciones de Bienes de Uso`
+  }
+];
+
+export const createModelVersion = (model: BalanceModel, version: number, createdBy?: string, note?: string): ModelVersion => ({
+  version,
+  model: normalizeModel(model),
+  createdAt: new Date().toISOString(),
+  createdBy: createdBy || undefined,
+  note: note || undefined
+});
+
+export const createLibraryModel = (name: string, model: BalanceModel = createEmptyModel(), description?: string, id: string = crypto.randomUUID()): LibraryModel => ({
+  id,
+  name,
+  description,
+  versions: [createModelVersion(model, 1)]
+});
+
+/**
+ * Library of a first start: the built-in models plus, when the firm had configured one,
+ * its former single standard model as "Tu Estándar", which stays the default.
+ */
+export const createModelLibrary = (legacyModel?: BalanceModel): ModelLibrary => {
+  const models = BUILTIN_MODELS.map(b => createLibraryModel(b.name, parseModelText(b.text), b.description, b.id));
+  if (legacyModel && !isModelEmpty(legacyModel)) {
+    const own = createLibraryModel('Tu Estándar', legacyModel, 'Modelo estándar configurado antes de la biblioteca de modelos.');
+    return { models: [own, ...models], defaultModelId: own.id };
+  }
+  return { models, defaultModelId: models[0].id };
+};
+
+export const latestVersion = (entry: LibraryModel): ModelVersion => entry.versions[entry.versions.length - 1];
+
+export interface ResolvedModel {
+  entry: LibraryModel;
+  version: ModelVersion;
+  ref: ModelRef; // Pinned to the version actually resolved
+}
+
+// A deleted model falls back to the default one; a missing version to the current one
+export const resolveModelRef = (library: ModelLibrary, ref?: ModelRef): ResolvedModel | null => {
+  const entry = library.models.find(m => m.id === ref?.modelId)
+    || library.models.find(m => m.id === library.defaultModelId)
+    || library.models[0];
+  if (!entry) return null;
+  const version = entry.versions.find(v => v.version === ref?.version && entry.id === ref?.modelId) || latestVersion(entry);
+  return { entry, version, ref: { modelId: entry.id, version: version.version } };
+};
+
+// Period assignment first, then the client's, then the library default
+export const resolveClientModel = (library: ModelLibrary, client: ClientData, period?: FiscalPeriod): ResolvedModel | null =>
+  resolveModelRef(library, period?.modelRef || client.modelRef);
+
+export const describeModel = (resolved: ResolvedModel | null): string =>
+  resolved ? `${resolved.entry.name} v${resolved.version.version}` : 'Sin modelo';
+
+export const hasNewerVersion = (resolved: ResolvedModel | null): boolean =>
+  !!resolved && resolved.version.version < latestVersion(resolved.entry).version;
+
+const sameModel = (a: BalanceModel, b: BalanceModel): boolean =>
+  JSON.stringify(normalizeModel(a)) === JSON.stringify(normalizeModel(b));
+
+/** Saves `model` as the next version of the entry; returns the entry untouched when nothing changed. */
+export const addModelVersion = (entry: LibraryModel, model: BalanceModel, createdBy?: string, note?: string): LibraryModel => {
+  const current = latestVersion(entry);
+  if (sameModel(current.model, model)) return entry;
+  return { ...entry, versions: [...entry.versions, createModelVersion(model, current.version + 1, createdBy, note)] };
+};
+
+export const updateLibraryModel = (library: ModelLibrary, entry: LibraryModel): ModelLibrary => ({
+  ...library,
+  models: library.models.map(m => m.id === entry.id ? entry : m)
+});
+
+// The default model cannot be removed; clients and periods assigned to a removed one use the default
+export const removeLibraryModel = (library: ModelLibrary, id: string): ModelLibrary =>
+  id === library.defaultModelId ? library : { ...library, models: library.models.filter(m => m.id !== id) };
+
+// Accepts what was stored by this version of the app, or nothing
+export const normalizeLibrary = (library: ModelLibrary): ModelLibrary => {
+  const models = library.models.filter(m => m.versions.length > 0).map(m => ({
+    ...m,
+    versions: m.versions.map(v => ({ ...v, model: normalizeModel(v.model) }))
+  }));
+  const defaultModelId = models.some(m => m.id === library.defaultModelId) ? library.defaultModelId : models[0]?.id;
+  return models.length > 0 ? { models, defaultModelId } : createModelLibrary();
+};
@@ -0,0 +1,68 @@
+import { AccountLine, ClientData, FiscalPeriod, PeriodStatus } from "../types";
+
+export const PERIOD_STATUS_LABELS: Record<PeriodStatus, string> = {
+  BORRADOR: 'Borrador',
+  EN_REVISION: 'En Revisión',
+  CERRADO: 'Cerrado'
+};
+
+export const createPeriod = (
+  label: string,
+  closingDate: string,
+  status: PeriodStatus = 'BORRADOR',
+  accounts: AccountLine[] = []
+): FiscalPeriod => ({
+  id: crypto.randomUUID(),
+  label,
+  closingDate,
+  status,
+  accounts
+});
+
+// Default period used when a balance is imported and the client has none yet
+export const createDefaultPeriod = (accounts: AccountLine[] = []): FiscalPeriod => {
+  const today = new Date().toISOString().split('T')[0];
+  return createPeriod(`Ejercicio ${today.substring(0, 4)}`, today, 'BORRADOR', accounts);
+};
+
+// Most recent first, so the selector and the default selection agree
+export const sortPeriods = (periods: FiscalPeriod[]): FiscalPeriod[] =>
+  [...periods].sort((a, b) => b.closingDate.localeCompare(a.closingDate));
+
+export const getLatestPeriod = (periods: FiscalPeriod[]): FiscalPeriod | undefined =>
+  sortPeriods(periods)[0];
+
+// The comparative column is the closest period closing strictly before the given one
+export const getPriorPeriod = (periods: FiscalPeriod[], period: FiscalPeriod): FiscalPeriod | undefined =>
+  sortPeriods(periods).find(p => p.closingDate < period.closingDate);
+
+export const updatePeriod = (
+  client: ClientData,
+  periodId: string,
+  changes: Partial<FiscalPeriod>
+): ClientData => ({
+  ...client,
+  periods: client.periods.map(p => p.id === periodId ? { ...p, ...changes } : p)
+});
+
+export const formatClosingDate = (closingDate: string): string => {
+  const [year, month, day] = closingDate.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+// Clients stored before periods existed kept a single flat `accounts` array
+export const migrateLegacyClient = (stored: ClientData & { accounts?: AccountLine[] }): ClientData => {
+  if (Array.isArray(stored.periods)) return stored;
+
+  const { accounts, ...rest } = stored;
+  const periods = accounts && accounts.length > 0
+    ? [createPeriod(
+        `Ejercicio ${stored.lastUpdated.substring(0, 4)}`,
+        stored.lastUpdated.split('T')[0],
+        'BORRADOR',
+        accounts
+      )]
+    : [];
+
+  return { ...rest, periods };
+};
@@ -0,0 +1,302 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider, ClassificationRequest } from "./types";
+import { BalanceModel } from "../../types";
+import { isModelEmpty, modelToText } from "../balanceModel";
+
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+// Helper to remove markdown code blocks
+const cleanJsonString = (str: string): string => {
+  return str.replace(/```json/g, '').replace(/```/g, '').trim();
+};
+
+// Appended to a prompt when the previous answer failed validation
+const repairInstructions = (feedback?: string): string => feedback ? `
+
+*** YOUR PREVIOUS ANSWER WAS REJECTED BY VALIDATION ***
+${feedback}
+Fix these problems and return the complete corrected JSON only.` : '';
+
+// The assigned model fixes the Rubro names; the client's normative only guides the choice among them
+const buildClassificationLogic = (standardModel?: BalanceModel, clientRules?: string): string => {
+  const defaultLogic = `
+    Task 2: Assign a Standard CNV "Rubro" (Category) to each account. Use these specific names:
+    - For ACTIVO: "Caja y Bancos", "Inversiones", "Créditos por Ventas", "Otros Créditos", "Bienes de Cambio", "Bienes de Uso", "Activos Intangibles".
+    - For PASIVO: "Deudas Comerciales", "Deudas Bancarias", "Deudas Sociales y Fiscales", "Otras Deudas", "Previsiones".
+    - For PATRIMONIO_NETO: "Capital Social", "Reservas", "Resultados Acumulados".
+    - For RESULTADOS: "Ventas", "Costo de Ventas", "Gastos de Administración", "Gastos de Comercialización", "Resultados Financieros".
+  `;
+
+  let activeLogic = defaultLogic;
+
+  if (!isModelEmpty(standardModel)) {
+     activeLogic = `
+       *** IMPORTANT: USE THE FOLLOWING PRESENTATION MODEL FOR CLASSIFICATION ***
+       ${modelToText(standardModel!)}
+
+       Task 2: Assign the "Rubro" (Category) strictly based on the model above.
+       Only use Rubro names defined in the model above. An account that belongs to a subrubro
+       may take the subrubro name.
+     `;
+  }
+
+  if (clientRules && clientRules.length > 10) {
+    activeLogic += `
+    *** CLIENT-SPECIFIC CLASSIFICATION RULES ***
+    ${clientRules}
+
+    Follow these rules to decide the chapter and Rubro of each account.${isModelEmpty(standardModel) ? `
+    Only use Rubro names defined in the rules above.` : `
+    Where they name a Rubro that is not in the model, use the closest Rubro of the model.`}
+    `;
+  }
+
+  return activeLogic;
+};
+
+export const createGeminiProvider = (model: string): AIProvider => {
+  const client = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return {
+    detectColumnMapping: async (sampleRows, feedback) => {
+      const sampleText = JSON.stringify(sampleRows);
+
+      const mappingPrompt = `
+        Analyze this sample data from an accounting spreadsheet (array of arrays).
+        Identify the 0-based index of the columns representing:
+        - 'code' (Account Code)
+        - 'name' (Account Name/Description)
+        - 'debit' (Debe)
+        - 'credit' (Haber)
+        - 'balance' (Saldo/Importe - can be positive/negative)
+
+        Rules:
+        1. If 'debit' and 'credit' separate columns exist, identify them.
+        2. If only a single 'balance' column exists, identify it.
+        3. 'name' is mandatory.
+        4. Return -1 if a column is not found.
+        5. Identify the 'startRow' index (the first row that contains actual account data, skipping headers).
+
+        Return strictly JSON:
+        {
+          "codeIndex": number,
+          "nameIndex": number,
+          "debitIndex": number,
+          "creditIndex": number,
+          "balanceIndex": number,
+          "startRow": number
+        }
+      `;
+
+      const mappingResponse = await client().models.generateContent({
+        model,
+        contents: `Sample Data: ${sampleText}\n\n${mappingPrompt}${repairInstructions(feedback)}`,
+        config: { responseMimeType: "application/json" }
+      });
+
+      return JSON.parse(cleanJsonString(mappingResponse.text || "{}"));
+    },
+
+    extractAccounts: async (fileBase64, mimeType, feedback) => {
+      const contentPart = {
+          inlineData: {
+            mimeType: mimeType,
+            data: fileBase64
+          }
+      };
+
+      const prompt = `Act as an expert accounting auditor.
+      Extract the accounting lines from the provided document.
+      Return a JSON array where each object has:
+      - 'code' (string)
+      - 'name' (string)
+      - 'debit' (number)
+      - 'credit' (number)
+      - 'balance' (number)
+
+      Ignore headers, footers, titles. Only extract account detail rows.${repairInstructions(feedback)}`;
+
+      const response = await client().models.generateContent({
+        model,
+        contents: {
+          parts: [contentPart, { text: prompt }]
+        },
+        config: {
+          responseMimeType: "application/json"
+        }
+      });
+
+      const text = response.text;
+      if (!text) return [];
+
+      return JSON.parse(cleanJsonString(text));
+    },
+
+    classifyBatch: async (request: ClassificationRequest) => {
+      const activeLogic = buildClassificationLogic(request.standardModel, request.clientRules);
+
+      const response = await client().models.generateContent({
+        model,
+        contents: `You are a Senior Accountant auditing a Balance Sheet.
+        The trial balance is classified in batches. This is one batch of ${request.totalLines} lines in total.
+
+        Structure of the whole chart of accounts (headers and totals, for context only):
+        ${request.structureOutline || '(no headers detected)'}
+
+        ${request.usedCategories.length > 0 ? `Rubros already assigned in previous batches (reuse these exact names when they apply): ${JSON.stringify(request.usedCategories)}` : ''}
+
+        Task 1: Classify each account into these Chapters:
+        - ACTIVO
+        - PASIVO
+        - PATRIMONIO_NETO
+        - INGRESOS
+        - EGRESOS
+        If an input object already has a 'type', that chapter comes from the client's chart of accounts: keep it.
+
+        ${activeLogic}
+
+        Task 3: Identify Structure.
+        - If the line is the Header/Total itself (e.g., "TOTAL CAJA Y BANCOS"), set 'isGroup' to TRUE.
+        - If it is a sub-account, set 'isGroup' to FALSE.
+
+        Task 4: For ACTIVO and PASIVO lines only, set 'term':
+        - "CURRENT" (corriente) if it will be realized or fall due within twelve months of the closing date.
+        - "NON_CURRENT" (no corriente) otherwise, e.g. fixed assets, long-term loans ("largo plazo").
+        Omit 'term' for the other chapters.
+
+        Return a JSON array with exactly one object per input line, with property 'id' (matching input), 'type' (string), 'category' (string), 'isGroup' (boolean) and, for ACTIVO and PASIVO, 'term' (string).
+
+        Input Data:
+        ${JSON.stringify(request.lines)}
+        ${repairInstructions(request.feedback)}
+        `,
+        config: {
+          responseMimeType: "application/json"
+        }
+      });
+
+      return JSON.parse(cleanJsonString(response.text || "[]"));
+    },
+
+    extractRegulatoryRules: async (fileBase64, mimeType) => {
+      // We send the document to Gemini to extract the "Logic" of the Chart of Accounts
+      const response = await client().models.generateContent({
+        model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: mimeType,
+                data: fileBase64
+              }
+            },
+            {
+              text: `This document contains accounting regulations (CNV/BCRA) or a Chart of Accounts.
+              Analyze it and EXTRACT the hierarchical structure of the Balance Sheet.
+
+              Specifically, list:
+              1. The allowed "Rubros" (Categories) for Assets (Activo), Liabilities (Pasivo), and Equity (Patrimonio Neto).
+              2. The grouping rules (which sub-accounts go into which Rubro).
+              3. The exact sorting order required by this document.
+
+              Return a concise, structured text summary of these rules that I can pass to another AI agent to classify accounts later. Do not include preamble.`
+            }
+          ]
+        }
+      });
+
+      return response.text || "";
+    },
+
+    extractStructure: async (csvText, feedback) => {
+      // INCREASED LIMIT: Gemini 2.5 Flash handles ~1M tokens.
+      // We increase the limit to 500,000 chars to ensure we capture the full chart of accounts (Assets + Liabilities + Equity).
+      const truncatedText = csvText.substring(0, 500000);
+
+      const prompt = `
+        You are an expert Accounting System Architect.
+        I will provide you with the raw data of a Balance Sheet in CSV format.
+
+        YOUR TASK:
+        Reverse-engineer the "Chart of Accounts Model" used in this file.
+        Ignore the specific numbers/amounts. Focus ONLY on the structure of Headers (Rubros) and their hierarchy.
+        Read the ENTIRE provided text to ensure you capture Activo, Pasivo, Patrimonio Neto, Ingresos and Egresos.
+
+        OUTPUT FORMAT:
+        A JSON object with a "chapters" array. Each chapter has:
+        - "type": one of ACTIVO, PASIVO, PATRIMONIO_NETO, INGRESOS, EGRESOS
+        - "rubros": the rubros of that chapter IN THE ORDER THEY APPEAR in the file. Each rubro has:
+          - "name": the rubro name as written in the file (without "TOTAL")
+          - "sign": "DEBIT" or "CREDIT", the side on which the rubro normally carries its balance.
+            Use the opposite side of its chapter only for regularizadoras (e.g. "Previsión para Deudores Incobrables" in ACTIVO is CREDIT).
+          - "subrubros": names of the sub-headings inside the rubro, in order (empty array if none)
+
+        Example:
+        {"chapters": [
+          {"type": "ACTIVO", "rubros": [
+            {"name": "Caja y Bancos", "sign": "DEBIT", "subrubros": ["Caja", "Bancos"]},
+            {"name": "Créditos por Ventas", "sign": "DEBIT", "subrubros": []}
+          ]},
+          {"type": "PASIVO", "rubros": [{"name": "Deudas Comerciales", "sign": "CREDIT", "subrubros": []}]}
+        ]}
+
+        Here is the CSV data:
+        ${truncatedText}
+        ${repairInstructions(feedback)}
+      `;
+
+      const response = await client().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json"
+        }
+      });
+
+      return JSON.parse(cleanJsonString(response.text || "{}"));
+    },
+
+    searchRegulatoryUpdates: async (today, feedback) => {
+      const ai = client();
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: `Find the latest regulations, circulars, or news from BCRA (Banco Central de la República Argentina) and CNV (Comisión Nacional de Valores) relevant for today, ${today}.
+        Focus on norms affecting financial reporting, balance sheets, and audit criteria.
+        If no specific news today, get the most recent ones from this week.
+        `,
+        config: {
+          tools: [{ googleSearch: {} }]
+        }
+      });
+
+      const searchResultText = response.text;
+
+      const formattingResponse = await ai.models.generateContent({
+        model,
+        contents: `Based on the following search results about BCRA and CNV regulations:
+        ---
+        ${searchResultText}
+        ---
+        Generate a JSON array of regulatory updates.
+        Schema:
+        [
+          {
+            "source": "BCRA" | "CNV",
+            "date": "YYYY-MM-DD",
+            "title": "Short title",
+            "summary": "Brief summary of impact",
+            "impactLevel": "High" | "Medium" | "Low"
+          }
+        ]
+        ${repairInstructions(feedback)}
+        `,
+        config: {
+          responseMimeType: "application/json"
+        }
+      });
+
+      return JSON.parse(cleanJsonString(formattingResponse.text || "[]"));
+    }
+  };
+};
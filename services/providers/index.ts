@@ -0,0 +1,48 @@
+import { AIProvider, AIProviderId, AISettings } from "./types";
+import { createGeminiProvider, GEMINI_MODELS } from "./geminiProvider";
+import { createLocalProvider, LOCAL_MODELS } from "./localProvider";
+
+export interface AIProviderOption {
+  id: AIProviderId;
+  label: string;
+  description: string;
+  models: string[];
+  create: (model: string) => AIProvider;
+}
+
+export const AI_PROVIDERS: AIProviderOption[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Clasificación y lectura de documentos con IA. Requiere GEMINI_API_KEY y conexión.',
+    models: GEMINI_MODELS,
+    create: createGeminiProvider
+  },
+  {
+    id: 'local',
+    label: 'Local (sin conexión)',
+    description: 'Heurísticas deterministas para desarrollo, demos y pruebas. No lee PDF ni busca normativa real.',
+    models: LOCAL_MODELS,
+    create: () => createLocalProvider()
+  }
+];
+
+export const DEFAULT_AI_SETTINGS: AISettings = { providerId: 'gemini', model: GEMINI_MODELS[0] };
+
+let activeSettings: AISettings = DEFAULT_AI_SETTINGS;
+
+export const getProviderOption = (providerId: AIProviderId): AIProviderOption =>
+  AI_PROVIDERS.find(p => p.id === providerId) || AI_PROVIDERS[0];
+
+// Called by the Settings view on load and on save; every service call reads it afterwards
+export const configureAI = (settings: AISettings) => {
+  activeSettings = settings;
+};
+
+export const getAISettings = (): AISettings => activeSettings;
+
+export const getAIProvider = (): AIProvider => {
+  const option = getProviderOption(activeSettings.providerId);
+  const model = option.models.includes(activeSettings.model) ? activeSettings.model : option.models[0];
+  return option.create(model);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { AccountType } from '../../types';
+import { ClassificationResult } from './types';
+import { createLocalProvider } from './localProvider';
+
+const classify = async (name: string): Promise<ClassificationResult> => {
+  const [result] = await createLocalProvider().classifyBatch({
+    lines: [{ id: 0, name }],
+    totalLines: 1,
+    structureOutline: '',
+    usedCategories: []
+  }) as ClassificationResult[];
+  return result;
+};
+
+describe('local provider classification', () => {
+  it.each([
+    ['Ingresos por servicios', AccountType.REVENUE, 'Ventas'],
+    ['Servicios prestados', AccountType.REVENUE, 'Ventas'],
+    ['Ventas netas', AccountType.REVENUE, 'Ventas'],
+    ['Servicios de limpieza', AccountType.EXPENSE, 'Gastos de Administración'],
+    ['Costo de ventas', AccountType.EXPENSE, 'Costo de Ventas'],
+    ['Amortizaciones de bienes de uso', AccountType.EXPENSE, 'Gastos de Administración'],
+    ['Amortizaciones acumuladas rodados', AccountType.ASSET, 'Bienes de Uso'],
+    ['Amortización acumulada muebles y útiles', AccountType.ASSET, 'Bienes de Uso']
+  ])('%s', async (name, type, category) => {
+    expect(await classify(name)).toMatchObject({ type, category });
+  });
+});
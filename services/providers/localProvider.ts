@@ -0,0 +1,213 @@
+import { AccountLine, AccountType, BalanceModel, ColumnMapping, RegulatoryUpdate, Term } from "../../types";
+import { normalizeText } from "../accountMapping";
+import { detectAmountFormat, parseAmount } from "../amountParser";
+import { findRubroPlacement } from "../balanceModel";
+import { AIProvider } from "./types";
+
+/**
+ * Deterministic offline provider for development, demos and tests: keyword heuristics instead
+ * of a model, no network access. Same input always yields the same output.
+ */
+
+export const LOCAL_MODELS = ['heuristico-local'];
+
+// First match wins, so more specific patterns go first
+const KEYWORD_RULES: { pattern: RegExp; type: AccountType; category: string }[] = [
+  { pattern: /amortizacion(es)? acumulada(s)?|rodados|muebles y utiles|inmuebles|maquinaria|instalaciones/, type: AccountType.ASSET, category: 'Bienes de Uso' },
+  { pattern: /caja|banco|fondo fijo|valores a depositar|disponibilidades/, type: AccountType.ASSET, category: 'Caja y Bancos' },
+  { pattern: /plazo fijo|overnight|fci|fondos comunes|inversion|titulos publicos/, type: AccountType.ASSET, category: 'Inversiones' },
+  { pattern: /deudores por ventas|clientes|documentos a cobrar|creditos por ventas|deudores incobrables/, type: AccountType.ASSET, category: 'Créditos por Ventas' },
+  { pattern: /anticipo|credito fiscal|iva saldo a favor|retenciones sufridas|percepciones sufridas|otros creditos|gastos pagados por adelantado/, type: AccountType.ASSET, category: 'Otros Créditos' },
+  { pattern: /mercaderias|materias primas|productos terminados|bienes de cambio|existencias/, type: AccountType.ASSET, category: 'Bienes de Cambio' },
+  { pattern: /marcas|patentes|llave de negocio|software|intangible/, type: AccountType.ASSET, category: 'Activos Intangibles' },
+  { pattern: /proveedores|deudas comerciales|documentos a pagar/, type: AccountType.LIABILITY, category: 'Deudas Comerciales' },
+  { pattern: /prestamo|descubierto|adelanto en cuenta|deudas bancarias/, type: AccountType.LIABILITY, category: 'Deudas Bancarias' },
+  { pattern: /sueldos a pagar|cargas sociales a pagar|iva a pagar|iva debito|impuesto a las ganancias a pagar|ingresos brutos a pagar|afip|deudas (sociales|fiscales)/, type: AccountType.LIABILITY, category: 'Deudas Sociales y Fiscales' },
+  { pattern: /prevision/, type: AccountType.LIABILITY, category: 'Previsiones' },
+  { pattern: /acreedores|dividendos a pagar|otras deudas/, type: AccountType.LIABILITY, category: 'Otras Deudas' },
+  { pattern: /capital|acciones en circulacion|aportes irrevocables|ajuste de capital/, type: AccountType.EQUITY, category: 'Capital Social' },
+  { pattern: /reserva/, type: AccountType.EQUITY, category: 'Reservas' },
+  { pattern: /resultados no asignados|resultados acumulados|resultados de ejercicios anteriores/, type: AccountType.EQUITY, category: 'Resultados Acumulados' },
+  // Ahead of the expense rules, which take "servicios" as a cost
+  { pattern: /ingresos por servicios|servicios prestados/, type: AccountType.REVENUE, category: 'Ventas' },
+  { pattern: /costo de (ventas|mercaderias)|cmv/, type: AccountType.EXPENSE, category: 'Costo de Ventas' },
+  { pattern: /intereses|diferencia de cambio|gastos bancarios|comisiones bancarias|resultado por tenencia/, type: AccountType.EXPENSE, category: 'Resultados Financieros' },
+  { pattern: /publicidad|fletes|comisiones|gastos de comercializacion/, type: AccountType.EXPENSE, category: 'Gastos de Comercialización' },
+  { pattern: /sueldos|cargas sociales|honorarios|alquileres|servicios|papeleria|impuestos|gastos de administracion|amortizacion/, type: AccountType.EXPENSE, category: 'Gastos de Administración' },
+  { pattern: /ventas/, type: AccountType.REVENUE, category: 'Ventas' }
+];
+
+// Fallback when no keyword matches: the first digit of the code, then the sign of the balance
+const CHAPTER_BY_DIGIT: Record<string, AccountType> = {
+  '1': AccountType.ASSET, '2': AccountType.LIABILITY, '3': AccountType.EQUITY, '4': AccountType.REVENUE, '5': AccountType.EXPENSE
+};
+
+const DEFAULT_CATEGORY: Record<AccountType, string> = {
+  [AccountType.ASSET]: 'Otros Créditos',
+  [AccountType.LIABILITY]: 'Otras Deudas',
+  [AccountType.EQUITY]: 'Resultados Acumulados',
+  [AccountType.REVENUE]: 'Ventas',
+  [AccountType.EXPENSE]: 'Gastos de Administración',
+  [AccountType.UNCLASSIFIED]: 'Sin Clasificar'
+};
+
+// Keyword rubros outside the assigned model go to the chapter's "Otros..." rubro, or its last one
+const fitToModel = (model: BalanceModel | undefined, type: AccountType, category: string): string => {
+  const rubros = model?.chapters.find(c => c.type === type)?.rubros || [];
+  if (rubros.length === 0 || findRubroPlacement(model!, type, category)) return category;
+  const catchAll = rubros.find(r => /^otr[oa]s\b/.test(normalizeText(r.name)));
+  return (catchAll || rubros[rubros.length - 1]).name;
+};
+
+// Only names that say so; otherwise the rubro decides
+const termFromName = (name: string): Term | undefined =>
+  /largo plazo|no corriente/.test(name) ? 'NON_CURRENT' : /corto plazo/.test(name) ? 'CURRENT' : undefined;
+
+// Chapter headings recognized when extracting a model from a sample statement
+const CHAPTER_HEADERS: Record<string, AccountType> = {
+  'activo': AccountType.ASSET,
+  'pasivo': AccountType.LIABILITY,
+  'patrimonio neto': AccountType.EQUITY,
+  'ingresos': AccountType.REVENUE,
+  'egresos': AccountType.EXPENSE,
+  'resultados': AccountType.EXPENSE
+};
+
+const HEADER_KEYWORDS: Record<keyof Omit<ColumnMapping, 'startRow' | 'amountFormats'>, RegExp> = {
+  codeIndex: /^(cod|codigo|cuenta nro|nro|numero)/,
+  nameIndex: /(descripcion|denominacion|nombre|cuenta|detalle)/,
+  debitIndex: /^(debe|debitos|deudor)/,
+  creditIndex: /^(haber|creditos|acreedor)/,
+  balanceIndex: /^(saldo|importe|total)/
+};
+
+const SAMPLE_UPDATES: RegulatoryUpdate[] = [
+  {
+    source: 'CNV',
+    date: '2024-01-15',
+    title: '[Demo] Presentación de estados financieros anuales',
+    summary: 'Ejemplo generado localmente: recordatorio de plazos para la presentación de estados financieros anuales auditados.',
+    impactLevel: 'Medium'
+  },
+  {
+    source: 'BCRA',
+    date: '2024-01-10',
+    title: '[Demo] Comunicación "A" sobre régimen informativo contable',
+    summary: 'Ejemplo generado localmente: actualización del régimen informativo contable mensual para entidades financieras.',
+    impactLevel: 'Low'
+  }
+];
+
+export const createLocalProvider = (): AIProvider => ({
+  detectColumnMapping: async (sampleRows) => {
+    const mapping: ColumnMapping = { codeIndex: -1, nameIndex: -1, debitIndex: -1, creditIndex: -1, balanceIndex: -1, startRow: 0 };
+
+    // Look for a header row naming the columns
+    const headerRow = sampleRows.findIndex(row =>
+      (row || []).some(cell => /^(debe|haber|saldo)/.test(normalizeText(String(cell ?? ''))))
+    );
+
+    if (headerRow > -1) {
+      const headers = sampleRows[headerRow].map(cell => normalizeText(String(cell ?? '')));
+      const used = new Set<number>();
+      (Object.keys(HEADER_KEYWORDS) as (keyof typeof HEADER_KEYWORDS)[]).forEach(field => {
+        mapping[field] = headers.findIndex((h, i) => HEADER_KEYWORDS[field].test(h) && !used.has(i));
+        used.add(mapping[field]);
+      });
+      mapping.startRow = headerRow + 1;
+      return mapping;
+    }
+
+    // No header: the first mostly-text column is the name, numeric columns follow
+    const firstDataRow = sampleRows.find(row => row && row.length > 1) || [];
+    const numericColumns = firstDataRow
+      .map((cell, i) => ({ i, numeric: typeof cell === 'number' }))
+      .filter(c => c.numeric)
+      .map(c => c.i);
+    mapping.nameIndex = firstDataRow.findIndex(cell => typeof cell === 'string' && /[a-z]/i.test(cell));
+    if (mapping.nameIndex > 0) mapping.codeIndex = 0;
+    if (numericColumns.length >= 2) {
+      mapping.debitIndex = numericColumns[numericColumns.length - 2];
+      mapping.creditIndex = numericColumns[numericColumns.length - 1];
+    } else if (numericColumns.length === 1) {
+      mapping.balanceIndex = numericColumns[0];
+    }
+    return mapping;
+  },
+
+  extractAccounts: async (fileBase64, mimeType) => {
+    if (!mimeType.startsWith('text/')) {
+      throw new Error("El proveedor local solo puede leer planillas y archivos de texto.");
+    }
+
+    // One account per line: "<code> <name> <debit> <credit>" or "<code> <name> <balance>"
+    const text = new TextDecoder().decode(Uint8Array.from(atob(fileBase64), c => c.charCodeAt(0)));
+    const matches = text.split(/\r?\n/)
+      .map(raw => raw.trim().match(/^([\d.]+)?\s*(.+?)\s+(-?[\d.,]+-?)(?:\s+(-?[\d.,]+-?))?$/))
+      .filter((m): m is RegExpMatchArray => m !== null);
+    // "1.234,56" (es-AR) vs "1,234.56", decided once for the whole file
+    const format = detectAmountFormat(matches.flatMap(m => [m[3], m[4]].filter(Boolean))) || 'ES_AR';
+    const lines: Partial<AccountLine>[] = matches.map(([, code, name, first, second]) => {
+      const firstAmount = parseAmount(first, format).value;
+      const debit = second !== undefined ? firstAmount : Math.max(firstAmount, 0);
+      const credit = second !== undefined ? parseAmount(second, format).value : Math.max(-firstAmount, 0);
+      return { code: code || '', name, debit, credit, balance: debit - credit };
+    });
+    return lines;
+  },
+
+  classifyBatch: async (request) => request.lines.map(line => {
+    const name = normalizeText(line.name || '');
+    const isGroup = /^total\b/.test(name);
+    const keyword = KEYWORD_RULES.find(r => (!line.type || r.type === line.type) && r.pattern.test(name));
+
+    if (keyword) {
+      return { id: line.id, type: keyword.type, category: fitToModel(request.standardModel, keyword.type, keyword.category), isGroup, term: termFromName(name) };
+    }
+
+    const digit = (line.code || '').replace(/[^0-9]/g, '').charAt(0);
+    const type = line.type
+      || CHAPTER_BY_DIGIT[digit]
+      || ((line.balance || 0) >= 0 ? AccountType.ASSET : AccountType.LIABILITY);
+    return { id: line.id, type, category: fitToModel(request.standardModel, type, DEFAULT_CATEGORY[type]), isGroup, term: termFromName(name) };
+  }),
+
+  extractRegulatoryRules: async () => `ACTIVO
+- Caja y Bancos
+- Inversiones
+- Créditos por Ventas
+- Otros Créditos
+- Bienes de Cambio
+- Bienes de Uso
+- Activos Intangibles
+PASIVO
+- Deudas Comerciales
+- Deudas Bancarias
+- Deudas Sociales y Fiscales
+- Otras Deudas
+- Previsiones
+PATRIMONIO NETO
+- Capital Social
+- Reservas
+- Resultados Acumulados
+(Modelo CNV estándar generado localmente: el proveedor local no interpreta documentos de normativa.)`,
+
+  extractStructure: async (csvText) => {
+    // Upper-case rows without amounts are taken as headers, in file order
+    const headers = csvText
+      .split(/\r?\n/)
+      .map(line => line.split(',').map(c => c.trim()).filter(Boolean))
+      .filter(cells => cells.length > 0 && cells.every(c => !/\d{2,}/.test(c)))
+      .map(cells => cells.join(' '))
+      .filter(text => text.length > 3 && text === text.toUpperCase());
+    const chapters: { type: AccountType; rubros: { name: string; subrubros: string[] }[] }[] = [];
+    headers.forEach(h => {
+      const chapter = CHAPTER_HEADERS[normalizeText(h)];
+      if (chapter) chapters.push({ type: chapter, rubros: [] });
+      else if (chapters.length > 0 && !/^TOTAL\b/.test(h)) chapters[chapters.length - 1].rubros.push({ name: h, subrubros: [] });
+    });
+    return { chapters };
+  },
+
+  searchRegulatoryUpdates: async () => SAMPLE_UPDATES
+});
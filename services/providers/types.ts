@@ -0,0 +1,49 @@
+import { AccountType, BalanceModel, Term } from "../../types";
+
+export interface ClassificationInput {
+  id: number;
+  name?: string;
+  code?: string;
+  balance?: number;
+  type?: AccountType; // Chapter already fixed by a mapping rule
+}
+
+export interface ClassificationRequest {
+  lines: ClassificationInput[];
+  totalLines: number; // Size of the whole trial balance, for context
+  structureOutline: string; // Headers and totals of the whole plan
+  usedCategories: string[]; // Rubros chosen in previous batches
+  standardModel?: BalanceModel; // Rubros to choose from, assigned to the client or period
+  clientRules?: string; // Criteria from the client's own normative, applied within the model
+  feedback?: string; // Validation errors of the previous answer, when re-prompting
+}
+
+export interface ClassificationResult {
+  id: number;
+  type: AccountType;
+  category: string;
+  isGroup: boolean;
+  term?: Term; // Assets and liabilities only
+}
+
+/**
+ * Everything the app asks of a language model. Orchestration (batching, retries,
+ * spreadsheet parsing, mapping rules) lives in aiService and is shared by all providers.
+ * Structured answers come back untyped: aiService validates them against services/schemas
+ * and calls again with `feedback` describing what was wrong.
+ */
+export interface AIProvider {
+  detectColumnMapping: (sampleRows: any[][], feedback?: string) => Promise<unknown>;
+  extractAccounts: (fileBase64: string, mimeType: string, feedback?: string) => Promise<unknown>;
+  classifyBatch: (request: ClassificationRequest) => Promise<unknown>;
+  extractRegulatoryRules: (fileBase64: string, mimeType: string) => Promise<string>;
+  extractStructure: (csvText: string, feedback?: string) => Promise<unknown>;
+  searchRegulatoryUpdates: (today: string, feedback?: string) => Promise<unknown>;
+}
+
+export type AIProviderId = 'gemini' | 'local';
+
+export interface AISettings {
+  providerId: AIProviderId;
+  model: string;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { AccountLine, AccountType } from '../types';
+import { groupFinancials } from './financialStatements';
+import { computeBalanceFigures, computeRatios } from './ratios';
+
+const line = (code: string, name: string, type: AccountType, category: string, balance: number): AccountLine => ({
+  id: code, code, name, type, category, balance,
+  debit: Math.max(balance, 0), credit: Math.max(-balance, 0),
+  isGroup: false, manualOverride: false
+});
+
+// Loss of 100 on top of accumulated losses of 200: PN 700 against a Pasivo of 300
+const lossMaking: AccountLine[] = [
+  line('1.1', 'Caja', AccountType.ASSET, 'Caja y Bancos', 600),
+  line('1.2', 'Mercaderías', AccountType.ASSET, 'Bienes de Cambio', 400),
+  line('2.1', 'Proveedores', AccountType.LIABILITY, 'Deudas Comerciales', -300),
+  line('3.1', 'Capital', AccountType.EQUITY, 'Capital Social', -1000),
+  line('3.2', 'Resultados no asignados', AccountType.EQUITY, 'Resultados Acumulados', 200),
+  line('4.1', 'Ventas', AccountType.REVENUE, 'Ventas', -500),
+  line('4.2', 'Diferencia de cambio', AccountType.REVENUE, 'Resultados Financieros', 100),
+  line('5.1', 'Costo de mercaderías vendidas', AccountType.EXPENSE, 'Costo de Ventas', 300),
+  line('5.2', 'Honorarios', AccountType.EXPENSE, 'Gastos de Administración', 200)
+];
+
+describe('computeBalanceFigures', () => {
+  it('deducts accumulated losses and the loss of the period from equity', () => {
+    const figures = computeBalanceFigures(groupFinancials(lossMaking));
+    expect(figures).toMatchObject({
+      totalAssets: 1000,
+      inventories: 400,
+      totalLiabilities: 300,
+      equity: 700,
+      sales: 500,
+      grossResult: 200,
+      netResult: -100
+    });
+  });
+});
+
+describe('computeRatios', () => {
+  it('measures solvency and return against the reduced equity', () => {
+    const ratios = Object.fromEntries(computeRatios(groupFinancials(lossMaking)).map(r => [r.definition.key, r.current]));
+    expect(ratios.liquidez).toBeCloseTo(1000 / 300);
+    expect(ratios.pruebaAcida).toBeCloseTo(600 / 300);
+    expect(ratios.solvencia).toBeCloseTo(700 / 300);
+    expect(ratios.endeudamiento).toBeCloseTo(300 / 700);
+    expect(ratios.roe).toBeCloseTo(-100 / 700);
+    expect(ratios.margenNeto).toBeCloseTo(-100 / 500);
+  });
+});
@@ -0,0 +1,108 @@
+import { AccountType } from "../types";
+import { GroupedFinancials, RubroGroup, incomeSummary, rubroAmount } from "./financialStatements";
+import { normalizeText } from "./accountMapping";
+
+/**
+ * Financial analysis ratios computed from the grouped statements. Figures are taken at the
+ * closing date on the natural side of each chapter, with regularizadoras already deducted.
+ */
+
+export type RatioGroup = 'LIQUIDEZ' | 'SOLVENCIA' | 'RENTABILIDAD';
+
+export const RATIO_GROUP_LABELS: Record<RatioGroup, string> = {
+  LIQUIDEZ: 'Liquidez',
+  SOLVENCIA: 'Solvencia y Estructura',
+  RENTABILIDAD: 'Rentabilidad'
+};
+
+export interface BalanceFigures {
+  currentAssets: number;
+  nonCurrentAssets: number;
+  inventories: number;
+  totalAssets: number;
+  currentLiabilities: number;
+  nonCurrentLiabilities: number;
+  totalLiabilities: number;
+  equity: number; // Including the result of the period
+  sales: number;
+  grossResult: number;
+  operatingResult: number;
+  netResult: number;
+}
+
+export const INVENTORY_RUBRO = /bienes de cambio|mercader|existencias|inventario|bienes para consumo/;
+
+const sumRubros = (type: AccountType, groups: RubroGroup[], pick: (name: string) => boolean): number =>
+  groups.filter(g => pick(g.name)).reduce((sum, g) => sum + rubroAmount(type, g), 0);
+
+export const computeBalanceFigures = (financials: GroupedFinancials): BalanceFigures => {
+  const income = incomeSummary(financials);
+  const all = () => true;
+  const currentAssets = sumRubros(AccountType.ASSET, financials.assetTerms.current, all);
+  const nonCurrentAssets = sumRubros(AccountType.ASSET, financials.assetTerms.nonCurrent, all);
+  const currentLiabilities = sumRubros(AccountType.LIABILITY, financials.liabilityTerms.current, all);
+  const nonCurrentLiabilities = sumRubros(AccountType.LIABILITY, financials.liabilityTerms.nonCurrent, all);
+  return {
+    currentAssets,
+    nonCurrentAssets,
+    // Only stock sold within the cycle is taken out of the acid test
+    inventories: sumRubros(AccountType.ASSET, financials.assetTerms.current, n => INVENTORY_RUBRO.test(normalizeText(n))),
+    totalAssets: currentAssets + nonCurrentAssets,
+    currentLiabilities,
+    nonCurrentLiabilities,
+    totalLiabilities: currentLiabilities + nonCurrentLiabilities,
+    equity: sumRubros(AccountType.EQUITY, financials.equity, all) + financials.netResult,
+    ...income
+  };
+};
+
+export type RatioFormat = 'RATIO' | 'PERCENT';
+
+export interface RatioDefinition {
+  key: string;
+  label: string;
+  group: RatioGroup;
+  format: RatioFormat;
+  formula: string;
+  compute: (f: BalanceFigures) => number | null;
+}
+
+// null when the denominator is zero: the ratio does not apply, it is not infinite
+const divide = (numerator: number, denominator: number): number | null =>
+  Math.abs(denominator) < 0.005 ? null : numerator / denominator;
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+  { key: 'liquidez', label: 'Liquidez corriente', group: 'LIQUIDEZ', format: 'RATIO', formula: 'Activo corriente / Pasivo corriente', compute: f => divide(f.currentAssets, f.currentLiabilities) },
+  { key: 'pruebaAcida', label: 'Prueba ácida', group: 'LIQUIDEZ', format: 'RATIO', formula: '(Activo corriente - Bienes de cambio) / Pasivo corriente', compute: f => divide(f.currentAssets - f.inventories, f.currentLiabilities) },
+  { key: 'solvencia', label: 'Solvencia', group: 'SOLVENCIA', format: 'RATIO', formula: 'Patrimonio neto / Pasivo', compute: f => divide(f.equity, f.totalLiabilities) },
+  { key: 'endeudamiento', label: 'Endeudamiento', group: 'SOLVENCIA', format: 'RATIO', formula: 'Pasivo / Patrimonio neto', compute: f => divide(f.totalLiabilities, f.equity) },
+  { key: 'inmovilizacion', label: 'Inmovilización del activo', group: 'SOLVENCIA', format: 'PERCENT', formula: 'Activo no corriente / Activo', compute: f => divide(f.nonCurrentAssets, f.totalAssets) },
+  { key: 'roe', label: 'Rentabilidad del patrimonio (ROE)', group: 'RENTABILIDAD', format: 'PERCENT', formula: 'Resultado del ejercicio / Patrimonio neto', compute: f => divide(f.netResult, f.equity) },
+  { key: 'roa', label: 'Rentabilidad del activo (ROA)', group: 'RENTABILIDAD', format: 'PERCENT', formula: 'Resultado del ejercicio / Activo', compute: f => divide(f.netResult, f.totalAssets) },
+  { key: 'margenBruto', label: 'Margen bruto', group: 'RENTABILIDAD', format: 'PERCENT', formula: 'Resultado bruto / Ventas netas', compute: f => divide(f.grossResult, f.sales) },
+  { key: 'margenOperativo', label: 'Margen operativo', group: 'RENTABILIDAD', format: 'PERCENT', formula: 'Resultado operativo / Ventas netas', compute: f => divide(f.operatingResult, f.sales) },
+  { key: 'margenNeto', label: 'Margen neto', group: 'RENTABILIDAD', format: 'PERCENT', formula: 'Resultado del ejercicio / Ventas netas', compute: f => divide(f.netResult, f.sales) }
+];
+
+export interface RatioValue {
+  definition: RatioDefinition;
+  current: number | null;
+  prior: number | null;
+}
+
+export const computeRatios = (current: GroupedFinancials, prior?: GroupedFinancials | null): RatioValue[] => {
+  const cur = computeBalanceFigures(current);
+  const pri = prior ? computeBalanceFigures(prior) : null;
+  return RATIO_DEFINITIONS.map(definition => ({
+    definition,
+    current: definition.compute(cur),
+    prior: pri ? definition.compute(pri) : null
+  }));
+};
+
+export const formatRatio = (value: number | null, format: RatioFormat): string => {
+  if (value === null) return 'N/A';
+  return format === 'PERCENT'
+    ? `${(value * 100).toLocaleString('es-AR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} %`
+    : value.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
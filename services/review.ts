@@ -0,0 +1,70 @@
+import { AccountLine, AccountType, FiscalPeriod, ReviewRecord, ReviewStatus, SignOff } from "../types";
+import { getDetailLines } from "./accountTree";
+import { lineKey } from "./financialStatements";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  PENDIENTE: 'Pendiente',
+  REVISADO: 'Revisado',
+  OBSERVADO: 'Observado'
+};
+
+export const PENDING_REVIEW: ReviewRecord = { status: 'PENDIENTE' };
+
+export const rubroKey = (type: AccountType, category: string): string => `${type}|${category.trim()}`;
+
+export const signOff = (user: string): SignOff => ({ user, date: new Date().toISOString() });
+
+export const formatSignOff = (sign?: SignOff): string =>
+  sign ? `${sign.user} · ${new Date(sign.date).toLocaleDateString('es-AR')}` : '-';
+
+export interface RubroEntry {
+  key: string;
+  type: AccountType;
+  category: string;
+  lineCount: number;
+}
+
+// Rubros present in the balance, in chapter order, as the statements group them
+export const listRubros = (accounts: AccountLine[]): RubroEntry[] => {
+  const rubros = new Map<string, RubroEntry>();
+  getDetailLines(accounts).forEach(acc => {
+    const key = rubroKey(acc.type, acc.category);
+    const entry = rubros.get(key) || { key, type: acc.type, category: acc.category.trim(), lineCount: 0 };
+    entry.lineCount++;
+    rubros.set(key, entry);
+  });
+  const chapters = Object.values(AccountType);
+  return Array.from(rubros.values()).sort((a, b) =>
+    chapters.indexOf(a.type) - chapters.indexOf(b.type) || a.category.localeCompare(b.category, 'es')
+  );
+};
+
+export interface ReviewProgress {
+  lines: Record<ReviewStatus, number>;
+  rubros: Record<ReviewStatus, number>;
+  totalLines: number;
+  totalRubros: number;
+  percent: number; // Share of lines and rubros already reviewed, 0-100
+}
+
+const countStatuses = (keys: string[], reviews: Record<string, ReviewRecord> = {}): Record<ReviewStatus, number> => {
+  const counts: Record<ReviewStatus, number> = { PENDIENTE: 0, REVISADO: 0, OBSERVADO: 0 };
+  keys.forEach(key => counts[(reviews[key] || PENDING_REVIEW).status]++);
+  return counts;
+};
+
+// Reviews of lines or rubros no longer in the balance (deleted, renamed) are not counted
+export const computeReviewProgress = (accounts: AccountLine[], period?: FiscalPeriod): ReviewProgress => {
+  const lineKeys = Array.from(new Set(accounts.map(lineKey)));
+  const rubroKeys = listRubros(accounts).map(r => r.key);
+  const lines = countStatuses(lineKeys, period?.lineReviews);
+  const rubros = countStatuses(rubroKeys, period?.rubroReviews);
+  const total = lineKeys.length + rubroKeys.length;
+  return {
+    lines,
+    rubros,
+    totalLines: lineKeys.length,
+    totalRubros: rubroKeys.length,
+    percent: total === 0 ? 0 : Math.round(((lines.REVISADO + rubros.REVISADO) / total) * 100)
+  };
+};
@@ -0,0 +1,287 @@
+import { AccountLine, AccountType, BalanceModel, ColumnMapping, RegulatoryUpdate, SignConvention, Term } from "../types";
+import { createEmptyModel, createRubro, createSubrubro, NATURAL_SIGN } from "./balanceModel";
+import { ClassificationResult } from "./providers/types";
+
+/**
+ * Runtime validation of everything a provider returns. Each validator coerces harmless
+ * variations (numeric strings, "PATRIMONIO NETO" for PATRIMONIO_NETO) and reports the rest
+ * as issues, which aiService feeds back to the model when it re-prompts.
+ */
+
+export interface ValidationIssue {
+  path: string; // e.g. "[3].type" or "nameIndex"
+  message: string;
+  id?: number; // Input line the issue refers to, for classification results
+}
+
+export interface ValidationResult<T> {
+  value: T; // Best effort: the valid part of the response
+  issues: ValidationIssue[];
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const toNumber = (v: unknown): number | null => {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) return Number(v);
+  return null;
+};
+
+const toBoolean = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (v === 'true' || v === 'TRUE') return true;
+  if (v === 'false' || v === 'FALSE') return false;
+  return null;
+};
+
+export const describeIssues = (issues: ValidationIssue[], max = 20): string =>
+  issues.slice(0, max).map(i => `- ${i.path}: ${i.message}`).join('\n')
+  + (issues.length > max ? `\n- (${issues.length - max} errores más)` : '');
+
+// --- Column mapping ---
+
+const MAPPING_INDEX_FIELDS = ['codeIndex', 'nameIndex', 'debitIndex', 'creditIndex', 'balanceIndex'] as const;
+
+export const validateColumnMapping = (raw: unknown, columnCount: number): ValidationResult<ColumnMapping> => {
+  const issues: ValidationIssue[] = [];
+  const value: ColumnMapping = { codeIndex: -1, nameIndex: -1, debitIndex: -1, creditIndex: -1, balanceIndex: -1, startRow: 0 };
+
+  if (!isObject(raw)) {
+    return { value, issues: [{ path: '', message: 'Se esperaba un objeto JSON con los índices de columna.' }] };
+  }
+
+  MAPPING_INDEX_FIELDS.forEach(field => {
+    const n = toNumber(raw[field]);
+    if (n === null || !Number.isInteger(n) || n < -1) {
+      issues.push({ path: field, message: 'Debe ser un entero mayor o igual a -1.' });
+    } else if (n >= columnCount) {
+      issues.push({ path: field, message: `La planilla solo tiene ${columnCount} columnas (índices 0 a ${columnCount - 1}).` });
+    } else {
+      value[field] = n;
+    }
+  });
+
+  const startRow = toNumber(raw.startRow);
+  if (startRow === null || !Number.isInteger(startRow) || startRow < 0) {
+    issues.push({ path: 'startRow', message: 'Debe ser un entero mayor o igual a 0.' });
+  } else {
+    value.startRow = startRow;
+  }
+
+  if (value.nameIndex < 0) {
+    issues.push({ path: 'nameIndex', message: 'La columna de nombre de cuenta es obligatoria.' });
+  }
+  const hasDebitCredit = value.debitIndex > -1 && value.creditIndex > -1;
+  if (!hasDebitCredit && value.balanceIndex < 0) {
+    issues.push({ path: 'balanceIndex', message: 'Se requieren columnas Debe y Haber, o una columna de Saldo.' });
+  }
+
+  const used = MAPPING_INDEX_FIELDS.map(f => value[f]).filter(i => i > -1);
+  if (new Set(used).size !== used.length) {
+    issues.push({ path: '', message: 'Dos campos apuntan a la misma columna.' });
+  }
+
+  return { value, issues };
+};
+
+// --- Classification results ---
+
+const CHAPTERS = Object.values(AccountType).filter(t => t !== AccountType.UNCLASSIFIED) as string[];
+
+const toChapter = (v: unknown): AccountType | null => {
+  if (typeof v !== 'string') return null;
+  const normalized = v.trim().toUpperCase().replace(/\s+/g, '_');
+  return CHAPTERS.includes(normalized) ? normalized as AccountType : null;
+};
+
+const toTerm = (v: unknown): Term | null => {
+  if (typeof v !== 'string') return null;
+  const normalized = v.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  if (normalized === 'CURRENT' || normalized === 'CORRIENTE') return 'CURRENT';
+  if (normalized === 'NON_CURRENT' || normalized === 'NO_CORRIENTE') return 'NON_CURRENT';
+  return null;
+};
+
+export const validateClassificationResults = (
+  raw: unknown,
+  expectedIds: number[]
+): ValidationResult<ClassificationResult[]> => {
+  const issues: ValidationIssue[] = [];
+  const value: ClassificationResult[] = [];
+
+  if (!Array.isArray(raw)) {
+    return {
+      value,
+      issues: expectedIds.map(id => ({ id, path: '', message: 'La respuesta no es una lista JSON.' }))
+    };
+  }
+
+  const expected = new Set(expectedIds);
+  const seen = new Set<number>();
+
+  raw.forEach((item, index) => {
+    const path = `[${index}]`;
+    if (!isObject(item)) {
+      issues.push({ path, message: 'Cada elemento debe ser un objeto.' });
+      return;
+    }
+
+    const id = toNumber(item.id);
+    if (id === null || !expected.has(id)) {
+      issues.push({ path: `${path}.id`, message: `Id ${JSON.stringify(item.id)} no corresponde a ninguna línea enviada.` });
+      return;
+    }
+    if (seen.has(id)) {
+      issues.push({ id, path: `${path}.id`, message: `Id ${id} repetido.` });
+      return;
+    }
+
+    const type = toChapter(item.type);
+    const category = typeof item.category === 'string' ? item.category.trim() : '';
+    const isGroup = item.isGroup === undefined ? false : toBoolean(item.isGroup);
+    // Optional, and meaningless outside assets and liabilities
+    const term = item.term === undefined || item.term === null ? undefined : toTerm(item.term);
+
+    const itemIssues: ValidationIssue[] = [];
+    if (!type) itemIssues.push({ id, path: `${path}.type`, message: `Capítulo inválido ${JSON.stringify(item.type)}; usar uno de ${CHAPTERS.join(', ')}.` });
+    if (!category) itemIssues.push({ id, path: `${path}.category`, message: 'Falta el Rubro.' });
+    if (isGroup === null) itemIssues.push({ id, path: `${path}.isGroup`, message: 'Debe ser true o false.' });
+    if (term === null) itemIssues.push({ id, path: `${path}.term`, message: `Plazo inválido ${JSON.stringify(item.term)}; usar CURRENT o NON_CURRENT.` });
+
+    if (itemIssues.length > 0) {
+      issues.push(...itemIssues);
+      return;
+    }
+
+    seen.add(id);
+    value.push({ id, type: type!, category, isGroup: isGroup!, term: term || undefined });
+  });
+
+  expectedIds
+    .filter(id => !seen.has(id) && !issues.some(i => i.id === id))
+    .forEach(id => issues.push({ id, path: `id ${id}`, message: 'Falta la clasificación de esta línea.' }));
+
+  return { value, issues };
+};
+
+// --- Regulatory updates ---
+
+export const validateRegulatoryUpdates = (raw: unknown): ValidationResult<RegulatoryUpdate[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: [], issues: [{ path: '', message: 'La respuesta no es una lista JSON.' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const value: RegulatoryUpdate[] = [];
+
+  raw.forEach((item, index) => {
+    const path = `[${index}]`;
+    if (!isObject(item)) {
+      issues.push({ path, message: 'Cada elemento debe ser un objeto.' });
+      return;
+    }
+    const itemIssues: ValidationIssue[] = [];
+    if (item.source !== 'BCRA' && item.source !== 'CNV') itemIssues.push({ path: `${path}.source`, message: 'Debe ser "BCRA" o "CNV".' });
+    if (typeof item.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(item.date)) itemIssues.push({ path: `${path}.date`, message: 'Debe tener formato YYYY-MM-DD.' });
+    if (typeof item.title !== 'string' || !item.title.trim()) itemIssues.push({ path: `${path}.title`, message: 'Falta el título.' });
+    if (typeof item.summary !== 'string' || !item.summary.trim()) itemIssues.push({ path: `${path}.summary`, message: 'Falta el resumen.' });
+    if (!['High', 'Medium', 'Low'].includes(item.impactLevel as string)) itemIssues.push({ path: `${path}.impactLevel`, message: 'Debe ser "High", "Medium" o "Low".' });
+    if (item.url !== undefined && typeof item.url !== 'string') itemIssues.push({ path: `${path}.url`, message: 'Debe ser texto.' });
+
+    if (itemIssues.length > 0) {
+      issues.push(...itemIssues);
+      return;
+    }
+    value.push(item as unknown as RegulatoryUpdate);
+  });
+
+  return { value, issues };
+};
+
+// --- Accounts extracted from documents ---
+
+export const validateExtractedAccounts = (raw: unknown): ValidationResult<Partial<AccountLine>[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: [], issues: [{ path: '', message: 'La respuesta no es una lista JSON.' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const value: Partial<AccountLine>[] = [];
+
+  raw.forEach((item, index) => {
+    const path = `[${index}]`;
+    if (!isObject(item) || typeof item.name !== 'string' || !item.name.trim()) {
+      issues.push({ path: `${path}.name`, message: 'Cada línea necesita un nombre de cuenta.' });
+      return;
+    }
+    const amounts = (['debit', 'credit', 'balance'] as const).map(f => item[f] === undefined || item[f] === null ? 0 : toNumber(item[f]));
+    if (amounts.some(a => a === null)) {
+      issues.push({ path, message: 'Debe, Haber y Saldo deben ser números.' });
+      return;
+    }
+    const [debit, credit, balance] = amounts as number[];
+    value.push({
+      code: item.code === undefined || item.code === null ? '' : String(item.code),
+      name: item.name.trim(),
+      debit,
+      credit,
+      balance: balance || debit - credit
+    });
+  });
+
+  return { value, issues };
+};
+
+// --- Balance model extracted from a sample statement ---
+
+const toSign = (v: unknown): SignConvention | null => {
+  if (typeof v !== 'string') return null;
+  const normalized = v.trim().toUpperCase();
+  if (['DEBIT', 'DEUDOR', 'D'].includes(normalized)) return 'DEBIT';
+  if (['CREDIT', 'ACREEDOR', 'H'].includes(normalized)) return 'CREDIT';
+  return null;
+};
+
+export const validateBalanceModel = (raw: unknown): ValidationResult<BalanceModel> => {
+  const value = createEmptyModel();
+  if (!isObject(raw) || !Array.isArray(raw.chapters)) {
+    return { value, issues: [{ path: 'chapters', message: 'Se esperaba un objeto JSON con la lista "chapters".' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  raw.chapters.forEach((item, index) => {
+    const path = `chapters[${index}]`;
+    const type = isObject(item) ? toChapter(item.type) : null;
+    if (!isObject(item) || !type) {
+      issues.push({ path: `${path}.type`, message: `Capítulo inválido; usar uno de ${CHAPTERS.join(', ')}.` });
+      return;
+    }
+    if (!Array.isArray(item.rubros)) {
+      issues.push({ path: `${path}.rubros`, message: 'Debe ser una lista.' });
+      return;
+    }
+    const chapter = value.chapters.find(c => c.type === type)!;
+    item.rubros.forEach((r, rIndex) => {
+      const rPath = `${path}.rubros[${rIndex}]`;
+      if (!isObject(r) || typeof r.name !== 'string' || !r.name.trim()) {
+        issues.push({ path: `${rPath}.name`, message: 'Cada rubro necesita un nombre.' });
+        return;
+      }
+      const sign = r.sign === undefined ? NATURAL_SIGN[type] : toSign(r.sign);
+      if (!sign) {
+        issues.push({ path: `${rPath}.sign`, message: 'Debe ser "DEBIT" o "CREDIT".' });
+        return;
+      }
+      const subrubros = Array.isArray(r.subrubros)
+        ? r.subrubros.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim())
+        : [];
+      chapter.rubros.push({ ...createRubro(r.name.trim(), type), sign, subrubros: subrubros.map(createSubrubro) });
+    });
+  });
+
+  if (issues.length === 0 && value.chapters.every(c => c.rubros.length === 0)) {
+    issues.push({ path: 'chapters', message: 'No se encontró ningún rubro.' });
+  }
+  return { value, issues };
+};
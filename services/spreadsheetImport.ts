@@ -0,0 +1,142 @@
+import * as XLSX from "xlsx";
+import { AccountLine, AmountFormat, ColumnMapping, SavedImportMapping } from "../types";
+import { normalizeText } from "./accountMapping";
+import { AmountField, ParsedAmount, parseAmount, resolveAmountFormats } from "./amountParser";
+
+// Rows shown to the AI and in the mapping preview
+export const SAMPLE_ROW_COUNT = 25;
+
+export const EMPTY_COLUMN_MAPPING: ColumnMapping = {
+  codeIndex: -1, nameIndex: -1, debitIndex: -1, creditIndex: -1, balanceIndex: -1, startRow: 0
+};
+
+export const isSpreadsheetFile = (mimeType: string, filename: string): boolean => {
+  const lowerName = filename.toLowerCase();
+  return mimeType.includes('sheet') ||
+    mimeType.includes('excel') ||
+    mimeType.includes('csv') ||
+    lowerName.endsWith('.csv') ||
+    lowerName.endsWith('.xlsx') ||
+    lowerName.endsWith('.xls');
+};
+
+export const readWorkbook = (fileBase64: string): XLSX.WorkBook =>
+  XLSX.read(fileBase64, { type: 'base64' });
+
+// Convert to JSON array of arrays (rows)
+export const getSheetRows = (workbook: XLSX.WorkBook, sheetName: string): any[][] => {
+  const worksheet = workbook.Sheets[sheetName];
+  return worksheet ? XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][] : [];
+};
+
+export const getColumnCount = (rows: any[][]): number =>
+  Math.max(0, ...rows.slice(0, SAMPLE_ROW_COUNT).map(r => (r || []).length));
+
+// A parsed amount that may not mean what the file intended
+export interface AmountWarning {
+  row: number; // 1-based, as shown by spreadsheet programs
+  account: string;
+  message: string;
+}
+
+export interface ParsedSheet {
+  lines: Partial<AccountLine>[];
+  warnings: AmountWarning[];
+  formats: Record<AmountField, AmountFormat>;
+}
+
+// PARSE USING MAPPING (Deterministic & Scalable)
+export const parseRowsWithMapping = (rows: any[][], mapping: ColumnMapping): ParsedSheet => {
+  const extractedLines: Partial<AccountLine>[] = [];
+  const warnings: AmountWarning[] = [];
+  const formats = resolveAmountFormats(rows, mapping);
+
+  for (let i = (mapping.startRow || 0); i < rows.length; i++) {
+     const row = rows[i];
+     if (!row || row.length === 0) continue;
+
+     const rawName = mapping.nameIndex > -1 ? String(row[mapping.nameIndex] || '') : '';
+     const name = rawName.trim();
+     if (!name) continue; // Skip empty lines
+
+     const code = mapping.codeIndex > -1 ? String(row[mapping.codeIndex] || '') : '';
+
+     const amount = (field: AmountField): ParsedAmount => {
+        const parsed = parseAmount(row[mapping[field]], formats[field]);
+        if (parsed.suspicious) warnings.push({ row: i + 1, account: name, message: parsed.suspicious });
+        return parsed;
+     };
+     
+     let debit = 0;
+     let credit = 0;
+     let balance = 0;
+
+     // Logic: Calculate balance based on available columns
+     if (mapping.debitIndex > -1 && mapping.creditIndex > -1) {
+        debit = amount('debitIndex').value;
+        credit = amount('creditIndex').value;
+        balance = debit - credit;
+     } else if (mapping.balanceIndex > -1) {
+        // A Debe/Haber suffix decides the sign of a single balance column
+        const parsed = amount('balanceIndex');
+        balance = parsed.marker === 'H' ? -Math.abs(parsed.value)
+          : parsed.marker === 'D' ? Math.abs(parsed.value)
+          : parsed.value;
+        if (balance > 0) debit = balance;
+        else credit = Math.abs(balance);
+     }
+
+     // Ignore lines that look like page numbers or empty balances if intended
+     // But keep 0 balances if it's a valid account
+     extractedLines.push({
+         code,
+         name,
+         debit,
+         credit,
+         balance,
+         indent: rawName.length - rawName.trimStart().length
+     });
+  }
+
+  return { lines: extractedLines, warnings, formats };
+};
+
+/**
+ * The column-header row (the one right above `startRow`) identifies an ERP export format.
+ * Title rows are left out on purpose: they usually carry the company name or the date.
+ */
+export const buildHeaderSignature = (rows: any[][], startRow: number): string => {
+  const header = startRow > 0 ? rows[startRow - 1] || [] : [];
+  return header.map(cell => normalizeText(String(cell ?? '')).trim()).join('|');
+};
+
+// A saved layout applies when the file has its column count and the same header at the same row
+export const findSavedMapping = (
+  saved: SavedImportMapping[] = [],
+  rows: any[][]
+): SavedImportMapping | undefined => {
+  const columnCount = getColumnCount(rows);
+  return [...saved]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .find(s => s.columnCount === columnCount && buildHeaderSignature(rows, s.mapping.startRow) === s.signature);
+};
+
+// Stores (or refreshes) the confirmed layout, replacing any earlier one with the same header
+export const saveImportMapping = (
+  saved: SavedImportMapping[] = [],
+  rows: any[][],
+  sheetName: string,
+  mapping: ColumnMapping
+): SavedImportMapping[] => {
+  const signature = buildHeaderSignature(rows, mapping.startRow);
+  const columnCount = getColumnCount(rows);
+  const entry: SavedImportMapping = {
+    id: crypto.randomUUID(),
+    sheetName,
+    signature,
+    columnCount,
+    mapping,
+    updatedAt: new Date().toISOString()
+  };
+  return [...saved.filter(s => !(s.signature === signature && s.columnCount === columnCount)), entry];
+};
@@ -0,0 +1,87 @@
+import { ClientData } from "../../types";
+import { hashContent } from "../documents";
+import { createIndexedDbBackend } from "./indexedDbBackend";
+import { CLIENT_SCHEMA_VERSION, migrateClient } from "./migrations";
+import { PeriodSnapshot, StorageBackend, StorageError } from "./types";
+
+// Where every client lived before the storage layer: one JSON array in localStorage
+const LEGACY_CLIENTS_KEY = 'auditai_clients';
+const LEGACY_SCHEMA_VERSION = 1;
+
+let backend: StorageBackend = createIndexedDbBackend();
+
+// Swaps the backend, e.g. for createRestBackend(url); call before loadClients
+export const configureStorage = (next: StorageBackend) => {
+  backend = next;
+};
+
+export const saveClient = (client: ClientData): Promise<void> =>
+  backend.saveClient({
+    id: client.id,
+    schemaVersion: CLIENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    client
+  });
+
+export const deleteClient = (id: string): Promise<void> => backend.deleteClient(id);
+
+// Stores an uploaded original and returns its content hash
+export const storeDocument = async (content: Blob): Promise<string> => {
+  const hash = await hashContent(content);
+  await backend.saveDocument(hash, content);
+  return hash;
+};
+
+export const loadDocument = (hash: string): Promise<Blob | undefined> => backend.loadDocument(hash);
+
+export const saveSnapshot = (snapshot: PeriodSnapshot): Promise<void> => backend.saveSnapshot(snapshot);
+
+export const loadSnapshot = (id: string): Promise<PeriodSnapshot | undefined> => backend.loadSnapshot(id);
+
+/**
+ * Loads every client at the current schema version. Old records are migrated and written
+ * back; on the first run the legacy localStorage array is moved into the backend.
+ */
+export const loadClients = async (): Promise<ClientData[]> => {
+  const records = await backend.loadClients();
+
+  if (records.length === 0) {
+    const legacy = localStorage.getItem(LEGACY_CLIENTS_KEY);
+    if (!legacy) return [];
+    const clients = (JSON.parse(legacy) as any[]).map(c => migrateClient(c, LEGACY_SCHEMA_VERSION));
+    await Promise.all(clients.map(saveClient));
+    // Only dropped once everything is safely in the new backend
+    localStorage.removeItem(LEGACY_CLIENTS_KEY);
+    return clients;
+  }
+
+  const clients = records.map(r => migrateClient(r.client, r.schemaVersion));
+  await Promise.all(clients.filter((_, i) => records[i].schemaVersion < CLIENT_SCHEMA_VERSION).map(saveClient));
+  return clients.sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+};
+
+/**
+ * Settings kept in localStorage (model library, index and exchange rate tables). Null removes the key; a full
+ * quota comes back as a StorageError, like the writes of the backend.
+ */
+export const saveSetting = (key: string, value: unknown): void => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new StorageError('El navegador no tiene más espacio para guardar datos de AuditAI.', 'QUOTA');
+    }
+    throw error;
+  }
+};
+
+// User-facing explanation for the storage banner
+export const describeStorageError = (error: unknown): string => {
+  if (error instanceof StorageError && error.kind === 'QUOTA') {
+    return `${error.message} Los últimos cambios no se guardaron: libere espacio en el navegador y vuelva a guardar.`;
+  }
+  if (error instanceof Error) return error.message;
+  return 'Error desconocido al guardar los datos.';
+};
+
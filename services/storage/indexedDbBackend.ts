@@ -0,0 +1,112 @@
+import { PeriodSnapshot, StorageBackend, StorageError, StoredClient } from "./types";
+
+const DB_NAME = 'auditai';
+const DB_VERSION = 3;
+const CLIENT_STORE = 'clients';
+const DOCUMENT_STORE = 'documents'; // Blobs keyed by content hash (out-of-line keys)
+const SNAPSHOT_STORE = 'snapshots';
+
+const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new StorageError('El navegador no tiene más espacio para guardar datos de AuditAI.', 'QUOTA');
+  }
+  if (error instanceof StorageError) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+  return new StorageError(`Error de la base de datos local: ${detail}`, 'UNKNOWN');
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new StorageError('Este navegador no permite guardar datos localmente (IndexedDB no disponible).', 'UNAVAILABLE'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // Object stores are created here; later versions add stores, never rename them
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(CLIENT_STORE)) {
+      db.createObjectStore(CLIENT_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+      db.createObjectStore(DOCUMENT_STORE);
+    }
+    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(toStorageError(request.error));
+  request.onblocked = () => reject(new StorageError('Cierre las otras pestañas de AuditAI para actualizar la base de datos.', 'UNAVAILABLE'));
+});
+
+// Resolves when the transaction commits; quota errors usually surface here, not on the request
+const runTransaction = (
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  let connection: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    connection = connection || openDatabase().catch(error => {
+      connection = null; // Allow a retry after the user frees space or closes other tabs
+      throw error;
+    });
+    return connection;
+  };
+
+  return {
+    loadClients: async () => {
+      const database = await db();
+      let records: StoredClient[] = [];
+      await runTransaction(database, CLIENT_STORE, 'readonly', store => {
+        const request = store.getAll();
+        request.onsuccess = () => { records = request.result; };
+      });
+      return records;
+    },
+
+    saveClient: async (record) => {
+      await runTransaction(await db(), CLIENT_STORE, 'readwrite', store => store.put(record));
+    },
+
+    deleteClient: async (id) => {
+      await runTransaction(await db(), CLIENT_STORE, 'readwrite', store => store.delete(id));
+    },
+
+    saveDocument: async (hash, content) => {
+      await runTransaction(await db(), DOCUMENT_STORE, 'readwrite', store => store.put(content, hash));
+    },
+
+    loadDocument: async (hash) => {
+      let content: Blob | undefined;
+      await runTransaction(await db(), DOCUMENT_STORE, 'readonly', store => {
+        const request = store.get(hash);
+        request.onsuccess = () => { content = request.result; };
+      });
+      return content;
+    },
+
+    saveSnapshot: async (snapshot) => {
+      await runTransaction(await db(), SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot));
+    },
+
+    loadSnapshot: async (id) => {
+      let snapshot: PeriodSnapshot | undefined;
+      await runTransaction(await db(), SNAPSHOT_STORE, 'readonly', store => {
+        const request = store.get(id);
+        request.onsuccess = () => { snapshot = request.result; };
+      });
+      return snapshot;
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { ClientData } from "../../types";
+import { migrateLegacyClient } from "../periods";
+import { lineKey } from "../financialStatements";
+
+/**
+ * ClientData schema history. Bump CLIENT_SCHEMA_VERSION whenever a stored field changes
+ * shape and register the step that upgrades records from the previous version.
+ *
+ * 1: flat `accounts` array (the original localStorage format)
+ * 2: accounts grouped in fiscal `periods`
+ * 3: `files` entries are SourceDocuments with an id (and, from now on, a stored original)
+ * 4: the unused client-level `notes` array is gone; notes live in the period reviews
+ * 5: period `lineReviews` are keyed by line key instead of account id
+ */
+export const CLIENT_SCHEMA_VERSION = 5;
+
+// Reviews of accounts no longer in the period had no line to show them and are dropped
+const rekeyLineReviews = (period: any) => {
+  if (!period.lineReviews) return undefined;
+  const reviews: Record<string, any> = {};
+  (period.accounts || []).forEach((acc: any) => {
+    const review = period.lineReviews[acc.id];
+    if (review) reviews[lineKey(acc)] = review;
+  });
+  return reviews;
+};
+
+const MIGRATIONS: Record<number, (client: any) => any> = {
+  1: migrateLegacyClient,
+  2: client => ({
+    ...client,
+    files: (client.files || []).map((f: any) => ({ id: crypto.randomUUID(), ...f }))
+  }),
+  3: ({ notes, ...client }) => client,
+  4: client => ({
+    ...client,
+    periods: (client.periods || []).map((period: any) => ({
+      ...period,
+      lineReviews: rekeyLineReviews(period)
+    }))
+  })
+};
+
+export const migrateClient = (client: any, fromVersion: number): ClientData => {
+  let migrated = client;
+  for (let version = fromVersion; version < CLIENT_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
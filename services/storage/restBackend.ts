@@ -0,0 +1,70 @@
+import { PeriodSnapshot, StorageBackend, StorageError, StoredClient } from "./types";
+
+/**
+ * Backend for a local REST server exposing the same records:
+ * GET /clients, PUT /clients/:id, DELETE /clients/:id (JSON bodies) and
+ * GET/PUT /documents/:hash (raw file bodies) and GET/PUT /snapshots/:id (JSON).
+ */
+export const createRestBackend = (baseUrl: string): StorageBackend => {
+  const call = async (path: string, init?: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init?.headers }
+      });
+    } catch {
+      throw new StorageError(`No se pudo conectar con el servidor de datos (${baseUrl}).`, 'UNAVAILABLE');
+    }
+    if (response.status === 413 || response.status === 507) {
+      throw new StorageError('El servidor de datos no tiene espacio para guardar el cliente.', 'QUOTA');
+    }
+    if (!response.ok) {
+      throw new StorageError(`El servidor de datos respondió ${response.status}.`, 'UNKNOWN');
+    }
+    return response;
+  };
+
+  return {
+    loadClients: async () => (await call('/clients')).json() as Promise<StoredClient[]>,
+
+    saveClient: async (record) => {
+      await call(`/clients/${encodeURIComponent(record.id)}`, { method: 'PUT', body: JSON.stringify(record) });
+    },
+
+    deleteClient: async (id) => {
+      await call(`/clients/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+
+    saveDocument: async (hash, content) => {
+      await call(`/documents/${hash}`, {
+        method: 'PUT',
+        body: content,
+        headers: { 'Content-Type': content.type || 'application/octet-stream' }
+      });
+    },
+
+    loadDocument: async (hash) => {
+      try {
+        return await (await call(`/documents/${hash}`)).blob();
+      } catch (error) {
+        // A missing original is not an error for the caller, just unavailable
+        if (error instanceof StorageError && error.kind === 'UNKNOWN') return undefined;
+        throw error;
+      }
+    },
+
+    saveSnapshot: async (snapshot) => {
+      await call(`/snapshots/${encodeURIComponent(snapshot.id)}`, { method: 'PUT', body: JSON.stringify(snapshot) });
+    },
+
+    loadSnapshot: async (id) => {
+      try {
+        return await (await call(`/snapshots/${encodeURIComponent(id)}`)).json() as PeriodSnapshot;
+      } catch (error) {
+        if (error instanceof StorageError && error.kind === 'UNKNOWN') return undefined;
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { AccountLine, ClientData } from "../../types";
+
+// One client per record, tagged with the ClientData schema it was written with
+export interface StoredClient {
+  id: string;
+  schemaVersion: number;
+  savedAt: string;
+  client: ClientData;
+}
+
+// Accounts of a period as they were at one ledger entry (same id)
+export interface PeriodSnapshot {
+  id: string;
+  clientId: string;
+  periodId: string;
+  accounts: AccountLine[];
+}
+
+/**
+ * Where clients are persisted. Records come back as stored; schema migrations run in
+ * storage/index.ts so every backend gets them for free.
+ */
+export interface StorageBackend {
+  loadClients: () => Promise<StoredClient[]>;
+  saveClient: (record: StoredClient) => Promise<void>;
+  deleteClient: (id: string) => Promise<void>;
+  // Uploaded originals, content-addressed: the same file uploaded twice is stored once
+  saveDocument: (hash: string, content: Blob) => Promise<void>;
+  loadDocument: (hash: string) => Promise<Blob | undefined>;
+  // Kept apart from the client record so the history does not weigh on every save
+  saveSnapshot: (snapshot: PeriodSnapshot) => Promise<void>;
+  loadSnapshot: (id: string) => Promise<PeriodSnapshot | undefined>;
+}
+
+export type StorageErrorKind = 'QUOTA' | 'UNAVAILABLE' | 'UNKNOWN';
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+
+  constructor(message: string, kind: StorageErrorKind) {
+    super(message);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,19 @@
+import { AccountLine, AccountType, Term } from "../types";
+import { normalizeText } from "./accountMapping";
+
+export const TERM_LABELS: Record<Term, string> = {
+  CURRENT: 'Corriente',
+  NON_CURRENT: 'No Corriente'
+};
+
+// Only the balance sheet chapters split into current and non-current
+export const hasTerm = (type: AccountType): boolean =>
+  type === AccountType.ASSET || type === AccountType.LIABILITY;
+
+// Rubros held or owed beyond twelve months by nature; any other rubro is current unless a line says otherwise
+const NON_CURRENT_RUBRO = /bienes de uso|propiedad,? planta|intangible|llave de negocio|participaciones permanentes|inversiones permanentes|no corriente|largo plazo/;
+
+export const defaultTerm = (category: string): Term =>
+  NON_CURRENT_RUBRO.test(normalizeText(category)) ? 'NON_CURRENT' : 'CURRENT';
+
+export const lineTerm = (acc: Pick<AccountLine, 'category' | 'term'>): Term => acc.term || defaultTerm(acc.category);
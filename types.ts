@@ -16,20 +16,298 @@ export interface AccountLine {
   balance: number;
   type: AccountType;
   category: string; // Rubro CNV (e.g., "Caja y Bancos", "Bienes de Uso")
-  isGroup: boolean; // True = Rubro (Header), False = Sub-cuenta (Detail)
+  isGroup: boolean; // True = Rubro (Header) or imported total, False = Sub-cuenta (Detail)
+  indent?: number; // Leading spaces of the name in the source file; places uncoded lines in the account tree
+  term?: Term; // Assets and liabilities only; missing = decided by the rubro
+  nature?: MonetaryNature; // For the inflation adjustment; missing = decided by the chapter and rubro
+  originDate?: string; // YYYY-MM the non-monetary item was acquired or accrued, for its restatement coefficient
+  currency?: string; // ISO 4217 code of a foreign currency line (USD, EUR); missing = pesos
+  originalAmount?: number; // Balance in `currency`, signed like `balance`, which stays in pesos
   manualOverride: boolean;
+  classificationSource?: ClassificationSource;
 }
 
+export type ClassificationSource = 'RULE' | 'AI' | 'MEMORY';
+
+// Activo / Pasivo corriente (realizable or due within twelve months of the closing date) or no corriente
+export type Term = 'CURRENT' | 'NON_CURRENT';
+
+// RT 6: monetary items are already in closing currency; non-monetary ones are restated from their origin
+export type MonetaryNature = 'MONETARY' | 'NON_MONETARY';
+
+// A line the AI could not classify after every retry, and the last validation error for it
+export interface ClassificationFailure {
+  accountId: string;
+  code: string;
+  name: string;
+  reason: string;
+}
+
+export interface ClassificationReport {
+  total: number;
+  classifiedByRule: number;
+  classifiedByAI: number;
+  failures: ClassificationFailure[];
+}
+
+// A classification confirmed by hand, reused on later imports of the same account
+export interface ClassificationMemoryEntry {
+  key: string; // "code:<code>" or "name:<normalized name>"
+  label: string; // Account as it was when remembered, for display
+  type: AccountType;
+  category: string;
+  isGroup: boolean;
+  term?: Term;
+  updatedAt: string;
+}
+
+export interface MappingRule {
+  id: string;
+  matchType: 'CODE_PREFIX' | 'NAME_PATTERN';
+  pattern: string; // Code prefix (e.g. "1.1.01") or text contained in the account name
+  type: AccountType;
+  category?: string; // Empty = the rule only fixes the chapter, the AI still picks the Rubro
+  term?: Term; // Empty = current or not is decided with the Rubro
+}
+
+export type AmountFormat = 'ES_AR' | 'EN_US'; // 1.234,56 | 1,234.56
+
+// 0-based column positions detected in a trial balance spreadsheet (-1 = column not present)
+export interface ColumnMapping {
+  codeIndex: number;
+  nameIndex: number;
+  debitIndex: number;
+  creditIndex: number;
+  balanceIndex: number;
+  startRow: number;
+  amountFormats?: Partial<Record<'debitIndex' | 'creditIndex' | 'balanceIndex', AmountFormat>>; // Unset = detected from the values
+}
+
+// A column mapping confirmed by the auditor, reused for later files with the same layout
+export interface SavedImportMapping {
+  id: string;
+  sheetName: string;
+  signature: string; // Normalized header row, identifies the ERP export format
+  columnCount: number;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+// One month of the FACPCE price index (IPC nacional empalmado con IPIM)
+export interface PriceIndex {
+  month: string; // YYYY-MM
+  value: number;
+}
+
+// Price index table shared by every client; months ascending
+export interface PriceIndexTable {
+  indices: PriceIndex[];
+  source?: string; // File the table was last imported from
+  updatedAt: string;
+}
+
+// Pesos per unit of a foreign currency on one day, e.g. the BCRA Comunicación A 3500 reference rate
+export interface ExchangeRate {
+  currency: string; // ISO 4217
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+// Exchange rates shared by every client; by currency, then date ascending
+export interface ExchangeRateTable {
+  rates: ExchangeRate[];
+  source?: string; // File the table was last imported from
+  updatedAt: string;
+}
+
+export type PeriodStatus = 'BORRADOR' | 'EN_REVISION' | 'CERRADO';
+
+// Side on which a rubro normally carries its balance; a rubro against its chapter's side is a regularizadora
+export type SignConvention = 'DEBIT' | 'CREDIT';
+
+export interface ModelSubrubro {
+  id: string;
+  name: string;
+}
+
+export interface ModelRubro {
+  id: string;
+  name: string;
+  sign: SignConvention;
+  subrubros: ModelSubrubro[];
+}
+
+export interface ModelChapter {
+  type: AccountType;
+  rubros: ModelRubro[]; // In presentation order
+}
+
+// Chapters and rubros in the order the statements present them
+export interface BalanceModel {
+  chapters: ModelChapter[];
+}
+
+// One saved state of a library model; never edited once saved
+export interface ModelVersion {
+  version: number; // 1, 2, 3...
+  model: BalanceModel;
+  createdAt: string;
+  createdBy?: string;
+  note?: string;
+}
+
+// Named presentation model of the firm, e.g. "CNV Comercial" or "RT 11 Sin fines de lucro"
+export interface LibraryModel {
+  id: string;
+  name: string;
+  description?: string;
+  versions: ModelVersion[]; // Oldest first; the last one is current
+}
+
+export interface ModelLibrary {
+  models: LibraryModel[];
+  defaultModelId: string; // For clients without a model of their own
+}
+
+// Model assigned to a client or period. Without a version, whatever is current in the library.
+export interface ModelRef {
+  modelId: string;
+  version?: number;
+}
+
+export type ReviewStatus = 'PENDIENTE' | 'REVISADO' | 'OBSERVADO';
+
+export interface SignOff {
+  user: string;
+  date: string; // ISO timestamp
+}
+
+// Working-paper review of one account line or one rubro
+export interface ReviewRecord {
+  status: ReviewStatus;
+  note?: string;
+  preparedBy?: SignOff;
+  reviewedBy?: SignOff;
+}
+
+// Movements of an Anexo A or Anexo E line that the balances cannot tell; unset = derived from them
+export interface AnnexMovement {
+  opening?: number; // Only needed without a prior period to read it from
+  additions?: number; // Altas (A) or aumentos (E)
+  disposals?: number; // Bajas (A) or disminuciones (E)
+  depreciationOpening?: number; // Anexo A, without a prior period
+  depreciationDisposals?: number; // Anexo A: accumulated depreciation of the items retired
+}
+
+// Column of Anexo H an expense line is reported in
+export type ExpenseFunction = 'COST' | 'ADMIN' | 'SELLING' | 'FINANCE' | 'EXCLUDED';
+
+// Figures of the statutory annexes typed by the auditor, by account line key (code, else name)
+export interface AnnexInputs {
+  movements?: Record<string, AnnexMovement>;
+  openingInventory?: number; // Anexo F, without a prior period
+  purchases?: number; // Anexo F; unset = derived from the booked cost of sales
+  expenseFunctions?: Record<string, ExpenseFunction>; // Anexo H; unset = by rubro
+}
+
+// One side of an adjusting entry against an account line of the period
+export interface JournalLine {
+  accountKey: string; // Line key (code, else name), so entries survive a new import of the balance
+  debit: number;
+  credit: number;
+}
+
+// Asiento de ajuste: applied on top of the imported balances, which stay as they were
+export interface AdjustingEntry {
+  id: string;
+  number: number;
+  date: string; // YYYY-MM-DD
+  description: string;
+  reference: string; // Working paper or supporting document
+  lines: JournalLine[];
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface FiscalPeriod {
+  id: string;
+  label: string; // e.g. "Ejercicio 2024"
+  closingDate: string; // ISO date (YYYY-MM-DD) of the balance sheet
+  status: PeriodStatus;
+  accounts: AccountLine[];
+  lineReviews?: Record<string, ReviewRecord>; // By line key (code, or name when uncoded), so re-imports keep them
+  rubroReviews?: Record<string, ReviewRecord>; // By rubro key (chapter + rubro name)
+  modelRef?: ModelRef; // Overrides the client's model; pinned to the version last classified with
+  annexInputs?: AnnexInputs; // Manual figures of Anexos A, E, F and H
+  adjustingEntries?: AdjustingEntry[]; // Journal of adjustments, by number
+}
+
+// An uploaded trial balance; its content is kept in storage under `hash`
+export interface SourceDocument {
+  id: string;
+  name: string;
+  date: string;
+  type: string;
+  hash?: string; // SHA-256 of the content; missing for files uploaded before originals were kept
+  size?: number;
+  periodId?: string; // Period the import landed in
+  importId?: string; // Import produced by this upload
+}
+
+export type SnapshotKind = 'IMPORT' | 'SAVE' | 'RESTORE' | 'RECLASSIFY';
+
+// One version of a period's accounts; the lines themselves live in storage under `id`
+export interface LedgerEntry {
+  id: string;
+  periodId: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  description: string;
+  lineCount: number;
+  documentId?: string; // Source document, for imports
+}
+
+export type ChangeAction = 'ADD' | 'EDIT' | 'DELETE';
+
+// Fields of an account line the auditor can edit by hand
+export type TrackedField = 'code' | 'name' | 'type' | 'category' | 'term' | 'nature' | 'originDate' | 'currency' | 'originalAmount' | 'debit' | 'credit' | 'balance' | 'isGroup';
+
+export type ChangeValue = string | number | boolean | null;
+
+// One manual change to one field of one account line. Never edited or removed once recorded.
+export interface ChangeLogEntry {
+  id: string;
+  periodId: string;
+  accountId: string;
+  accountLabel: string; // Code and name at the time of the change
+  action: ChangeAction;
+  field?: TrackedField; // Only for edits
+  oldValue: ChangeValue;
+  newValue: ChangeValue;
+  user: string;
+  timestamp: string;
+  note?: string; // Justification entered by the auditor
+}
+
+// Where the variation of a rubro goes in the Estado de Flujo de Efectivo; CASH rubros are the efectivo itself
+export type CashFlowActivity = 'CASH' | 'OPERATING' | 'INVESTING' | 'FINANCING';
+
 export interface ClientData {
   id: string;
   name: string;
   cuit: string;
   industry: string;
   lastUpdated: string;
-  accounts: AccountLine[];
-  files: { name: string; date: string; type: string }[];
-  notes: string[];
-  customRegulations?: string; // Stores the extracted rules from the uploaded normative file
+  periods: FiscalPeriod[]; // One trial balance per fiscal year, any order
+  files: SourceDocument[];
+  customRegulations?: string; // Rules extracted from the client's normative file, applied within its model
+  modelRef?: ModelRef; // Presentation model of the client; the library default when missing
+  mappingRules?: MappingRule[]; // Client-specific code/name mappings, checked before the global ones
+  classificationMemory?: Record<string, ClassificationMemoryEntry>; // Learned from manual overrides
+  importMappings?: SavedImportMapping[]; // Spreadsheet layouts confirmed on previous imports
+  ledger?: LedgerEntry[]; // Every import, save and restore, oldest first
+  changeLog?: ChangeLogEntry[]; // Manual changes to account lines, append-only, oldest first
+  cashFlowMapping?: Record<string, CashFlowActivity>; // By rubro key (chapter + rubro name); unset = by rubro name
 }
 
 export interface Inconsistency {
@@ -49,4 +327,4 @@ export interface RegulatoryUpdate {
 }
 
 export type ViewState = 'DASHBOARD' | 'CLIENT_WORKBENCH' | 'REGULATIONS';
-export type WorkbenchTab = 'UPLOAD' | 'CLASSIFICATION' | 'REPORTS' | 'EXPORT';
\ No newline at end of file
+export type WorkbenchTab = 'UPLOAD' | 'CLASSIFICATION' | 'ADJUSTMENTS' | 'REPORTS' | 'ANALYSIS' | 'DOCUMENTS' | 'HISTORY' | 'CHANGES' | 'EXPORT';
\ No newline at end of file